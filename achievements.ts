@@ -0,0 +1,165 @@
+// achievements.ts - Data-Driven Achievements for AhavatFit
+//
+// Achievements are rules over metrics derived from the user's stores (workouts, minutes, streaks,
+// recipes, cycle logs, programs...). Whenever one of those stores is written, every rule is
+// re-evaluated and newly reached achievements are unlocked with the date they were earned.
+
+import * as state from './state';
+import { showAchievementModal } from './ui';
+import { STORES, onStoreWrite, readStore, updateStore } from './storage';
+import { getCompletedWorkouts, getStreakSummary } from './progress';
+
+// --- DATA TYPES & CONSTANTS ---
+
+export type AchievementMetric =
+    | 'workouts'
+    | 'minutes'
+    | 'streak'
+    | 'freezes'
+    | 'recipes'
+    | 'cycleLogs'
+    | 'programs'
+    | 'onboarding'
+    | 'aiChats'
+    | 'goals';
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
+export interface AchievementDefinition {
+    id: string;
+    metric: AchievementMetric;
+    tier: AchievementTier;
+    target: number;
+    title: string;
+    description: string;
+}
+
+export interface AchievementProgress {
+    achievement: AchievementDefinition;
+    current: number; // Capped at the target
+    unlockedAt: string | null; // YYYY-MM-DD, or '' when unlocked before dates were recorded
+}
+
+export const ACHIEVEMENT_TIERS: Record<AchievementTier, string> = {
+    bronze: 'Бронза',
+    silver: 'Серебро',
+    gold: 'Золото'
+};
+
+export const METRIC_ICONS: Record<AchievementMetric, string> = {
+    workouts: 'fa-dumbbell',
+    minutes: 'fa-stopwatch',
+    streak: 'fa-fire',
+    freezes: 'fa-snowflake',
+    recipes: 'fa-utensils',
+    cycleLogs: 'fa-droplet',
+    programs: 'fa-map',
+    onboarding: 'fa-seedling',
+    aiChats: 'fa-comments',
+    goals: 'fa-bullseye'
+};
+
+/**
+ * Every achievement, in gallery order. Ids of achievements that existed before the engine are kept
+ * so that badges unlocked by older versions of the app stay unlocked.
+ */
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+    { id: 'ONBOARDING_COMPLETE', metric: 'onboarding', tier: 'bronze', target: 1, title: 'Добро пожаловать!', description: 'Профиль настроен.' },
+    { id: 'FIRST_WORKOUT', metric: 'workouts', tier: 'bronze', target: 1, title: 'Первый шаг сделан', description: 'Первая завершённая тренировка.' },
+    { id: 'WORKOUTS_10', metric: 'workouts', tier: 'silver', target: 10, title: 'Входит в привычку', description: '10 завершённых тренировок.' },
+    { id: 'WORKOUTS_50', metric: 'workouts', tier: 'gold', target: 50, title: 'Полсотни', description: '50 завершённых тренировок.' },
+    { id: 'MINUTES_100', metric: 'minutes', tier: 'bronze', target: 100, title: 'Первые сто минут', description: '100 минут тренировок.' },
+    { id: 'MINUTES_500', metric: 'minutes', tier: 'silver', target: 500, title: 'Время для себя', description: '500 минут тренировок.' },
+    { id: 'MINUTES_2000', metric: 'minutes', tier: 'gold', target: 2000, title: 'Марафон заботы', description: '2000 минут тренировок.' },
+    { id: 'WORKOUT_STREAK_3', metric: 'streak', tier: 'bronze', target: 3, title: 'Сила привычки', description: 'Серия тренировок из 3 дней.' },
+    { id: 'WORKOUT_STREAK_7', metric: 'streak', tier: 'silver', target: 7, title: 'Неделя постоянства', description: 'Серия тренировок из 7 дней.' },
+    { id: 'WORKOUT_STREAK_30', metric: 'streak', tier: 'gold', target: 30, title: 'Месяц дисциплины', description: 'Серия тренировок из 30 дней.' },
+    { id: 'STREAK_FREEZE_EARNED', metric: 'freezes', tier: 'bronze', target: 1, title: 'Запас прочности', description: 'Заработанная заморозка — один пропуск не прервёт серию.' },
+    { id: 'RECIPE_EXPLORER', metric: 'recipes', tier: 'bronze', target: 1, title: 'Кулинарный исследователь', description: 'Первый открытый рецепт.' },
+    { id: 'RECIPES_3', metric: 'recipes', tier: 'silver', target: 3, title: 'Вкус к здоровью', description: '3 разных рецепта.' },
+    { id: 'RECIPES_7', metric: 'recipes', tier: 'gold', target: 7, title: 'Шеф своей кухни', description: '7 разных рецептов.' },
+    { id: 'CYCLE_LOG_FIRST', metric: 'cycleLogs', tier: 'bronze', target: 1, title: 'В гармонии с собой', description: 'Первая запись в календаре цикла.' },
+    { id: 'CYCLE_LOGS_30', metric: 'cycleLogs', tier: 'silver', target: 30, title: 'Знаю своё тело', description: '30 записей в календаре цикла.' },
+    { id: 'CYCLE_LOGS_100', metric: 'cycleLogs', tier: 'gold', target: 100, title: 'Летопись цикла', description: '100 записей в календаре цикла.' },
+    { id: 'PROGRAM_COMPLETE', metric: 'programs', tier: 'silver', target: 1, title: 'Путь пройден', description: 'Завершённая программа тренировок.' },
+    { id: 'AI_CHAT_START', metric: 'aiChats', tier: 'bronze', target: 1, title: 'Разговор по душам', description: 'Первый разговор с AI-тренером.' },
+    { id: 'GOAL_SETTER', metric: 'goals', tier: 'bronze', target: 1, title: 'Цель поставлена', description: 'Первая поставленная фитнес-цель.' }
+];
+
+/** Stores whose changes can move an achievement metric. */
+const TRACKED_KEYS = new Set([
+    state.COMPLETED_WORKOUTS_KEY,
+    state.VIEWED_RECIPES_KEY,
+    state.CYCLE_LOG_DATA_KEY,
+    state.PROGRAM_HISTORY_KEY,
+    state.ONBOARDING_COMPLETED_KEY,
+    state.AI_CHAT_HISTORY_KEY,
+    state.USER_GOAL_KEY
+]);
+
+// --- METRICS ---
+
+/**
+ * Derives the current value of every achievement metric from the stores.
+ */
+export function getAchievementMetrics(todayStr: string = new Date().toISOString().split('T')[0]): Record<AchievementMetric, number> {
+    const completedWorkouts = getCompletedWorkouts();
+    const streak = getStreakSummary(completedWorkouts, todayStr);
+    return {
+        workouts: completedWorkouts.length,
+        minutes: completedWorkouts.reduce((sum, w) => sum + w.duration, 0),
+        streak: streak.longest,
+        freezes: streak.freezesEarned,
+        recipes: readStore(STORES.viewedRecipes).length,
+        cycleLogs: Object.keys(readStore(STORES.cycleLog)).length,
+        programs: readStore(STORES.programHistory).length,
+        onboarding: readStore(STORES.onboardingCompleted) ? 1 : 0,
+        aiChats: readStore(STORES.aiChatHistory).some(m => m.sender === 'user') ? 1 : 0,
+        goals: readStore(STORES.userGoals).length
+    };
+}
+
+// --- PUBLIC API ---
+
+/**
+ * Returns every achievement with the user's progress toward it and when it was unlocked.
+ */
+export function getAchievementProgress(): AchievementProgress[] {
+    const metrics = getAchievementMetrics();
+    const unlocked = readStore(STORES.achievements);
+    return ACHIEVEMENTS.map(achievement => ({
+        achievement,
+        current: Math.min(metrics[achievement.metric], achievement.target),
+        unlockedAt: unlocked[achievement.id] ?? null
+    }));
+}
+
+/**
+ * Unlocks every achievement whose target has been reached and announces the last of them.
+ * @returns The newly unlocked achievements.
+ */
+export function evaluateAchievements(): AchievementDefinition[] {
+    const metrics = getAchievementMetrics();
+    const unlocked = readStore(STORES.achievements);
+    const reached = ACHIEVEMENTS.filter(a => !(a.id in unlocked) && metrics[a.metric] >= a.target);
+    if (reached.length === 0) return reached;
+
+    const todayStr = new Date().toISOString().split('T')[0];
+    updateStore(STORES.achievements, current => ({
+        ...Object.fromEntries(reached.map(a => [a.id, todayStr])),
+        ...current
+    }));
+
+    // Several badges can be reached at once (e.g. after an import); one modal is enough.
+    const latest = reached[reached.length - 1];
+    const others = reached.length - 1;
+    showAchievementModal({
+        title: latest.title,
+        description: others > 0 ? `${latest.description} И ещё ${others} в вашей коллекции!` : latest.description
+    });
+    return reached;
+}
+
+onStoreWrite(key => {
+    if (TRACKED_KEYS.has(key)) evaluateAchievements();
+});
@@ -13,6 +13,9 @@ import * as state from './state';
 import { $, $$, showToast } from './ui';
 import { initializeMarkdown, renderMarkdown } from './markdown';
 import { DayPhaseInfo } from './cycle';
+import { CycleForecast, addDays, daysBetween } from './predictions';
+import { STORES, readStore, writeStore } from './storage';
+import { GoalDraft, addGoal, normalizeGoal } from './goals';
 
 let ai: GoogleGenAI | null = null;
 let chat: Chat | null = null;
@@ -34,13 +37,12 @@ export function setupAICoaches() {
         goalChat = ai.chats.create({
              model: 'gemini-2.5-flash',
              config: {
-                systemInstruction: `You are Amina, an AI assistant helping a user set a SMART (Specific, Measurable, Achievable, Relevant, Time-bound) weekly fitness goal. Guide the user from a vague desire to a concrete goal of type 'workouts', 'minutes', or 'calories'. When you propose a final goal, your response MUST be ONLY a single JSON object with "text" (your proposal in Russian) and "goal" (an object with "type" and "target" keys). Example: {"text": "Отличная идея! Как насчет такой цели: выполнять 3 тренировки в неделю?", "goal": {"type": "workouts", "target": 3}}`,
+                systemInstruction: `You are Amina, an AI assistant helping a user set a SMART (Specific, Measurable, Achievable, Relevant, Time-bound) goal. The user may already have other goals; each conversation adds one more. Guide the user from a vague desire to a concrete goal. Goal types and the periods they allow: 'workouts' (week), 'minutes' of training (day or week), 'calories' burned (day or week), 'meditationMinutes' (day or week), 'recipesCooked' (week), 'cycleLogDays' - days with a cycle journal entry (week), 'weight' in kg to reach by a deadline (period 'deadline' with a "deadline" date in YYYY-MM-DD). Always reply with a single JSON object with "text" (your message in Russian). When you propose a final goal, also include "goal" (an object with "type", "target", "period" and, for deadline goals, "deadline" keys). Example: {"text": "Отличная идея! Как насчет такой цели: выполнять 3 тренировки в неделю?", "goal": {"type": "workouts", "target": 3, "period": "week"}}`,
                 responseMimeType: "application/json",
              }
         });
 
-        const savedHistory = localStorage.getItem(state.AI_CHAT_HISTORY_KEY);
-        state.globalUIState.aiChatHistory = savedHistory ? JSON.parse(savedHistory) : [];
+        state.globalUIState.aiChatHistory = readStore(STORES.aiChatHistory);
         initSpeechRecognition();
     } catch (e) {
         console.error("Failed to initialize GoogleGenAI", e);
@@ -79,21 +81,56 @@ export async function getNutritionAnalysis(mealDescription: string): Promise<sta
     return JSON.parse(response.text.trim());
 }
 
+/**
+ * Summarizes a cycle forecast for use in a prompt.
+ */
+function describeForecast(forecast: CycleForecast | null): string {
+    if (!forecast) return 'Not enough data';
+    const next = forecast.cycles[0];
+    const parts = [
+        forecast.daysLate > 0
+            ? `Period is ${forecast.daysLate} day(s) late`
+            : `Next period expected on ${next.periodStart} (in ${daysBetween(new Date().toISOString().split('T')[0], next.periodStart)} days)`,
+        `fertile window ${next.fertileWindow.start} to ${next.fertileWindow.end}`,
+        `average cycle ${Math.round(forecast.stats.averageCycleLength)} days`,
+        `prediction confidence ${forecast.confidence}`
+    ];
+    if (forecast.stats.isIrregular) parts.push('cycles are irregular');
+    return parts.join(', ') + '.';
+}
+
+/**
+ * Summarises the user's profile for a prompt. The avatar and other UI-only fields are left out.
+ */
+function describeProfile(profile: state.UserProfile | null): string {
+    if (!profile) return 'Not set';
+    const parts = [
+        `name ${profile.name}`,
+        `main goal: ${profile.goal} (${state.PROFILE_GOALS[profile.goal]})`,
+        `fitness level: ${profile.level}`
+    ];
+    if (profile.weight) parts.push(`weight ${profile.weight} kg`);
+    if (profile.height) parts.push(`height ${profile.height} cm`);
+    if (profile.age) parts.push(`age ${profile.age}`);
+    return parts.join(', ') + '.';
+}
+
 /**
  * Phase VII: Uses Gemini to generate a personalized "Plan for Today", now with program and symptom context.
  * @param context - An object containing all relevant user data.
  * @returns A promise that resolves to a daily plan object.
  */
 export async function generateTodaysPlanAI(context: {
-    profile: any,
+    profile: state.UserProfile | null,
     phase: any,
-    goal: any,
+    prediction: CycleForecast | null,
+    goals: string[],
     todaysProgramWorkout: { title: string } | null,
     cycleSymptoms: string[]
 }) {
     if (!ai) throw new Error("AI not initialized.");
 
-    const { profile, phase, goal, todaysProgramWorkout, cycleSymptoms } = context;
+    const { profile, phase, prediction, goals, todaysProgramWorkout, cycleSymptoms } = context;
 
     const prompt = `
         You are Amina, an AI fitness coach for Muslim women. Create a personalized, actionable 'plan for today' for the app's home screen.
@@ -101,9 +138,10 @@ export async function generateTodaysPlanAI(context: {
         All text must be in Russian, supportive, and concise.
 
         User's Context:
-        - Profile: ${JSON.stringify(profile) || 'Not set'}
-        - Weekly Goal: ${JSON.stringify(goal) || 'Not set'}
+        - Profile: ${describeProfile(profile)}
+        - Goals: ${goals.length > 0 ? goals.join('; ') : 'Not set'}
         - Menstrual Cycle: Day ${phase.dayOfCycle || 'N/A'} which is the ${phase.phase || 'Unknown'} phase.
+        - Cycle Forecast: ${describeForecast(prediction)}
         - Recent Symptoms Logged: ${cycleSymptoms.length > 0 ? cycleSymptoms.join(', ') : 'None'}
         - Today's Workout from Active Program: ${todaysProgramWorkout ? `"${todaysProgramWorkout.title}"` : 'None'}
 
@@ -111,7 +149,7 @@ export async function generateTodaysPlanAI(context: {
         1.  **Workout Suggestion:**
             - If "Today's Workout from Active Program" is provided, YOU MUST use that workout. The 'title' should be its title, and the 'reason' should state that it's part of their program (e.g., "Сегодня по плану...").
             - If the user has logged symptoms like 'cramps' or 'fatigue', you MUST add a gentle modification to the reason. For example: "...но я вижу, ты чувствуешь усталость. Попробуй выполнить ее с легкими весами или сократи количество подходов. Прислушайся к своему телу.".
-            - If NO program workout is provided, recommend a workout type (e.g., 'Силовая тренировка', 'Легкое кардио') that is appropriate for their cycle phase and symptoms.
+            - If NO program workout is provided, recommend a workout type (e.g., 'Силовая тренировка', 'Легкое кардио') that is appropriate for their cycle phase and symptoms, their main goal and their fitness level.
 
         2.  **Nutrition Tip & Mindful Moment:** Provide simple, actionable tips relevant to the user's overall context (cycle phase, symptoms, goals).
 
@@ -218,23 +256,63 @@ export async function getCycleInsightsAI(phaseInfo: DayPhaseInfo) {
 
 
 /**
- * Uses Gemini to generate a personalized weekly workout plan.
- * @param profile - The user's profile data.
- * @param phase - The user's current menstrual cycle phase information.
- * @param availableWorkouts - The list of all available workouts.
- * @returns A promise that resolves to a weekly plan object.
+ * Lists the program weeks that overlap a predicted period or fertile window, so that the AI can
+ * plan lighter and harder weeks around the cycle.
  */
-export async function generateWeeklyPlanAI(profile: any, phase: any, availableWorkouts: any[]) {
+function describeCycleWeeks(forecast: CycleForecast | null, startDate: string, weeks: number): string {
+    if (!forecast) return 'No cycle data; keep the load even.';
+    const overlaps = (start: string, end: string, range: { start: string; end: string }) => range.start <= end && range.end >= start;
+    const notes: string[] = [];
+    for (let week = 1; week <= weeks; week++) {
+        const start = addDays(startDate, (week - 1) * 7);
+        const end = addDays(start, 6);
+        if (forecast.cycles.some(c => overlaps(start, end, { start: c.periodStart, end: c.periodEnd }))) notes.push(`week ${week}: predicted period`);
+        else if (forecast.cycles.some(c => overlaps(start, end, c.fertileWindow))) notes.push(`week ${week}: ovulation, energy is usually highest`);
+    }
+    return notes.length > 0 ? `${notes.join('; ')} (prediction confidence ${forecast.confidence}).` : 'No period or ovulation predicted in these weeks.';
+}
+
+/**
+ * Uses Gemini to design a multi-week workout program from the catalog. The result is unchecked;
+ * pass it through `programFromAI` before use.
+ * @param context.weeks How many weeks the program lasts.
+ * @param context.daysPerWeek How many days a week the user can train.
+ * @returns A promise that resolves to the proposed program: title, description and weeks of `{ day, workoutId }`.
+ */
+export async function generateProgramAI(context: {
+    profile: state.UserProfile | null,
+    goals: string[],
+    weeks: number,
+    daysPerWeek: number,
+    prediction: CycleForecast | null,
+    availableWorkouts: state.Workout[]
+}): Promise<unknown> {
     if (!ai) throw new Error("AI not initialized.");
+
+    const { profile, goals, weeks, daysPerWeek, prediction, availableWorkouts } = context;
     const prompt = `
-        You are Amina, a friendly and knowledgeable AI fitness coach for Muslim women. Your tone is supportive, gentle, and culturally sensitive.
-        Based on the user's profile and the available workouts, create a personalized and balanced weekly workout plan. Select 3 to 4 workouts. For each selected workout, provide a short, encouraging reason (1-2 sentences in Russian) explaining why it's a good choice.
-        User Profile: - Main Goal: ${profile.goal} - Fitness Level: ${profile.level} - Current Menstrual Cycle Phase: ${phase.phase || 'Unknown'}
-        Available Workouts (JSON format): ${JSON.stringify(availableWorkouts.map(w => ({id: w.id, title: w.title, category: w.category})))}
+        You are Amina, a friendly and knowledgeable AI fitness coach for Muslim women. Design a ${weeks}-week workout program.
+        User Profile: ${describeProfile(profile)}
+        Goals: ${goals.length > 0 ? goals.join('; ') : 'Not set'}
+        Training days: exactly ${daysPerWeek} per week. Number them 1-7 within the week and spread them out so rest days fall in between.
+        Menstrual cycle over the program (week 1 starts today): ${describeCycleWeeks(prediction, new Date().toISOString().split('T')[0], weeks)}
+        Available Workouts (JSON format): ${JSON.stringify(availableWorkouts.map(w => ({ id: w.id, title: w.title, category: w.category, duration: w.duration, intensity: w.intensity ?? 'moderate' })))}
+
+        CRITICAL INSTRUCTIONS:
+        1. Use ONLY workoutId values from the list above.
+        2. Build a progression: start at a level that suits the user's fitness level and increase duration or intensity week by week. Beginners need gentler workouts.
+        3. In weeks with a predicted period, choose low-intensity workouts (stretching, breathing). Weeks around ovulation can be the most demanding.
+        4. Give every week a short "focus" in Russian (2-4 words, e.g. "Знакомство с нагрузкой"), and the program a "title" and a 1-2 sentence "description" in Russian.
+
         Return your response ONLY in the specified JSON format.`;
     const responseSchema = {
         type: Type.OBJECT, properties: {
-            plan: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { workoutId: { type: Type.INTEGER }, reason: { type: Type.STRING } } } }
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            weeks: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: {
+                focus: { type: Type.STRING },
+                days: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { day: { type: Type.INTEGER }, workoutId: { type: Type.INTEGER } } } }
+            } } }
         }
     };
     const response = await ai.models.generateContent({
@@ -327,7 +405,7 @@ export function addMessage(text: string, sender: 'user' | 'ai', isStreaming: boo
 
     if (sender === 'user') {
         state.globalUIState.aiChatHistory.push({ sender, text });
-        localStorage.setItem(state.AI_CHAT_HISTORY_KEY, JSON.stringify(state.globalUIState.aiChatHistory));
+        writeStore(STORES.aiChatHistory, state.globalUIState.aiChatHistory);
     }
 
     if (isStreaming) {
@@ -372,7 +450,7 @@ export async function askAI(prompt: string) {
         }
         if (aiMessageElement) delete aiMessageElement.dataset.streaming;
         state.globalUIState.aiChatHistory.push({ sender: 'ai', text: fullResponse });
-        localStorage.setItem(state.AI_CHAT_HISTORY_KEY, JSON.stringify(state.globalUIState.aiChatHistory));
+        writeStore(STORES.aiChatHistory, state.globalUIState.aiChatHistory);
         if (localStorage.getItem('voice-response-enabled') === 'true' && state.globalUIState.speechSynthesis) {
             const utterance = new SpeechSynthesisUtterance(fullResponse);
             const russianVoice = state.globalUIState.speechSynthesis.getVoices().find(v => v.lang === 'ru-RU');
@@ -433,8 +511,9 @@ export async function askGoalAI(prompt: string, renderGoalProgress: () => void)
         
         addGoalMessage(responseData.text, 'ai');
         
-        if (responseData.goal) {
-            showGoalConfirmation(responseData.goal, renderGoalProgress);
+        const goal = responseData.goal ? normalizeGoal(responseData.goal) : null;
+        if (goal) {
+            showGoalConfirmation(goal, renderGoalProgress);
         }
         updateGoalChatStatus("", false);
     } catch (error) {
@@ -477,7 +556,7 @@ function updateGoalChatStatus(text: string, isProcessing: boolean) {
     }
 }
 
-function showGoalConfirmation(goal: {type: string, target: number}, renderGoalProgress: () => void) {
+function showGoalConfirmation(goal: GoalDraft, renderGoalProgress: () => void) {
     const container = $('#goal-chat-response');
     if (!container) return;
     
@@ -493,8 +572,9 @@ function showGoalConfirmation(goal: {type: string, target: number}, renderGoalPr
     if(containerParent) containerParent.scrollTop = containerParent.scrollHeight;
 
     $('#confirm-goal-btn')?.addEventListener('click', () => {
-        localStorage.setItem(state.USER_GOAL_KEY, JSON.stringify(goal));
-        showToast('Отлично! Новая цель установлена.');
+        addGoal(goal);
+        state.globalUIState.profilePageInitialized = false;
+        showToast('Отлично! Новая цель добавлена.');
         const modal = $('#goal-form-modal');
         if(modal) modal.style.display = 'none';
         renderGoalProgress(); 
@@ -4,6 +4,7 @@
 import firebase from 'firebase/compat/app';
 import 'firebase/compat/auth';
 import { $, showToast, getFirebaseAuthErrorMessage } from './ui';
+import { flushBeforeSignOut } from './sync';
 
 /**
  * Generates the HTML string for the login form.
@@ -151,10 +152,19 @@ export function setupAuthEventListeners() {
     });
 }
 
+/**
+ * Returns when the signed-in user's account was created, or null if nobody is signed in.
+ */
+export function getMemberSince(): Date | null {
+    const creationTime = firebase.auth().currentUser?.metadata.creationTime;
+    return creationTime ? new Date(creationTime) : null;
+}
+
 export async function logout() {
     try {
         // FIX: Use v8 namespaced API for sign out.
         const auth = firebase.auth();
+        if (auth.currentUser) await flushBeforeSignOut(auth.currentUser.uid);
         await auth.signOut();
         // onAuthStateChanged in index.tsx will show the login page.
         showToast('Вы вышли из системы.');
@@ -0,0 +1,365 @@
+// backup.ts - Export and Import of User Data (JSON archive + CSV)
+
+import * as state from './state';
+import { downloadFile } from './ui';
+import {
+    STORES, StoreSchema, mergeLists, mergeRecords,
+    readStore, serializeStoredValue, tryParseStoredValue, writeStore
+} from './storage';
+
+// --- ARCHIVE FORMAT ---
+
+const ARCHIVE_APP_ID = 'ahavatfit';
+const ARCHIVE_VERSION = 1;
+
+/**
+ * The stores included in an archive, keyed by their name in the archive file.
+ * Each entry is saved in the storage envelope format, so the usual schema
+ * migrations apply when an archive from an older app version is imported.
+ */
+const ARCHIVED_STORES = {
+    cycleLog: STORES.cycleLog,
+    nutritionLog: STORES.nutritionLog,
+    completedWorkouts: STORES.completedWorkouts,
+    userGoal: STORES.userGoals,
+    meditationLog: STORES.meditationLog,
+    cookedRecipes: STORES.cookedRecipes,
+    achievements: STORES.achievements,
+    activeProgram: STORES.activeProgram,
+    programHistory: STORES.programHistory,
+    customPrograms: STORES.customPrograms,
+    favorites: STORES.favorites,
+    playlists: STORES.playlists,
+    prayerLog: STORES.prayerLog,
+    qadaLedger: STORES.qadaLedger,
+    ramadanLog: STORES.ramadanLog,
+};
+
+type ArchivedStoreName = keyof typeof ARCHIVED_STORES;
+
+type StoreValue<S> = S extends StoreSchema<infer T> ? T : never;
+
+/** A validated store from an archive; the name tells which value type it holds. */
+type ImportedStore = { [K in ArchivedStoreName]: { name: K; value: StoreValue<typeof ARCHIVED_STORES[K]> } }[ArchivedStoreName];
+
+function isArchivedStoreName(name: string): name is ArchivedStoreName {
+    return Object.prototype.hasOwnProperty.call(ARCHIVED_STORES, name);
+}
+
+export interface DataArchive {
+    app: typeof ARCHIVE_APP_ID;
+    archiveVersion: number;
+    exportedAt: string; // ISO string
+    stores: { [name: string]: unknown };
+}
+
+export interface ImportResult {
+    imported: ArchivedStoreName[];
+    skipped: string[];
+}
+
+// --- EXPORT ---
+
+/**
+ * Bundles every archived store into a single versioned archive object.
+ */
+export function createArchive(): DataArchive {
+    const stores: DataArchive['stores'] = {};
+    for (const [name, schema] of Object.entries(ARCHIVED_STORES)) {
+        const store: StoreSchema<unknown> = schema;
+        stores[name] = JSON.parse(serializeStoredValue(store, readStore(store)));
+    }
+    return {
+        app: ARCHIVE_APP_ID,
+        archiveVersion: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        stores
+    };
+}
+
+function escapeCsvCell(value: unknown): string {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+    return [header, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Builds one CSV file per domain that has data.
+ * @returns A map of file names to CSV contents.
+ */
+export function createCsvFiles(): Record<string, string> {
+    const files: Record<string, string> = {};
+
+    const cycleLog = readStore(STORES.cycleLog);
+    const cycleDates = Object.keys(cycleLog).sort();
+    if (cycleDates.length > 0) {
+        files['cycle_log.csv'] = toCsv(
+            ['date', 'period', 'symptoms', 'mood', 'notes'],
+            cycleDates.map(date => {
+                const entry = cycleLog[date];
+                return [date, entry.period, entry.symptoms.join(';'), entry.mood, entry.notes];
+            })
+        );
+    }
+
+    const meals = readStore(STORES.nutritionLog);
+    if (meals.length > 0) {
+        files['meals.csv'] = toCsv(
+            ['date', 'description', 'calories', 'protein', 'carbs', 'fat', 'feedback'],
+            meals.map(m => [m.date, m.userText, m.aiAnalysis.calories, m.aiAnalysis.protein, m.aiAnalysis.carbs, m.aiAnalysis.fat, m.aiAnalysis.feedback])
+        );
+    }
+
+    const workouts = readStore(STORES.completedWorkouts);
+    if (workouts.length > 0) {
+        files['workouts.csv'] = toCsv(
+            ['date', 'workoutId', 'title', 'duration', 'calories', 'setsCompleted', 'setsPlanned', 'rpe', 'feeling', 'notes'],
+            workouts.map(w => [w.date, w.workoutId, state.appState.workouts.find(x => x.id === w.workoutId)?.title, w.duration, w.calories, w.setsCompleted, w.setsPlanned, w.rpe, w.feeling, w.notes])
+        );
+    }
+
+    const goals = readStore(STORES.userGoals);
+    if (goals.length > 0) {
+        files['goals.csv'] = toCsv(
+            ['type', 'target', 'period', 'deadline', 'startValue', 'createdAt', 'archivedAt'],
+            goals.map(g => [g.type, g.target, g.period, g.deadline, g.startValue, g.createdAt, g.archivedAt])
+        );
+    }
+
+    const meditations = readStore(STORES.meditationLog);
+    if (meditations.length > 0) {
+        files['meditations.csv'] = toCsv(['date', 'meditationId', 'minutes'], meditations.map(m => [m.date, m.meditationId, m.minutes]));
+    }
+
+    const cooked = readStore(STORES.cookedRecipes);
+    if (cooked.length > 0) {
+        files['cooked_recipes.csv'] = toCsv(
+            ['date', 'recipeId', 'name'],
+            cooked.map(c => [c.date, c.recipeId, state.appState.recipes.find(r => r.id === c.recipeId)?.name])
+        );
+    }
+
+    const achievements = readStore(STORES.achievements);
+    const achievementIds = Object.keys(achievements).sort();
+    if (achievementIds.length > 0) {
+        files['achievements.csv'] = toCsv(['achievement', 'unlockedAt'], achievementIds.map(id => [id, achievements[id]]));
+    }
+
+    const activeProgram = readStore(STORES.activeProgram);
+    if (activeProgram) {
+        files['program.csv'] = toCsv(['programId', 'startDate'], [[activeProgram.programId, activeProgram.startDate]]);
+    }
+
+    const programHistory = readStore(STORES.programHistory);
+    if (programHistory.length > 0) {
+        files['program_history.csv'] = toCsv(
+            ['programId', 'title', 'startDate', 'finishedDate', 'completedSessions', 'totalSessions'],
+            programHistory.map(p => [p.programId, p.title, p.startDate, p.finishedDate, p.completedSessions, p.totalSessions])
+        );
+    }
+
+    const customPrograms = readStore(STORES.customPrograms);
+    if (customPrograms.length > 0) {
+        // One row per scheduled session, so the plan can be read without the app.
+        files['custom_programs.csv'] = toCsv(
+            ['programId', 'title', 'week', 'day', 'workoutId', 'workout'],
+            customPrograms.flatMap(p => p.schedule.flatMap(w => w.days.map(d => [p.id, p.title, w.week, d.day, d.workoutId, d.title])))
+        );
+    }
+
+    const favorites = readStore(STORES.favorites);
+    const favoriteRows = (Object.keys(favorites) as state.FavoriteKind[]).flatMap(kind => favorites[kind].map(id => [kind, id]));
+    if (favoriteRows.length > 0) {
+        files['favorites.csv'] = toCsv(['kind', 'id'], favoriteRows);
+    }
+
+    const playlists = readStore(STORES.playlists);
+    if (playlists.length > 0) {
+        // One row per item, in playing order.
+        files['playlists.csv'] = toCsv(
+            ['playlistId', 'title', 'position', 'kind', 'id'],
+            playlists.flatMap(p => p.items.map((item, index) => [p.id, p.title, index + 1, item.kind, item.id]))
+        );
+    }
+
+    const prayerLog = readStore(STORES.prayerLog);
+    const prayerDates = Object.keys(prayerLog).sort();
+    if (prayerDates.length > 0) {
+        files['prayers.csv'] = toCsv(
+            ['date', 'fajr', 'dhuhr', 'asr', 'maghrib', 'isha'],
+            prayerDates.map(date => {
+                const day = prayerLog[date];
+                return [date, day.fajr, day.dhuhr, day.asr, day.maghrib, day.isha];
+            })
+        );
+    }
+
+    return files;
+}
+
+/**
+ * Downloads the full JSON archive.
+ */
+export function exportArchive() {
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(`ahavatfit-export-${date}.json`, JSON.stringify(createArchive(), null, 2), 'application/json');
+}
+
+/**
+ * Downloads every table in a single CSV file, one titled section per domain.
+ * Browsers block a page that starts several downloads at once, so the tables are not saved separately.
+ * @returns The number of tables in the file.
+ */
+export function exportCsv(): number {
+    const files = Object.entries(createCsvFiles());
+    if (files.length === 0) return 0;
+
+    const date = new Date().toISOString().split('T')[0];
+    const content = files.map(([name, csv]) => `${escapeCsvCell(name.replace(/\.csv$/, ''))}\r\n${csv}`).join('\r\n\r\n');
+    // A BOM makes spreadsheet apps detect UTF-8 and show Cyrillic text correctly.
+    downloadFile(`ahavatfit-tables-${date}.csv`, '\uFEFF' + content, 'text/csv;charset=utf-8');
+    return files.length;
+}
+
+// --- IMPORT ---
+
+function isArchive(value: unknown): value is DataArchive {
+    if (typeof value !== 'object' || value === null) return false;
+    const archive = value as Record<string, unknown>;
+    return archive.app === ARCHIVE_APP_ID
+        && typeof archive.archiveVersion === 'number'
+        && typeof archive.stores === 'object' && archive.stores !== null;
+}
+
+/**
+ * Prepares the merge of one imported store into local data. Existing local entries are never
+ * overwritten; the archive only fills in what this device doesn't have.
+ * @returns A function that writes the merged value, so every store can be merged before any is written.
+ */
+function mergeImportedStore({ name, value: imported }: ImportedStore): () => void {
+    switch (name) {
+        case 'cycleLog': {
+            const merged = mergeRecords(readStore(STORES.cycleLog), imported);
+            return () => writeStore(STORES.cycleLog, merged);
+        }
+        case 'nutritionLog': {
+            const merged = mergeLists(readStore(STORES.nutritionLog), imported);
+            return () => writeStore(STORES.nutritionLog, merged);
+        }
+        case 'completedWorkouts': {
+            const merged = mergeLists(readStore(STORES.completedWorkouts), imported);
+            return () => writeStore(STORES.completedWorkouts, merged);
+        }
+        case 'achievements': {
+            const merged = mergeRecords(readStore(STORES.achievements), imported);
+            return () => writeStore(STORES.achievements, merged);
+        }
+        case 'userGoal': {
+            // Goals are matched by id, so goals added on either side are kept.
+            const goals = readStore(STORES.userGoals);
+            const ids = new Set(goals.map(g => g.id));
+            const merged = [...goals, ...imported.filter(g => !ids.has(g.id))];
+            return () => writeStore(STORES.userGoals, merged);
+        }
+        case 'meditationLog': {
+            const merged = mergeLists(readStore(STORES.meditationLog), imported);
+            return () => writeStore(STORES.meditationLog, merged);
+        }
+        case 'cookedRecipes': {
+            const merged = mergeLists(readStore(STORES.cookedRecipes), imported);
+            return () => writeStore(STORES.cookedRecipes, merged);
+        }
+        case 'activeProgram': {
+            const keepLocal = readStore(STORES.activeProgram) !== null || imported === null;
+            return () => { if (!keepLocal) writeStore(STORES.activeProgram, imported); };
+        }
+        case 'programHistory': {
+            const merged = mergeLists(readStore(STORES.programHistory), imported);
+            return () => writeStore(STORES.programHistory, merged);
+        }
+        case 'customPrograms': {
+            const programs = readStore(STORES.customPrograms);
+            const ids = new Set(programs.map(p => p.id));
+            const merged = [...programs, ...imported.filter(p => !ids.has(p.id))];
+            return () => writeStore(STORES.customPrograms, merged);
+        }
+        case 'favorites': {
+            const favorites = readStore(STORES.favorites);
+            const merged = { ...favorites };
+            (Object.keys(favorites) as state.FavoriteKind[]).forEach(kind => {
+                merged[kind] = [...favorites[kind], ...imported[kind].filter(id => !favorites[kind].includes(id))];
+            });
+            return () => writeStore(STORES.favorites, merged);
+        }
+        case 'playlists': {
+            const playlists = readStore(STORES.playlists);
+            const ids = new Set(playlists.map(p => p.id));
+            const merged = [...playlists, ...imported.filter(p => !ids.has(p.id))];
+            return () => writeStore(STORES.playlists, merged);
+        }
+        case 'prayerLog': {
+            const merged = mergeRecords(readStore(STORES.prayerLog), imported);
+            return () => writeStore(STORES.prayerLog, merged);
+        }
+        case 'ramadanLog': {
+            const merged = mergeRecords(readStore(STORES.ramadanLog), imported);
+            return () => writeStore(STORES.ramadanLog, merged);
+        }
+        case 'qadaLedger': {
+            // The ledger holds running totals that can't be merged, so only restore it onto an untouched device.
+            const ledger = readStore(STORES.qadaLedger);
+            const untouched = ledger.priorMissedDays === 0 && Object.values(ledger.madeUp).every(n => n === 0);
+            return () => { if (untouched) writeStore(STORES.qadaLedger, imported); };
+        }
+    }
+}
+
+/**
+ * Validates an archive and merges it into local data.
+ * @param json The archive file contents.
+ * @returns Which stores were imported and which were skipped as invalid.
+ * @throws If the file is not an AhavatFit archive, comes from a newer, unsupported format,
+ *         or has no section that can be imported.
+ */
+export function importArchive(json: string): ImportResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (e) {
+        throw new Error('Файл повреждён или не является JSON.');
+    }
+    if (!isArchive(parsed)) {
+        throw new Error('Это не архив AhavatFit.');
+    }
+    if (parsed.archiveVersion > ARCHIVE_VERSION) {
+        throw new Error('Архив создан более новой версией приложения. Обновите приложение.');
+    }
+
+    // Validate and merge every store before writing anything, so a bad archive never half-applies.
+    const valid: ImportedStore[] = [];
+    const skipped: string[] = [];
+    for (const [name, stored] of Object.entries(parsed.stores)) {
+        if (!isArchivedStoreName(name)) {
+            skipped.push(name);
+            continue;
+        }
+        const schema: StoreSchema<unknown> = ARCHIVED_STORES[name];
+        const decoded = tryParseStoredValue(schema, JSON.stringify(stored));
+        if (decoded) {
+            // The value passed the schema of the store with this name.
+            valid.push({ name, value: decoded.value } as ImportedStore);
+        } else {
+            skipped.push(name);
+        }
+    }
+    if (valid.length === 0) {
+        throw new Error('В архиве нет данных, которые можно импортировать.');
+    }
+
+    const writes = valid.map(mergeImportedStore);
+    writes.forEach(write => write());
+    return { imported: valid.map(v => v.name), skipped };
+}
@@ -0,0 +1,101 @@
+// calories.ts - Calorie Estimation for AhavatFit
+//
+// Estimates energy burned from a workout's category, intensity and actual duration using MET
+// (metabolic equivalent) values, personalised with the user's body metrics:
+// kcal = MET × resting energy expenditure (kcal/h) × hours.
+
+import * as state from './state';
+import { STORES, readStore } from './storage';
+import type { CompletedWorkout } from './progress';
+
+// --- DATA TYPES & CONSTANTS ---
+
+export interface BodyMetrics {
+    weight: number;  // kg
+    height?: number; // cm
+    age?: number;
+}
+
+/** MET values for each workout category by intensity (Compendium of Physical Activities). */
+export const CATEGORY_METS: Record<string, Record<state.WorkoutIntensity, number>> = {
+    'Силовая': { low: 3.5, moderate: 5.0, high: 6.0 },
+    'Кардио': { low: 5.0, moderate: 7.0, high: 8.0 },
+    'Растяжка': { low: 2.3, moderate: 2.5, high: 4.0 },
+    'Дыхание': { low: 1.3, moderate: 1.5, high: 2.0 }
+};
+
+/** Accepted ranges for body metrics entered by the user. */
+export const BODY_METRIC_RANGES = {
+    weight: [30, 250],
+    height: [120, 230],
+    age: [12, 100]
+} as const;
+
+const DEFAULT_METS: Record<state.WorkoutIntensity, number> = { low: 3.0, moderate: 4.0, high: 6.0 }; // General exercise
+const DEFAULT_BODY_WEIGHT_KG = 65;  // Used until the user enters a weight
+
+// --- HELPERS ---
+
+/**
+ * Resting energy expenditure in kcal per hour. One MET is by definition 1 kcal/kg/h, but when height
+ * and age are known the Mifflin-St Jeor equation (female) gives a closer personal value.
+ */
+function getRestingKcalPerHour(metrics: BodyMetrics): number {
+    if (!metrics.height || !metrics.age) return metrics.weight;
+    const bmr = 10 * metrics.weight + 6.25 * metrics.height - 5 * metrics.age - 161;
+    return bmr / 24;
+}
+
+/**
+ * Maps perceived exertion (RPE 1-10) to a MET intensity.
+ */
+export function getIntensityForRpe(rpe: number): state.WorkoutIntensity {
+    if (rpe <= 4) return 'low';
+    if (rpe <= 7) return 'moderate';
+    return 'high';
+}
+
+// --- PUBLIC API ---
+
+/**
+ * Returns the user's body metrics, with a typical weight if none was entered.
+ */
+export function getBodyMetrics(): BodyMetrics {
+    const profile = readStore(STORES.userProfile);
+    return {
+        weight: profile?.weight ?? DEFAULT_BODY_WEIGHT_KG,
+        height: profile?.height,
+        age: profile?.age
+    };
+}
+
+/**
+ * Estimates the calories burned during a workout.
+ * @param category One of `WORKOUT_CATEGORIES`.
+ * @param minutes The time actually trained.
+ * @param intensity How hard the workout was.
+ * @param metrics Body metrics; defaults to the user's.
+ */
+export function estimateCalories(category: string, minutes: number, intensity: state.WorkoutIntensity = 'moderate', metrics: BodyMetrics = getBodyMetrics()): number {
+    const met = (CATEGORY_METS[category] ?? DEFAULT_METS)[intensity];
+    return Math.round(met * getRestingKcalPerHour(metrics) * (minutes / 60));
+}
+
+/**
+ * Estimates the calories for a workout, taking the intensity from the user's RPE when one was given.
+ */
+export function estimateWorkoutCalories(workout: state.Workout, minutes: number, rpe?: number): number {
+    const intensity = rpe !== undefined ? getIntensityForRpe(rpe) : workout.intensity ?? 'moderate';
+    return estimateCalories(workout.category, minutes, intensity);
+}
+
+/**
+ * Returns the calories to count for a logged workout. Entries saved through the completion sheet
+ * already hold a personal estimate; older entries only hold the workout's static figure, so they are
+ * re-estimated from their duration when the workout is known.
+ */
+export function getLoggedWorkoutCalories(entry: CompletedWorkout): number {
+    if (entry.rpe !== undefined) return entry.calories;
+    const workout = state.appState.workouts.find(w => w.id === entry.workoutId);
+    return workout ? estimateWorkoutCalories(workout, entry.duration) : entry.calories;
+}
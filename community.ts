@@ -3,6 +3,7 @@
 import * as state from './state';
 import { $, handleAsyncOperation } from './ui';
 import * as api from './api'; // Phase IV: Import the new API layer
+import { STORES, readStore, writeStore } from './storage';
 
 interface CommunityPost {
     id: number;
@@ -55,12 +56,11 @@ async function loadPosts() {
 }
 
 function loadUserReactions() {
-    const saved = localStorage.getItem(state.COMMUNITY_REACTIONS_KEY);
-    userReactions = saved ? JSON.parse(saved) : {};
+    userReactions = readStore(STORES.communityReactions);
 }
 
 function saveUserReactions() {
-    localStorage.setItem(state.COMMUNITY_REACTIONS_KEY, JSON.stringify(userReactions));
+    writeStore(STORES.communityReactions, userReactions);
 }
 
 function renderFeed() {
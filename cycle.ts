@@ -3,7 +3,8 @@
 import * as state from './state';
 import { $, $$, showToast } from './ui';
 import { getCycleInsightsAI } from './ai';
-import { checkAndUnlockAchievement } from './profile';
+import { STORES, readStore, writeStore } from './storage';
+import { CycleForecast, addDays, daysBetween, findCycleStart, forecastCycles } from './predictions';
 
 // --- DATA TYPES & CONSTANTS ---
 export interface CycleData {
@@ -14,7 +15,7 @@ export interface DayPhaseInfo {
     phase: 'menstruation' | 'follicular' | 'ovulation' | 'luteal' | 'unknown';
     dayOfCycle: number | null;
 }
-type AllCycleLogs = { [dateKey: string]: state.CycleLogEntry };
+export type AllCycleLogs = { [dateKey: string]: state.CycleLogEntry };
 
 const SYMPTOMS = {
     cramps: { icon: '🌡️', label: 'Спазмы' },
@@ -33,18 +34,23 @@ const MOODS = {
     irritated: { icon: '😠', label: 'Раздраженное' }
 };
 
+export const PHASE_LABELS: Record<keyof state.PhaseColors, string> = {
+    menstruation: 'Менструация',
+    follicular: 'Фолликулярная',
+    ovulation: 'Овуляция',
+    luteal: 'Лютеиновая'
+};
+
 let currentYear: number;
 let currentMonth: number;
 
 // --- DATA ACCESS & MANIPULATION ---
 
 export function getCycleData(): CycleData {
-    const settingsRaw = localStorage.getItem(state.CYCLE_SETTINGS_KEY);
-    return settingsRaw ? JSON.parse(settingsRaw) : { cycleLength: 28, periodLength: 5 };
+    return readStore(STORES.cycleSettings);
 }
-function getAllLogs(): AllCycleLogs {
-    const logsRaw = localStorage.getItem(state.CYCLE_LOG_DATA_KEY);
-    return logsRaw ? JSON.parse(logsRaw) : {};
+export function getAllLogs(): AllCycleLogs {
+    return readStore(STORES.cycleLog);
 }
 export function saveCycleLogEntry(date: string, entry: Omit<state.CycleLogEntry, 'date'>) {
     const allLogs = getAllLogs();
@@ -57,46 +63,55 @@ export function saveCycleLogEntry(date: string, entry: Omit<state.CycleLogEntry,
          allLogs[date] = { ...existingEntry, ...entry };
     }
 
-    localStorage.setItem(state.CYCLE_LOG_DATA_KEY, JSON.stringify(allLogs));
-    
-    // Check for achievement on first log
-    if (Object.keys(allLogs).length === 1) {
-        checkAndUnlockAchievement('CYCLE_LOG_FIRST');
-    }
+    writeStore(STORES.cycleLog, allLogs);
 }
-function getMostRecentStartDate(allLogs: AllCycleLogs): string | null {
-    const periodStartDays = Object.keys(allLogs).filter(date => allLogs[date].period === 'start');
-    if (periodStartDays.length === 0) return null;
-    return periodStartDays.sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+
+// --- PHASE COLORS ---
+
+/**
+ * Applies the user's phase colors as CSS variables (`--phase-menstruation`, etc.) used by the calendar.
+ */
+export function applyPhaseColors(colors: state.PhaseColors = readStore(STORES.phaseColors)) {
+    (Object.keys(colors) as (keyof state.PhaseColors)[]).forEach(phase => {
+        document.documentElement.style.setProperty(`--phase-${phase}`, colors[phase]);
+    });
 }
 
 // --- PHASE CALCULATION ---
 
-function daysBetween(date1: string, date2: string): number {
-    const d1 = new Date(date1 + 'T00:00:00');
-    const d2 = new Date(date2 + 'T00:00:00');
-    return Math.round((d2.getTime() - d1.getTime()) / (1000 * 3600 * 24));
-}
-export function getDayPhase(targetDateStr: string, cycleData: CycleData, allLogs: AllCycleLogs): DayPhaseInfo {
-    const mostRecentStart = getMostRecentStartDate(allLogs);
-    if (!mostRecentStart) return { phase: 'unknown', dayOfCycle: null };
+/**
+ * Determines the cycle phase of a date. Logged periods take priority; otherwise the phase is
+ * derived from the user's average cycle and period lengths, with ovulation placed a luteal
+ * phase before the next expected period. Future dates follow the predicted cycles.
+ */
+export function getDayPhase(targetDateStr: string, cycleData: CycleData, allLogs: AllCycleLogs, forecast?: CycleForecast | null): DayPhaseInfo {
+    const todayStr = new Date().toISOString().split('T')[0];
+    if (forecast === undefined) forecast = forecastCycles(allLogs, cycleData, todayStr);
+    if (!forecast) return { phase: 'unknown', dayOfCycle: null };
 
-    const dayOfCycle = daysBetween(mostRecentStart, targetDateStr) + 1;
-    if (dayOfCycle <= 0) return { phase: 'unknown', dayOfCycle: null };
+    // Predicted starts only apply to the future; a late period today is still the previous cycle.
+    const cycleStart = findCycleStart(targetDateStr, allLogs, targetDateStr > todayStr ? forecast : null);
+    if (!cycleStart) return { phase: 'unknown', dayOfCycle: null };
+    const dayOfCycle = daysBetween(cycleStart, targetDateStr) + 1;
 
     // Determine phase based on logs first
     const targetDayLog = allLogs[targetDateStr];
     if (targetDayLog?.period) return { phase: 'menstruation', dayOfCycle };
-    
+
+    const { stats } = forecast;
+    const cycleLength = Math.round(stats.averageCycleLength);
+    const periodLength = Math.round(stats.averagePeriodLength);
+    const ovulationDay = Math.max(periodLength + 1, cycleLength - 14 + 1);
+
     // Fallback to calculation if no period is logged for the target day
-    if (dayOfCycle <= cycleData.periodLength) return { phase: 'menstruation', dayOfCycle };
-    
-    const ovulationStart = Math.round(cycleData.cycleLength / 2) - 2;
-    const ovulationEnd = Math.round(cycleData.cycleLength / 2) + 2;
-    if (dayOfCycle <= ovulationStart) return { phase: 'follicular', dayOfCycle };
-    if (dayOfCycle <= ovulationEnd) return { phase: 'ovulation', dayOfCycle };
-    if (dayOfCycle <= cycleData.cycleLength) return { phase: 'luteal', dayOfCycle };
-    
+    if (dayOfCycle <= periodLength) return { phase: 'menstruation', dayOfCycle };
+    if (dayOfCycle < ovulationDay - 2) return { phase: 'follicular', dayOfCycle };
+    if (dayOfCycle <= ovulationDay + 2) return { phase: 'ovulation', dayOfCycle };
+
+    // A late period stays in the luteal phase for a while; long gaps mean the log is simply out of date.
+    const lateTolerance = Math.max(7, Math.round(stats.cycleLengthStdDev * 2));
+    if (dayOfCycle <= cycleLength + lateTolerance) return { phase: 'luteal', dayOfCycle };
+
     return { phase: 'unknown', dayOfCycle };
 }
 
@@ -114,12 +129,14 @@ export async function renderCyclePage(setState?: (newState: Partial<state.AppSta
     const allLogs = getAllLogs();
     const cycleData = getCycleData();
     const todayStr = today.toISOString().split('T')[0];
-    const phaseInfo = getDayPhase(todayStr, cycleData, allLogs);
+    const forecast = forecastCycles(allLogs, cycleData, todayStr);
+    const phaseInfo = getDayPhase(todayStr, cycleData, allLogs, forecast);
 
     container.innerHTML = `
         <div id="ai-phase-insights-container">
              <div class="card skeleton" style="height: 180px;"></div>
         </div>
+        ${renderPredictionCard(forecast, todayStr)}
         <div class="card">
             <div id="calendar-container">
                 <!-- Calendar will be rendered here -->
@@ -152,14 +169,98 @@ export async function renderCyclePage(setState?: (newState: Partial<state.AppSta
     }
 }
 
+const CONFIDENCE_LABELS: Record<CycleForecast['confidence'], string> = {
+    low: 'низкая — отметьте ещё несколько циклов',
+    medium: 'средняя',
+    high: 'высокая'
+};
+
+function formatShortDate(dateStr: string): string {
+    return new Date(dateStr + 'T00:00:00').toLocaleDateString('ru-RU', { day: 'numeric', month: 'long' });
+}
+
+function renderPredictionCard(forecast: CycleForecast | null, todayStr: string): string {
+    if (!forecast) {
+        return `
+            <div class="card prediction-card">
+                <h3><i class="fas fa-wand-magic-sparkles"></i> Прогноз</h3>
+                <p>Отметьте начало месячных в календаре, чтобы получить прогноз следующего цикла.</p>
+            </div>`;
+    }
+
+    const next = forecast.cycles[0];
+    const { stats } = forecast;
+    const uncertainty = daysBetween(next.periodStart, next.periodStartRange.end);
+    const nextPeriodText = forecast.daysLate > 0
+        ? `Задержка ${forecast.daysLate} дн. — ожидаются в любой день`
+        : `${formatShortDate(next.periodStart)} (±${uncertainty} дн., через ${daysBetween(todayStr, next.periodStart)} дн.)`;
+    const averagesText = stats.cycleCount > 0
+        ? `Средний цикл: ${Math.round(stats.averageCycleLength)} дн., месячные: ${Math.round(stats.averagePeriodLength)} дн. (по ${stats.cycleCount} цикл.)`
+        : `Пока используются настройки по умолчанию: цикл ${Math.round(stats.averageCycleLength)} дн.`;
+
+    return `
+        <div class="card prediction-card">
+            <h3><i class="fas fa-wand-magic-sparkles"></i> Прогноз</h3>
+            <p><strong>Следующие месячные:</strong> ${nextPeriodText}</p>
+            <p><strong>Фертильное окно:</strong> ${formatShortDate(next.fertileWindow.start)} – ${formatShortDate(next.fertileWindow.end)}</p>
+            <p class="prediction-meta">${averagesText}. Точность прогноза: ${CONFIDENCE_LABELS[forecast.confidence]}.</p>
+            ${stats.isIrregular ? `
+            <div class="phase-tip irregular-warning">
+                <i class="fas fa-triangle-exclamation"></i>
+                <p>Длина вашего цикла заметно меняется (${stats.shortestCycle}–${stats.longestCycle} дн.). Прогноз может быть неточным; при сохранении нерегулярности стоит обратиться к врачу.</p>
+            </div>` : ''}
+        </div>`;
+}
+
+interface PredictedDays {
+    period: Set<string>;
+    fertile: Set<string>;
+    ovulation: Set<string>;
+}
+
+/**
+ * Collects every day of the predicted periods and fertile windows, so the calendar can mark them.
+ */
+function getPredictedDays(forecast: CycleForecast | null): PredictedDays {
+    const days: PredictedDays = { period: new Set(), fertile: new Set(), ovulation: new Set() };
+    forecast?.cycles.forEach(cycle => {
+        for (let date = cycle.periodStart; date <= cycle.periodEnd; date = addDays(date, 1)) days.period.add(date);
+        for (let date = cycle.fertileWindow.start; date <= cycle.fertileWindow.end; date = addDays(date, 1)) days.fertile.add(date);
+        days.ovulation.add(cycle.ovulationDay);
+    });
+    return days;
+}
+
 function renderCalendar(year: number, month: number) {
     const container = $('#calendar-container');
     if (!container) return;
-    container.innerHTML = generateCalendar(year, month, getAllLogs());
+    const allLogs = getAllLogs();
+    const cycleData = getCycleData();
+    const todayStr = new Date().toISOString().split('T')[0];
+
+    // Predict enough cycles to reach the end of the displayed month, however far ahead the user pages.
+    const monthEndStr = new Date(Date.UTC(year, month + 1, 0)).toISOString().split('T')[0];
+    const cyclesNeeded = Math.ceil(Math.max(0, daysBetween(todayStr, monthEndStr)) / 21) + 1;
+    const forecast = forecastCycles(allLogs, cycleData, todayStr, Math.max(3, cyclesNeeded));
+
+    container.innerHTML = generateCalendar(year, month, allLogs, cycleData, forecast) + generateCalendarLegend();
     setupCalendarEventListeners();
 }
 
-function generateCalendar(year: number, month: number, allLogs: AllCycleLogs): string {
+function generateCalendarLegend(): string {
+    const phaseItems = (Object.keys(PHASE_LABELS) as (keyof state.PhaseColors)[]).map(phase => `
+        <span class="legend-item"><span class="legend-swatch phase-${phase}"></span>${PHASE_LABELS[phase]}</span>`).join('');
+    return `
+        <div class="calendar-legend">
+            ${phaseItems}
+            <span class="legend-item"><span class="legend-swatch logged-period"></span>Отмеченные месячные</span>
+            <span class="legend-item"><span class="legend-swatch predicted-period"></span>Прогноз месячных</span>
+            <span class="legend-item"><span class="legend-swatch fertile-window"></span>Фертильное окно</span>
+        </div>`;
+}
+
+function generateCalendar(year: number, month: number, allLogs: AllCycleLogs, cycleData: CycleData, forecast: CycleForecast | null): string {
+    const predictedDays = getPredictedDays(forecast);
     const today = new Date();
     today.setHours(0,0,0,0);
     const monthStart = new Date(year, month, 1);
@@ -191,6 +292,11 @@ function generateCalendar(year: number, month: number, allLogs: AllCycleLogs): s
         let classes = 'calendar-day interactive';
         if (isToday) classes += ' current-day';
         if (log?.period) classes += ' period-day';
+        else if (predictedDays.period.has(dateStr)) classes += ' predicted-period-day';
+        if (predictedDays.fertile.has(dateStr)) classes += ' fertile-day';
+        if (predictedDays.ovulation.has(dateStr)) classes += ' ovulation-day';
+        const { phase } = getDayPhase(dateStr, cycleData, allLogs, forecast);
+        if (phase !== 'unknown') classes += ` phase-${phase}`;
         
         const symptomDots = log?.symptoms?.length > 0
             ? `<div class="symptom-dots">${log.symptoms.map(() => `<div class="symptom-dot"></div>`).join('')}</div>`
@@ -0,0 +1,559 @@
+// favorites.ts - Favorites and Personal Playlists for AhavatFit
+//
+// Workouts, recipes and meditations can be marked with a heart and are gathered on the home page.
+// Workouts and meditations can also be put into the user's own ordered playlists (a "morning routine"
+// of a stretch and a dhikr meditation), which the playlist player plays one item after another.
+
+import * as state from './state';
+import { $, $$, closeModal, escapeHtml, showToast } from './ui';
+import * as api from './api';
+import { STORES, onStoreWrite, readStore, updateStore } from './storage';
+import { showRecipeModal } from './food';
+import { loadMeditations, trackListening } from './serenity';
+
+// --- DATA TYPES & CONSTANTS ---
+
+interface Catalog {
+    workouts: state.Workout[];
+    recipes: state.Recipe[];
+    meditations: state.Meditation[];
+}
+
+// A playlist item resolved against the catalog.
+interface PlayerEntry {
+    kind: state.PlaylistItem['kind'];
+    id: number;
+    title: string;
+    duration: number; // in minutes
+    mediaUrl: string;
+}
+
+interface PlayerState {
+    title: string;
+    entries: PlayerEntry[];
+    index: number; // entries.length once everything has been played
+}
+
+const FAVORITE_KINDS: Record<state.FavoriteKind, { title: string; icon: string }> = {
+    workout: { title: 'Тренировки', icon: 'fas fa-dumbbell' },
+    meditation: { title: 'Медитации', icon: 'fas fa-spa' },
+    recipe: { title: 'Рецепты', icon: 'fas fa-utensils' }
+};
+
+const MAX_PLAYLIST_ITEMS = 20;
+
+let pickerItem: state.PlaylistItem | null = null;
+let editingPlaylistId: string | null = null;
+let player: PlayerState | null = null;
+
+// --- CATALOG ---
+
+/**
+ * Loads whatever catalogs the current session hasn't loaded yet. A catalog that fails to load is left empty.
+ */
+async function loadCatalog(): Promise<Catalog> {
+    const [workouts, recipes, meditations] = await Promise.all([
+        state.appState.workouts.length > 0 ? state.appState.workouts : api.fetchWorkouts().catch(() => []),
+        state.appState.recipes.length > 0 ? state.appState.recipes : api.fetchRecipes().catch(() => []),
+        loadMeditations()
+    ]);
+    return { workouts, recipes, meditations };
+}
+
+function resolveItem(item: state.PlaylistItem, catalog: Catalog): PlayerEntry | null {
+    if (item.kind === 'workout') {
+        const workout = catalog.workouts.find(w => w.id === item.id);
+        return workout
+            ? { ...item, title: workout.title, duration: workout.duration, mediaUrl: workout.videoUrl || workout.alternativeVideoUrl || '' }
+            : null;
+    }
+    const meditation = catalog.meditations.find(m => m.id === item.id);
+    return meditation ? { ...item, title: meditation.title, duration: meditation.duration, mediaUrl: meditation.audioUrl } : null;
+}
+
+// --- FAVORITES ---
+
+export function isFavorite(kind: state.FavoriteKind, id: number): boolean {
+    return readStore(STORES.favorites)[kind].includes(id);
+}
+
+/**
+ * Adds an item to the favorites, or removes it if it is already there.
+ * @returns Whether the item is a favorite now.
+ */
+export function toggleFavorite(kind: state.FavoriteKind, id: number): boolean {
+    let added = false;
+    updateStore(STORES.favorites, favorites => {
+        added = !favorites[kind].includes(id);
+        return { ...favorites, [kind]: added ? [id, ...favorites[kind]] : favorites[kind].filter(f => f !== id) };
+    });
+    return added;
+}
+
+/**
+ * Generates the heart button that toggles an item's favorite status. Any number of them can be on screen.
+ */
+export function generateFavoriteButton(kind: state.FavoriteKind, id: number): string {
+    const active = isFavorite(kind, id);
+    return `
+        <button class="favorite-btn ${active ? 'active' : ''}" data-favorite-kind="${kind}" data-favorite-id="${id}"
+            aria-pressed="${active}" aria-label="${active ? 'Убрать из избранного' : 'Добавить в избранное'}">
+            <i class="${active ? 'fas' : 'far'} fa-heart"></i>
+        </button>`;
+}
+
+/**
+ * Generates the button that adds a workout or meditation to one of the user's playlists.
+ */
+export function generatePlaylistAddButton(kind: state.PlaylistItem['kind'], id: number): string {
+    return `
+        <button class="playlist-add-btn" data-playlist-add-kind="${kind}" data-playlist-add-id="${id}" aria-label="Добавить в плейлист">
+            <i class="fas fa-list-ul"></i>
+        </button>`;
+}
+
+function handleFavoriteClick(button: HTMLElement) {
+    const kind = button.dataset.favoriteKind as state.FavoriteKind;
+    const id = Number(button.dataset.favoriteId);
+    const added = toggleFavorite(kind, id);
+    Array.from($$(`.favorite-btn[data-favorite-kind="${kind}"][data-favorite-id="${id}"]`)).forEach(btn => {
+        btn.outerHTML = generateFavoriteButton(kind, id);
+    });
+    showToast(added ? 'Добавлено в избранное' : 'Убрано из избранного');
+}
+
+// --- PLAYLISTS ---
+
+function getPlaylist(playlistId: string): state.Playlist | undefined {
+    return readStore(STORES.playlists).find(p => p.id === playlistId);
+}
+
+function updatePlaylist(playlistId: string, updateFn: (playlist: state.Playlist) => state.Playlist) {
+    updateStore(STORES.playlists, playlists => playlists.map(p => p.id === playlistId ? updateFn(p) : p));
+}
+
+export function createPlaylist(title: string, items: state.PlaylistItem[] = []): state.Playlist {
+    const playlist: state.Playlist = {
+        id: `playlist-${Date.now()}`,
+        title,
+        items,
+        createdAt: new Date().toISOString().split('T')[0]
+    };
+    updateStore(STORES.playlists, playlists => [...playlists, playlist]);
+    return playlist;
+}
+
+/**
+ * Appends an item to a playlist. The same item may appear more than once.
+ * @returns False if the playlist is full.
+ */
+export function addToPlaylist(playlistId: string, item: state.PlaylistItem): boolean {
+    if ((getPlaylist(playlistId)?.items.length ?? 0) >= MAX_PLAYLIST_ITEMS) return false;
+    updatePlaylist(playlistId, p => ({ ...p, items: [...p.items, item] }));
+    return true;
+}
+
+/**
+ * Moves an item up (offset -1) or down (offset 1) in the playing order.
+ */
+export function movePlaylistItem(playlistId: string, index: number, offset: number) {
+    updatePlaylist(playlistId, p => {
+        const target = index + offset;
+        if (target < 0 || target >= p.items.length) return p;
+        const items = [...p.items];
+        [items[index], items[target]] = [items[target], items[index]];
+        return { ...p, items };
+    });
+}
+
+export function removePlaylistItem(playlistId: string, index: number) {
+    updatePlaylist(playlistId, p => ({ ...p, items: p.items.filter((_, i) => i !== index) }));
+}
+
+export function deletePlaylist(playlistId: string) {
+    updateStore(STORES.playlists, playlists => playlists.filter(p => p.id !== playlistId));
+}
+
+function openModal(modal: HTMLElement) {
+    modal.style.display = 'flex';
+    setTimeout(() => modal.classList.add('show'), 10);
+}
+
+/**
+ * Renders the list of the user's playlists to add the picked item to, plus a field to start a new one.
+ */
+function renderPlaylistPicker() {
+    const content = $('#playlist-picker-content');
+    if (!content) return;
+    const playlists = readStore(STORES.playlists);
+    content.innerHTML = `
+        <h3>Добавить в плейлист</h3>
+        ${playlists.length > 0 ? `
+        <div class="playlist-picker-list">
+            ${playlists.map(p => `
+                <button class="playlist-picker-item" data-playlist-action="add-to" data-playlist-id="${p.id}">
+                    <span>${escapeHtml(p.title)}</span><small>${p.items.length}</small>
+                </button>`).join('')}
+        </div>` : '<p class="settings-hint">У вас пока нет плейлистов. Создайте первый:</p>'}
+        <form class="playlist-new-form" data-playlist-form="create-with-item">
+            <input type="text" class="form-input" name="title" maxlength="60" placeholder="Например, «Утренняя рутина»" required>
+            <button type="submit" class="btn">Создать</button>
+        </form>
+    `;
+}
+
+function openPlaylistPicker(item: state.PlaylistItem) {
+    const modal = $('#playlist-picker-modal');
+    if (!modal) return;
+    pickerItem = item;
+    renderPlaylistPicker();
+    openModal(modal);
+}
+
+function generateEntryMeta(entry: PlayerEntry): string {
+    return `${entry.kind === 'workout' ? 'Тренировка' : 'Медитация'} · ${entry.duration} мин`;
+}
+
+/**
+ * Renders the playlist editor: its title, the items in playing order with reorder and remove buttons.
+ */
+async function renderPlaylistEditor() {
+    const content = $('#playlist-content');
+    const playlist = editingPlaylistId ? getPlaylist(editingPlaylistId) : undefined;
+    if (!content || !playlist) return;
+    const catalog = await loadCatalog();
+    const entries = playlist.items.map(item => resolveItem(item, catalog));
+    const totalMinutes = entries.reduce((sum, e) => sum + (e?.duration ?? 0), 0);
+
+    content.innerHTML = `
+        <input type="text" class="form-input playlist-title-input" data-playlist-field="title" value="${escapeHtml(playlist.title)}" maxlength="60" aria-label="Название плейлиста">
+        <p class="playlist-summary">${playlist.items.length} · ${totalMinutes} мин</p>
+        ${playlist.items.length > 0 ? `
+        <ol class="playlist-items">
+            ${entries.map((entry, index) => `
+                <li class="playlist-entry">
+                    <i class="${FAVORITE_KINDS[playlist.items[index].kind].icon}"></i>
+                    <div class="playlist-entry-info">
+                        <span>${entry?.title ?? 'Больше недоступно'}</span>
+                        ${entry ? `<small>${generateEntryMeta(entry)}</small>` : ''}
+                    </div>
+                    <button class="builder-icon-btn" data-playlist-action="move-up" data-index="${index}" ${index === 0 ? 'disabled' : ''} aria-label="Выше"><i class="fas fa-arrow-up"></i></button>
+                    <button class="builder-icon-btn" data-playlist-action="move-down" data-index="${index}" ${index === entries.length - 1 ? 'disabled' : ''} aria-label="Ниже"><i class="fas fa-arrow-down"></i></button>
+                    <button class="builder-icon-btn" data-playlist-action="remove-item" data-index="${index}" aria-label="Убрать"><i class="fas fa-times"></i></button>
+                </li>`).join('')}
+        </ol>` : '<p class="settings-hint">Плейлист пуст. Добавляйте тренировки и медитации кнопкой <i class="fas fa-list-ul"></i> на их страницах.</p>'}
+        <div class="playlist-editor-actions">
+            <button class="btn" data-playlist-action="play" data-playlist-id="${playlist.id}" ${playlist.items.length === 0 ? 'disabled' : ''}><i class="fas fa-play"></i> Слушать и заниматься</button>
+            <button class="btn btn-outline" data-playlist-action="delete"><i class="fas fa-trash"></i> Удалить плейлист</button>
+        </div>
+    `;
+}
+
+function openPlaylistEditor(playlistId: string) {
+    const modal = $('#playlist-modal');
+    if (!modal) return;
+    editingPlaylistId = playlistId;
+    renderPlaylistEditor();
+    openModal(modal);
+}
+
+// --- PLAYER ---
+
+function generatePlayerMedia(entry: PlayerEntry): string {
+    if (entry.kind === 'meditation') {
+        return `<audio src="${entry.mediaUrl}" controls autoplay></audio>`;
+    }
+    if (entry.mediaUrl.endsWith('.mp4')) {
+        return `<video src="${entry.mediaUrl}" controls autoplay playsinline></video>`;
+    }
+    if (entry.mediaUrl.includes('youtube.com')) {
+        const videoId = new URL(entry.mediaUrl).searchParams.get('v');
+        return `<iframe src="https://www.youtube.com/embed/${videoId}?autoplay=1" frameborder="0" allow="autoplay; encrypted-media; picture-in-picture" allowfullscreen></iframe>`;
+    }
+    return `<div class="video-placeholder"><i class="fas fa-video-slash"></i><p>Формат видео не поддерживается</p></div>`;
+}
+
+/**
+ * Renders the current item of the player. Audio and video files move on to the next item by themselves
+ * when they end; embedded videos don't report that, so those wait for "Дальше".
+ */
+function renderPlayer() {
+    const content = $('#playlist-player-content');
+    if (!content || !player) return;
+    const { title, entries, index } = player;
+
+    if (index >= entries.length) {
+        content.innerHTML = `
+            <div class="playlist-player-done">
+                <i class="fas fa-check-circle"></i>
+                <h3>«${escapeHtml(title)}» пройден!</h3>
+                <p>Пусть Аллах примет ваши старания.</p>
+                <button class="btn" data-player-action="close">Закрыть</button>
+            </div>`;
+        return;
+    }
+
+    const entry = entries[index];
+    const media = generatePlayerMedia(entry);
+    const autoAdvances = media.startsWith('<audio') || media.startsWith('<video');
+    content.innerHTML = `
+        <div class="playlist-player-header">
+            <span><i class="fas fa-list-ul"></i> ${escapeHtml(title)}</span>
+            <span>${index + 1} из ${entries.length}</span>
+        </div>
+        <h3>${entry.title}</h3>
+        <p class="playlist-summary">${generateEntryMeta(entry)}</p>
+        <div class="playlist-player-media">${media}</div>
+        ${autoAdvances ? '' : '<p class="settings-hint">Когда закончите, нажмите «Дальше».</p>'}
+        <div class="playlist-player-controls">
+            <button class="btn btn-outline" data-player-action="prev" ${index === 0 ? 'disabled' : ''} aria-label="Назад"><i class="fas fa-step-backward"></i></button>
+            <button class="btn" data-player-action="next">${index === entries.length - 1 ? 'Завершить' : 'Дальше'} <i class="fas fa-step-forward"></i></button>
+            <button class="btn btn-outline" data-player-action="close" aria-label="Закрыть"><i class="fas fa-times"></i></button>
+        </div>
+        ${index < entries.length - 1 ? `
+        <h4>Далее</h4>
+        <ol class="playlist-up-next" start="${index + 2}">
+            ${entries.slice(index + 1).map(e => `<li>${e.title} <small>${e.duration} мин</small></li>`).join('')}
+        </ol>` : ''}
+    `;
+
+    const mediaEl = content.querySelector<HTMLMediaElement>('audio, video');
+    if (!mediaEl) return;
+    if (entry.kind === 'meditation') trackListening(mediaEl, entry.id);
+    mediaEl.addEventListener('ended', () => {
+        // The user may have skipped ahead in the meantime.
+        if (player && player.entries[player.index] === entry) showPlayerItem(player.index + 1);
+    });
+}
+
+function showPlayerItem(index: number) {
+    if (!player) return;
+    stopPlayerMedia();
+    player.index = Math.max(0, Math.min(index, player.entries.length));
+    renderPlayer();
+}
+
+/**
+ * Pauses the current item before it is replaced, so the time listened so far is logged.
+ */
+function stopPlayerMedia() {
+    $<HTMLMediaElement>('#playlist-player-content audio, #playlist-player-content video')?.pause();
+}
+
+function closePlayer() {
+    stopPlayerMedia();
+    player = null;
+    const content = $('#playlist-player-content');
+    if (content) content.innerHTML = '';
+    closeModal();
+}
+
+/**
+ * Opens the playlist player and starts with the first item. Items no longer in the catalog are skipped.
+ * @param title Shown above the player; defaults to the first item's title.
+ */
+export async function playItems(items: state.PlaylistItem[], title?: string) {
+    const modal = $('#playlist-player-modal');
+    if (!modal) return;
+    const catalog = await loadCatalog();
+    const entries = items.map(item => resolveItem(item, catalog)).filter((e): e is PlayerEntry => e !== null);
+    if (entries.length === 0) {
+        showToast('В плейлисте пока нечего воспроизвести.');
+        return;
+    }
+    player = { title: title ?? entries[0].title, entries, index: 0 };
+    renderPlayer();
+    openModal(modal);
+}
+
+// --- HOME PAGE SECTION ---
+
+function generateFavoriteItem(kind: state.FavoriteKind, id: number, catalog: Catalog): string {
+    let title: string;
+    let meta: string;
+    if (kind === 'recipe') {
+        const recipe = catalog.recipes.find(r => r.id === id);
+        if (!recipe) return '';
+        title = recipe.name;
+        meta = recipe.category;
+    } else {
+        const entry = resolveItem({ kind, id }, catalog);
+        if (!entry) return '';
+        title = entry.title;
+        meta = `${entry.duration} мин`;
+    }
+    return `
+        <div class="favorite-item">
+            <button class="favorite-item-open" data-favorite-open-kind="${kind}" data-favorite-open-id="${id}">
+                <i class="${kind === 'recipe' ? 'fas fa-book-open' : 'fas fa-play'}"></i>
+                <span>${title}<small>${meta}</small></span>
+            </button>
+            ${kind !== 'recipe' ? generatePlaylistAddButton(kind, id) : ''}
+            ${generateFavoriteButton(kind, id)}
+        </div>`;
+}
+
+/**
+ * Renders the home page card with the user's favorites, grouped by kind, and their playlists.
+ */
+export async function renderFavorites() {
+    const container = $('#favorites-container');
+    if (!container) return;
+    const favorites = readStore(STORES.favorites);
+    const playlists = readStore(STORES.playlists);
+    const catalog = await loadCatalog();
+
+    const groups = (Object.keys(FAVORITE_KINDS) as state.FavoriteKind[])
+        .map(kind => ({ kind, html: favorites[kind].map(id => generateFavoriteItem(kind, id, catalog)).join('') }))
+        .filter(group => group.html);
+
+    container.innerHTML = `
+        <div class="card favorites-card">
+            <h3><i class="fas fa-heart"></i> Избранное</h3>
+            ${groups.length > 0
+                ? groups.map(g => `<h4><i class="${FAVORITE_KINDS[g.kind].icon}"></i> ${FAVORITE_KINDS[g.kind].title}</h4>${g.html}`).join('')
+                : '<p class="settings-hint">Отмечайте сердечком <i class="far fa-heart"></i> тренировки, медитации и рецепты, чтобы они были под рукой.</p>'}
+            <div class="playlists-header">
+                <h4><i class="fas fa-list-ul"></i> Мои плейлисты</h4>
+                <button class="btn btn-outline" data-playlist-action="create"><i class="fas fa-plus"></i> Новый</button>
+            </div>
+            ${playlists.length > 0 ? playlists.map(p => `
+                <div class="favorite-item">
+                    <button class="favorite-item-open" data-playlist-action="edit" data-playlist-id="${p.id}">
+                        <i class="fas fa-list-ol"></i>
+                        <span>${escapeHtml(p.title)}<small>${p.items.length} · ${p.items.reduce((sum, item) => sum + (resolveItem(item, catalog)?.duration ?? 0), 0)} мин</small></span>
+                    </button>
+                    <button class="playlist-add-btn" data-playlist-action="play" data-playlist-id="${p.id}" ${p.items.length === 0 ? 'disabled' : ''} aria-label="Воспроизвести"><i class="fas fa-play"></i></button>
+                </div>`).join('')
+            : '<p class="settings-hint">Соберите свою последовательность, например утреннюю растяжку и зикр, и проходите её одним нажатием.</p>'}
+        </div>
+    `;
+}
+
+// --- EVENT HANDLING ---
+
+function handlePlaylistAction(button: HTMLElement) {
+    const playlistId = button.dataset.playlistId ?? editingPlaylistId ?? '';
+    const index = Number(button.dataset.index);
+    switch (button.dataset.playlistAction) {
+        case 'create': {
+            const playlist = createPlaylist('Новый плейлист');
+            openPlaylistEditor(playlist.id);
+            break;
+        }
+        case 'edit':
+            openPlaylistEditor(playlistId);
+            break;
+        case 'play': {
+            const playlist = getPlaylist(playlistId);
+            if (!playlist) return;
+            // Playing from the editor replaces it with the player.
+            if ($('#playlist-modal.show')) closeModal();
+            playItems(playlist.items, playlist.title);
+            break;
+        }
+        case 'add-to': {
+            const playlist = getPlaylist(playlistId);
+            if (!pickerItem || !playlist) return;
+            if (!addToPlaylist(playlistId, pickerItem)) {
+                showToast(`В плейлисте может быть не больше ${MAX_PLAYLIST_ITEMS} элементов.`);
+                return;
+            }
+            showToast(`Добавлено в «${playlist.title}»`);
+            closeModal();
+            break;
+        }
+        case 'move-up':
+        case 'move-down':
+            movePlaylistItem(playlistId, index, button.dataset.playlistAction === 'move-up' ? -1 : 1);
+            renderPlaylistEditor();
+            break;
+        case 'remove-item':
+            removePlaylistItem(playlistId, index);
+            renderPlaylistEditor();
+            break;
+        case 'delete':
+            if (!confirm('Удалить этот плейлист? Сами тренировки и медитации останутся.')) return;
+            deletePlaylist(playlistId);
+            editingPlaylistId = null;
+            closeModal();
+            showToast('Плейлист удалён');
+            break;
+    }
+}
+
+function handlePlayerAction(button: HTMLElement) {
+    if (!player) return;
+    switch (button.dataset.playerAction) {
+        case 'prev':
+            showPlayerItem(player.index - 1);
+            break;
+        case 'next':
+            showPlayerItem(player.index + 1);
+            break;
+        case 'close':
+            closePlayer();
+            break;
+    }
+}
+
+function handleFavoriteOpen(button: HTMLElement) {
+    const kind = button.dataset.favoriteOpenKind as state.FavoriteKind;
+    const id = Number(button.dataset.favoriteOpenId);
+    if (kind === 'recipe') {
+        loadCatalog().then(({ recipes }) => {
+            const recipe = recipes.find(r => r.id === id);
+            if (recipe) showRecipeModal(recipe);
+        });
+        return;
+    }
+    playItems([{ kind, id }]);
+}
+
+/**
+ * Wires up favorite and playlist buttons anywhere in the app, the playlist modals and the player.
+ */
+export function setupFavorites() {
+    document.body.addEventListener('click', e => {
+        const target = e.target as HTMLElement;
+        const favoriteBtn = target.closest<HTMLElement>('.favorite-btn');
+        const addBtn = target.closest<HTMLElement>('[data-playlist-add-kind]');
+        const actionBtn = target.closest<HTMLElement>('[data-playlist-action]');
+        const playerBtn = target.closest<HTMLElement>('[data-player-action]');
+        const openBtn = target.closest<HTMLElement>('[data-favorite-open-kind]');
+
+        if (favoriteBtn) {
+            handleFavoriteClick(favoriteBtn);
+        } else if (addBtn) {
+            openPlaylistPicker({ kind: addBtn.dataset.playlistAddKind as state.PlaylistItem['kind'], id: Number(addBtn.dataset.playlistAddId) });
+        } else if (actionBtn) {
+            handlePlaylistAction(actionBtn);
+        } else if (playerBtn) {
+            handlePlayerAction(playerBtn);
+        } else if (openBtn) {
+            handleFavoriteOpen(openBtn);
+        }
+    });
+
+    document.body.addEventListener('submit', e => {
+        const form = (e.target as HTMLElement).closest<HTMLFormElement>('[data-playlist-form="create-with-item"]');
+        if (!form || !pickerItem) return;
+        e.preventDefault();
+        const title = (new FormData(form).get('title') as string ?? '').trim();
+        if (!title) return;
+        createPlaylist(title, [pickerItem]);
+        showToast(`Плейлист «${title}» создан`);
+        closeModal();
+    });
+
+    $('#playlist-modal')?.addEventListener('change', e => {
+        const field = (e.target as HTMLElement).closest<HTMLInputElement>('[data-playlist-field="title"]');
+        const title = field?.value.trim();
+        if (editingPlaylistId && title) updatePlaylist(editingPlaylistId, p => ({ ...p, title }));
+    });
+
+    // Keep the home page card current whatever changed the favorites or playlists, including a sync.
+    onStoreWrite(key => {
+        if (key === state.FAVORITES_KEY || key === state.PLAYLISTS_KEY) renderFavorites();
+    });
+}
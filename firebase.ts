@@ -11,3 +11,10 @@ export const firebaseConfig = {
   messagingSenderId: "650365218438",
   appId: "1:650365218438:web:cc632168f6695baf6a2b07"
 };
+
+// Local emulator ports used by `npm run emulators`. Open the app with `?emulator` to use them.
+export const firebaseEmulators = {
+  host: "localhost",
+  authPort: 9099,
+  firestorePort: 8080
+};
@@ -1,10 +1,11 @@
 // food.ts - Food, Nutrition, and Recipe Logic for AhavatFit
 
 import * as state from './state';
-import { $, $$, renderList, handleAsyncOperation } from './ui';
-import { checkAndUnlockAchievement } from './profile';
+import { $, $$, renderList, handleAsyncOperation, showToast } from './ui';
 import { getNutritionAnalysis } from './ai';
 import * as api from './api'; // Phase IV: Import the new API layer
+import { STORES, updateStore } from './storage';
+import { generateFavoriteButton } from './favorites';
 
 /**
  * Renders the main food page, fetching data if necessary.
@@ -65,16 +66,28 @@ export function showRecipeModal(recipe: state.Recipe) {
     const content = $('#recipe-detail-content');
     if(!modal || !content) return;
     content.innerHTML = `
-        <h3>${recipe.name}</h3>
+        <div class="recipe-title-row">
+            <h3>${recipe.name}</h3>
+            ${generateFavoriteButton('recipe', recipe.id)}
+        </div>
         <p class="recipe-category">${recipe.category}</p>
         <p class="recipe-description">${recipe.description}</p>
         <h4>Ингредиенты</h4><ul>${recipe.ingredients.map(i => `<li>${i}</li>`).join('')}</ul>
-        <h4>Инструкции</h4><ol>${recipe.instructions.map(i => `<li>${i}</li>`).join('')}</ol>`;
+        <h4>Инструкции</h4><ol>${recipe.instructions.map(i => `<li>${i}</li>`).join('')}</ol>
+        <button id="recipe-cooked-btn" class="btn"><i class="fas fa-utensils"></i> Приготовила</button>`;
     modal.style.display = 'flex';
+    setTimeout(() => modal.classList.add('show'), 10);
 
-    const viewedRecipesRaw = localStorage.getItem(state.VIEWED_RECIPES_KEY);
-    const viewedRecipes = viewedRecipesRaw ? new Set(JSON.parse(viewedRecipesRaw)) : new Set();
-    viewedRecipes.add(recipe.id);
-    localStorage.setItem(state.VIEWED_RECIPES_KEY, JSON.stringify(Array.from(viewedRecipes)));
-    checkAndUnlockAchievement('RECIPE_EXPLORER');
+    $('#recipe-cooked-btn')?.addEventListener('click', () => {
+        const todayStr = new Date().toISOString().split('T')[0];
+        let added = false;
+        updateStore(STORES.cookedRecipes, cooked => {
+            if (cooked.some(c => c.recipeId === recipe.id && c.date === todayStr)) return cooked;
+            added = true;
+            return [...cooked, { recipeId: recipe.id, date: todayStr }];
+        });
+        showToast(added ? 'Отмечено! Рецепт засчитан в ваши цели.' : 'Этот рецепт уже отмечен сегодня.');
+    });
+
+    updateStore(STORES.viewedRecipes, viewed => Array.from(new Set([...viewed, recipe.id])));
 }
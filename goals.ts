@@ -0,0 +1,211 @@
+// goals.ts - Personal Goals for AhavatFit
+//
+// The user can keep several goals at once: daily or weekly targets measured from the workout,
+// meditation, recipe and cycle logs, and body-weight targets to reach by a deadline. Progress and
+// the week-by-week history are always derived from the logs, so nothing goes stale.
+
+import * as state from './state';
+import { STORES, readStore, updateStore } from './storage';
+import { addDays, daysBetween } from './predictions';
+import { getLoggedWorkoutCalories } from './calories';
+import { getCompletedWorkouts, getMonday } from './progress';
+
+// --- DATA TYPES & CONSTANTS ---
+
+/** A goal as proposed, before it is saved. */
+export type GoalDraft = Pick<state.UserGoal, 'type' | 'target' | 'period' | 'deadline'>;
+
+export interface GoalTypeInfo {
+    label: string;
+    unit: string;
+    periods: state.GoalPeriod[];
+}
+
+export interface GoalProgress {
+    current: number;
+    target: number;
+    percent: number; // 0-100
+}
+
+export interface GoalWeek {
+    start: string; // Monday
+    value: number; // Total for weekly goals, days the target was met for daily goals
+    needed: number; // The weekly target, or the number of days counted
+    met: boolean;
+    inProgress: boolean; // The current week of an active goal, which can still be met
+}
+
+export const GOAL_TYPES: Record<state.GoalType, GoalTypeInfo> = {
+    workouts: { label: 'Тренировки', unit: 'тренировок', periods: state.GOAL_TYPE_PERIODS.workouts },
+    minutes: { label: 'Минуты тренировок', unit: 'мин', periods: state.GOAL_TYPE_PERIODS.minutes },
+    calories: { label: 'Сожжённые калории', unit: 'ккал', periods: state.GOAL_TYPE_PERIODS.calories },
+    meditationMinutes: { label: 'Минуты медитации', unit: 'мин', periods: state.GOAL_TYPE_PERIODS.meditationMinutes },
+    recipesCooked: { label: 'Приготовленные рецепты', unit: 'рецептов', periods: state.GOAL_TYPE_PERIODS.recipesCooked },
+    cycleLogDays: { label: 'Дни с записью о цикле', unit: 'дней', periods: state.GOAL_TYPE_PERIODS.cycleLogDays },
+    weight: { label: 'Вес', unit: 'кг', periods: state.GOAL_TYPE_PERIODS.weight }
+};
+
+export const GOAL_PERIODS: Record<state.GoalPeriod, string> = {
+    day: 'в день',
+    week: 'в неделю',
+    deadline: 'к дате'
+};
+
+const HISTORY_WEEKS = 12;
+
+// --- MEASUREMENT ---
+
+/**
+ * Sums a goal's measure over the days from `start` to `end`, inclusive.
+ */
+function measure(type: state.GoalType, start: string, end: string): number {
+    const inRange = (date: string) => date >= start && date <= end;
+    switch (type) {
+        case 'workouts':
+            return getCompletedWorkouts().filter(w => inRange(w.date)).length;
+        case 'minutes':
+            return getCompletedWorkouts().filter(w => inRange(w.date)).reduce((sum, w) => sum + w.duration, 0);
+        case 'calories':
+            return getCompletedWorkouts().filter(w => inRange(w.date)).reduce((sum, w) => sum + getLoggedWorkoutCalories(w), 0);
+        case 'meditationMinutes':
+            return readStore(STORES.meditationLog).filter(m => inRange(m.date)).reduce((sum, m) => sum + m.minutes, 0);
+        case 'recipesCooked':
+            return readStore(STORES.cookedRecipes).filter(c => inRange(c.date)).length;
+        case 'cycleLogDays':
+            return Object.keys(readStore(STORES.cycleLog)).filter(inRange).length;
+        case 'weight':
+            return readStore(STORES.userProfile)?.weight ?? 0;
+    }
+}
+
+// --- PUBLIC API ---
+
+export function getActiveGoals(): state.UserGoal[] {
+    return readStore(STORES.userGoals).filter(g => !g.archivedAt);
+}
+
+export function getArchivedGoals(): state.UserGoal[] {
+    return readStore(STORES.userGoals).filter(g => g.archivedAt);
+}
+
+/**
+ * Describes a goal in one line, e.g. "Тренировки: 3 тренировок в неделю" or "Вес 60 кг к 1 мар. 2027 г.".
+ */
+export function describeGoal(goal: state.UserGoal): string {
+    const info = GOAL_TYPES[goal.type];
+    if (goal.period === 'deadline') {
+        const deadline = goal.deadline ? new Date(goal.deadline).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
+        return `${info.label} ${goal.target} ${info.unit} к ${deadline}`;
+    }
+    return `${info.label}: ${goal.target} ${info.unit} ${GOAL_PERIODS[goal.period]}`;
+}
+
+/**
+ * Calculates progress toward a goal: today's total for daily goals, this week's for weekly goals,
+ * and the share of the way from the starting value to the target for deadline goals.
+ */
+export function getGoalProgress(goal: state.UserGoal, todayStr: string = new Date().toISOString().split('T')[0]): GoalProgress {
+    let current: number;
+    let percent: number;
+    if (goal.period === 'deadline') {
+        current = measure(goal.type, todayStr, todayStr);
+        const start = goal.startValue ?? current;
+        const distance = goal.target - start;
+        percent = distance === 0 ? 100 : ((current - start) / distance) * 100;
+    } else {
+        const start = goal.period === 'day' ? todayStr : getMonday(todayStr);
+        current = measure(goal.type, start, todayStr);
+        percent = goal.target > 0 ? (current / goal.target) * 100 : 0;
+    }
+    return { current, target: goal.target, percent: Math.max(0, Math.min(100, Math.round(percent))) };
+}
+
+/**
+ * Returns the average completion of all active goals, for the home page ring.
+ */
+export function getOverallGoalProgress(): number {
+    const goals = getActiveGoals();
+    if (goals.length === 0) return 0;
+    return Math.round(goals.reduce((sum, g) => sum + getGoalProgress(g).percent, 0) / goals.length);
+}
+
+/**
+ * Lists the weeks a daily or weekly goal was active (most recent first, at most 12) and whether
+ * each was met. A daily goal's week counts as met when its target was reached on every day counted.
+ * The current week of an active goal is marked in progress rather than missed.
+ * Deadline goals have no weekly history and return an empty list.
+ */
+export function getGoalHistory(goal: state.UserGoal, todayStr: string = new Date().toISOString().split('T')[0]): GoalWeek[] {
+    if (goal.period === 'deadline') return [];
+    const lastDay = goal.archivedAt && goal.archivedAt < todayStr ? goal.archivedAt : todayStr;
+    const weeks: GoalWeek[] = [];
+
+    for (let monday = getMonday(lastDay); monday >= getMonday(goal.createdAt) && weeks.length < HISTORY_WEEKS; monday = addDays(monday, -7)) {
+        const start = monday > goal.createdAt ? monday : goal.createdAt;
+        const end = addDays(monday, 6) < lastDay ? addDays(monday, 6) : lastDay;
+        const inProgress = !goal.archivedAt && addDays(monday, 6) >= todayStr;
+        if (goal.period === 'week') {
+            const value = measure(goal.type, start, end);
+            weeks.push({ start: monday, value, needed: goal.target, met: value >= goal.target, inProgress });
+        } else {
+            const days = daysBetween(start, end) + 1;
+            let value = 0;
+            for (let day = start; day <= end; day = addDays(day, 1)) {
+                if (measure(goal.type, day, day) >= goal.target) value++;
+            }
+            weeks.push({ start: monday, value, needed: days, met: value === days, inProgress });
+        }
+    }
+    return weeks;
+}
+
+/**
+ * Adds a goal. Deadline goals remember the current value so progress can be measured from it.
+ * @returns The saved goal.
+ */
+export function addGoal(goal: GoalDraft): state.UserGoal {
+    const todayStr = new Date().toISOString().split('T')[0];
+    const saved: state.UserGoal = {
+        ...goal,
+        id: `goal-${Date.now()}`,
+        createdAt: todayStr,
+        ...(goal.period === 'deadline' && { startValue: measure(goal.type, todayStr, todayStr) })
+    };
+    updateStore(STORES.userGoals, goals => [...goals, saved]);
+    return saved;
+}
+
+/**
+ * Moves a goal to the archive, keeping its history.
+ */
+export function archiveGoal(goalId: string) {
+    const todayStr = new Date().toISOString().split('T')[0];
+    updateStore(STORES.userGoals, goals => goals.map(g => g.id === goalId ? { ...g, archivedAt: todayStr } : g));
+}
+
+function isGoalType(type: unknown): type is state.GoalType {
+    return typeof type === 'string' && Object.prototype.hasOwnProperty.call(GOAL_TYPES, type);
+}
+
+/**
+ * Checks a goal proposed by the user or the AI and fills in a missing period. Weight goals need a
+ * deadline that hasn't passed and a weight in the profile to measure from.
+ * @returns The goal ready to add, or null if it can't be used.
+ */
+export function normalizeGoal(raw: unknown): GoalDraft | null {
+    const fields = typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+    const type = fields.type;
+    if (!isGoalType(type)) return null;
+    const info = GOAL_TYPES[type];
+    const target = Number(fields.target);
+    if (!Number.isFinite(target) || target <= 0) return null;
+
+    const requested = info.periods.find(p => p === fields.period);
+    const period = requested ?? info.periods[info.periods.length - 1];
+    if (period !== 'deadline') return { type, target, period };
+
+    const todayStr = new Date().toISOString().split('T')[0];
+    const deadline = typeof fields.deadline === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(fields.deadline) ? fields.deadline : null;
+    if (!deadline || deadline < todayStr || !readStore(STORES.userProfile)?.weight) return null;
+    return { type, target, period, deadline };
+}
@@ -1,90 +1,48 @@
 // home.ts - Home Page Logic for AhavatFit
 
 import * as state from './state';
-import { $ } from './ui';
-import { getCompletedWorkouts, calculateCurrentStreak, getWeekProgress, getGoalProgress } from './progress';
+import { $, escapeHtml } from './ui';
+import { getCompletedWorkouts, STREAK_FREEZE_EVERY, getStreakSummary } from './progress';
+import { describeGoal, getActiveGoals, getOverallGoalProgress } from './goals';
 import { generateTodaysPlanAI } from './ai';
-import { getCycleData, getDayPhase } from './cycle';
+import { getAllLogs, getCycleData, getDayPhase } from './cycle';
+import { forecastCycles } from './predictions';
 import { getWorkoutForToday } from './programs';
+import { recommendWorkout } from './workouts';
+import { getQadaSummary } from './qada';
+import { getOutstandingFasts } from './ramadan';
+import { CALCULATION_METHODS, PRAYER_NAMES, getPrayerTimes } from './prayertimes';
+import { STORES, readStore } from './storage';
+import { renderFavorites } from './favorites';
 
 /**
- * Fetches prayer times from an API and renders them. Caches results for the day.
- * @param container The HTML element to render the prayer times into.
- */
-async function fetchAndRenderPrayerTimes(container: HTMLElement) {
-    const today = new Date().toISOString().split('T')[0];
-    const cacheKey = `prayer_times_${today}`;
-    const cachedData = sessionStorage.getItem(cacheKey);
-
-    if (cachedData) {
-        renderPrayerTimes(JSON.parse(cachedData), container);
-        return;
-    }
-    
-    // Default city: Moscow. In a full app, this might use geolocation.
-    const url = `https://api.aladhan.com/v1/timingsByCity?city=Moscow&country=Russia&method=2`;
-    try {
-        const response = await fetch(url);
-        if (!response.ok) throw new Error('Failed to fetch prayer times');
-        const data = await response.json();
-        
-        if (data && data.data && data.data.timings) {
-            const prayerTimes = data.data.timings;
-            sessionStorage.setItem(cacheKey, JSON.stringify(prayerTimes));
-            renderPrayerTimes(prayerTimes, container);
-        } else {
-            throw new Error('Invalid data structure from prayer times API');
-        }
-    } catch (error) {
-        console.error("Error fetching prayer times:", error);
-        container.innerHTML = `<p style="text-align: center; font-size: 0.9rem; color: #888;">Не удалось загрузить время намазов.</p>`;
-    }
-}
-
-/**
- * Renders the prayer times and highlights the next upcoming one.
- * @param times A record of prayer names and their times (HH:MM).
+ * Calculates today's prayer times for the user's location and renders them, highlighting the next upcoming one.
  * @param container The HTML element to render into.
  */
-function renderPrayerTimes(times: Record<string, string>, container: HTMLElement) {
-    const prayersToShow = { Fajr: 'Фаджр', Dhuhr: 'Зухр', Asr: 'Аср', Maghrib: 'Магриб', Isha: 'Иша' };
-    
+function renderPrayerTimes(container: HTMLElement) {
+    const times = getPrayerTimes();
+    const { location, method } = readStore(STORES.prayerCalculation);
+
     const now = new Date();
     const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-    let nextPrayerFound = false;
-    
-    const prayerEntries = Object.entries(prayersToShow)
-        .map(([apiName, displayName]) => ({ apiName, displayName, time: times[apiName] }))
-        .filter(p => p.time) // Ensure time is available
-        .sort((a, b) => a.time.localeCompare(b.time));
 
-    let html = '';
-    for (const prayer of prayerEntries) {
-        let isCurrent = false;
-        if (!nextPrayerFound && prayer.time > currentTime) {
-            isCurrent = true;
-            nextPrayerFound = true;
-        }
-        html += `
-            <div class="prayer-time ${isCurrent ? 'current' : ''}">
-                <span class="name">${prayer.displayName}</span>
-                <span class="time">${prayer.time}</span>
-            </div>
-        `;
-    }
+    const prayerEntries = (Object.keys(PRAYER_NAMES) as state.PrayerName[])
+        .map(prayer => ({ prayer, displayName: PRAYER_NAMES[prayer], time: times[prayer] }));
 
     // If all prayers for today have passed, highlight the first prayer of the day (implying for tomorrow).
-    if (!nextPrayerFound && prayerEntries.length > 0) {
-        const firstPrayerApiName = prayerEntries[0].apiName;
-        html = prayerEntries.map(p => `
-            <div class="prayer-time ${p.apiName === firstPrayerApiName ? 'current' : ''}">
+    const nextPrayer = prayerEntries.find(p => p.time > currentTime) || prayerEntries[0];
+
+    container.innerHTML = `
+        ${prayerEntries.map(p => `
+            <div class="prayer-time ${p === nextPrayer ? 'current' : ''}">
                 <span class="name">${p.displayName}</span>
                 <span class="time">${p.time}</span>
             </div>
-        `).join('');
-    }
-
-    container.innerHTML = html;
+        `).join('')}
+        <a href="#" class="prayer-times-location quick-link" data-page="profile">
+            <i class="fas fa-location-dot"></i> ${location.name} · ${CALCULATION_METHODS[method].name}
+        </a>
+    `;
 }
 
 function getGreeting(): string {
@@ -125,25 +83,20 @@ export function renderHomePage(setState?: (newState: Partial<state.AppState>) =>
     const container = $('#home-page .page-content');
     if (!container) return;
 
-    let profile: state.UserProfile | null = null;
-    try {
-        const profileRaw = localStorage.getItem(state.USER_PROFILE_KEY);
-        profile = profileRaw ? JSON.parse(profileRaw) : null;
-    } catch (e) {
-        console.error("Failed to parse user profile from localStorage", e);
-        localStorage.removeItem(state.USER_PROFILE_KEY); // Clear corrupted data
-    }
-    const name = profile?.name ? `, ${profile.name}` : '';
+    const profile = readStore(STORES.userProfile);
+    const name = profile?.name ? `, ${escapeHtml(profile.name)}` : '';
 
     const completedWorkouts = getCompletedWorkouts();
-    const weekProgress = getWeekProgress(completedWorkouts);
+    const streak = getStreakSummary(completedWorkouts);
     const progress = {
         trainings: completedWorkouts.length,
-        streak: calculateCurrentStreak(completedWorkouts),
-        goalPercent: getGoalProgress(weekProgress)
+        streak: streak.current,
+        goalPercent: getOverallGoalProgress()
     };
     
     const greeting = getGreeting();
+    const qadaSummary = getQadaSummary();
+    const outstandingFasts = getOutstandingFasts();
     
     let progressSummaryHtml;
     if (completedWorkouts.length === 0) {
@@ -165,6 +118,10 @@ export function renderHomePage(setState?: (newState: Partial<state.AppState>) =>
                 <span class="label">дней подряд</span>
             </div>
             ${renderProgressRing(progress.goalPercent, "цель")}
+            <div class="streak-details">
+                <span><i class="fas fa-trophy"></i> Рекорд: ${streak.longest}</span>
+                <span title="Каждые ${STREAK_FREEZE_EVERY} дней тренировок дают заморозку, которая сохранит серию при пропуске"><i class="fas fa-snowflake"></i> Заморозки: ${streak.freezesAvailable}</span>
+            </div>
         </div>`;
     }
 
@@ -176,12 +133,23 @@ export function renderHomePage(setState?: (newState: Partial<state.AppState>) =>
              <div class="card skeleton" style="height: 220px;"></div>
         </div>
 
-        <div class="card prayer-times-card" id="prayer-times-container">
-            <div class="spinner" style="width:20px; height:20px; border-width: 3px; margin: 1rem auto;"></div>
-        </div>
+        <div class="card prayer-times-card" id="prayer-times-container"></div>
+
+        ${qadaSummary.total > 0 ? `
+        <a href="#" class="card worship-summary-card quick-link" data-page="qada">
+            <span><i class="fa-regular fa-calendar-check"></i> Каза-намазы к восполнению</span>
+            <span class="value">${qadaSummary.total}</span>
+        </a>` : ''}
+        ${outstandingFasts > 0 ? `
+        <a href="#" class="card worship-summary-card quick-link" data-page="ramadan">
+            <span><i class="fa-regular fa-moon"></i> Посты к восполнению</span>
+            <span class="value">${outstandingFasts}</span>
+        </a>` : ''}
 
         ${progressSummaryHtml}
 
+        <div id="favorites-container"></div>
+
         <div class="card dua-card">
             <h4><i class="fas fa-praying-hands"></i> Дуа для здоровья</h4>
             <p class="arabic">اللَّهُمَّ إِنِّي أَسْأَلُكَ الْعَافِيَةَ فِي الدُّنْيَا وَالآخِرَةِ</p>
@@ -190,12 +158,13 @@ export function renderHomePage(setState?: (newState: Partial<state.AppState>) =>
         </div>
     `;
     
-    // Fetch and render dynamic data in the background (fire and forget)
     const prayerContainer = $('#prayer-times-container');
     if (prayerContainer) {
-        fetchAndRenderPrayerTimes(prayerContainer);
+        renderPrayerTimes(prayerContainer);
     }
+    // Fetch and render dynamic data in the background (fire and forget)
     renderTodaysPlan();
+    renderFavorites();
     
     state.globalUIState.homePageInitialized = true;
 }
@@ -210,11 +179,12 @@ async function renderTodaysPlan() {
     try {
         // Gather all available context about the user
         const todayStr = new Date().toISOString().split('T')[0];
-        const allLogs = JSON.parse(localStorage.getItem(state.CYCLE_LOG_DATA_KEY) || '{}');
+        const allLogs = getAllLogs();
         const cycleData = getCycleData();
-        const phaseInfo = getDayPhase(todayStr, cycleData, allLogs);
-        const goal = JSON.parse(localStorage.getItem(state.USER_GOAL_KEY) || 'null');
-        const profile = JSON.parse(localStorage.getItem(state.USER_PROFILE_KEY) || 'null');
+        const forecast = forecastCycles(allLogs, cycleData, todayStr);
+        const phaseInfo = getDayPhase(todayStr, cycleData, allLogs, forecast);
+        const goals = getActiveGoals().map(describeGoal);
+        const profile = readStore(STORES.userProfile);
         
         // Phase VII additions: Get program and symptom context
         const todaysProgramWorkout = await getWorkoutForToday();
@@ -224,7 +194,8 @@ async function renderTodaysPlan() {
         const plan = await generateTodaysPlanAI({
             profile,
             phase: phaseInfo,
-            goal,
+            prediction: forecast,
+            goals,
             todaysProgramWorkout,
             cycleSymptoms
         });
@@ -257,11 +228,12 @@ async function renderTodaysPlan() {
         `;
     } catch(error) {
         console.error("Failed to render Today's Plan:", error);
-        // Fallback to a simpler, static card if AI fails
+        // Fallback to a simpler card recommending a workout for the user's goal and level if AI fails
+        const recommended = recommendWorkout(readStore(STORES.userProfile), state.appState.workouts);
         container.innerHTML = `
             <div class="card featured-workout-card breathing-element quick-link" data-page="workouts">
-                <h3><i class="fas fa-crown"></i> Комплексная тренировка</h3>
-                <p>Начните свой путь к здоровью с нашей популярной тренировки на все тело.</p>
+                <h3><i class="fas fa-crown"></i> ${recommended?.title ?? 'Комплексная тренировка'}</h3>
+                <p>${recommended?.description ?? 'Начните свой путь к здоровью с нашей популярной тренировки на все тело.'}</p>
             </div>`;
     }
 }
\ No newline at end of file
@@ -8,24 +8,30 @@ import { firebaseConfig } from './firebase';
 import * as api from './api';
 
 import * as state from './state';
-import { $, $$, applyTheme, closeModal, hideLoadingOverlay, initializeTheme, showLoadingOverlay, showToast, showShareSuccessModal } from './ui';
+import { $, $$, applyTheme, closeModal, hideLoadingOverlay, initializeTheme, showLoadingOverlay, showToast } from './ui';
 
 import { renderAuthPage, setupAuthEventListeners } from './auth';
 import { checkAndShowOnboarding } from './onboarding';
 
 import { renderHomePage } from './home';
-import { renderWorkoutsPage, renderWorkoutList, renderVideoPlayer } from './workouts';
+import { openCompletionSheet, renderWorkoutsPage, renderVideoPlayer, setupWorkoutSession, updateWorkoutFilters } from './workouts';
 import { renderFoodPage, renderRecipeList, showRecipeModal } from './food';
 import { renderSerenityPage } from './serenity';
+import { setupFavorites } from './favorites';
 import { renderCommunityPage } from './community';
-import { renderCyclePage } from './cycle';
+import { applyPhaseColors, renderCyclePage } from './cycle';
 import { renderNutritionPage } from './nutrition';
-import { renderProgramsPage, showProgramDetailModal } from './programs';
+import { handleProgramAction, renderProgramsPage, showProgramDetailModal } from './programs';
+import { withCustomPrograms } from './programbuilder';
 import { renderProfilePage } from './profile';
 import { renderAdminPage } from './admin';
+import { renderQadaPage } from './qada';
+import { renderRamadanPage } from './ramadan';
 import { renderAICoachPage, setupAICoaches, addMessage, addGoalMessage, askAI, askGoalAI } from './ai';
-import { checkAndUnlockAchievement } from './profile';
 import { saveCycleLogEntry } from './cycle';
+import { connectEmulatorsIfRequested, startAutoSync, stopAutoSync, syncUserData } from './sync';
+import { handlePeriodEnd, handlePeriodStart, installFakeClockIfRequested, startNotificationScheduler, stopNotificationScheduler } from './notifications';
+import { STORES, readStore } from './storage';
 
 // --- SERVICE WORKER REGISTRATION ---
 // FIX: Reverted to a simpler, direct 'load' event listener for Service Worker registration.
@@ -52,7 +58,9 @@ document.addEventListener('DOMContentLoaded', () => {
     // FIX: Use v8 namespaced API for Firebase initialization. Added a check to prevent re-initialization.
     if (!firebase.apps.length) {
         firebase.initializeApp(firebaseConfig);
+        connectEmulatorsIfRequested();
     }
+    installFakeClockIfRequested();
     initializeTheme();
     setupAICoaches();
     setupGlobalEventListeners();
@@ -67,6 +75,8 @@ document.addEventListener('DOMContentLoaded', () => {
             if (appContainer) appContainer.style.display = 'block';
             await initializeAppForUser(user);
         } else {
+            stopAutoSync();
+            stopNotificationScheduler(true);
             if (authContainer) authContainer.style.display = 'block';
             if (appContainer) appContainer.style.display = 'none';
             renderAuthPage(authContainer as HTMLElement);
@@ -99,7 +109,7 @@ async function loadInitialAppData() {
         ]);
 
         // Populate the global state
-        setState({ workouts, recipes, programs });
+        setState({ workouts, recipes, programs: withCustomPrograms(programs) });
         console.log('Initial app data loaded successfully.');
 
     } catch (error) {
@@ -122,17 +132,21 @@ async function initializeAppForUser(user: firebase.User) {
         // 1. Pre-load all essential application data.
         await loadInitialAppData();
         
-        // 2. Hide the main data loading overlay before potentially showing the onboarding modal.
+        // 2. Merge this device's data with the user's cloud copy before anything reads it.
+        await syncOnLogin(user);
+        applyPhaseColors();
+
+        // 3. Hide the main data loading overlay before potentially showing the onboarding modal.
         hideLoadingOverlay();
 
-        // 3. Now, check for onboarding. If needed, a modal will appear over the app, not an overlay.
+        // 4. Now, check for onboarding. If needed, a modal will appear over the app, not an overlay.
+        //    Finishing it unlocks the onboarding achievement.
         await checkAndShowOnboarding();
-        
-        // 4. Achievement for completing onboarding.
-        checkAndUnlockAchievement('ONBOARDING_COMPLETE');
 
         // 5. Navigate to the home page. This function manages its own loading indicator.
         await navigateTo('home');
+        startAutoSync(user.uid, handleRemoteChanges);
+        startNotificationScheduler();
     } catch (error) {
          console.error("App initialization failed:", error);
          // Ensure the overlay is hidden in case of an error during data loading.
@@ -142,6 +156,44 @@ async function initializeAppForUser(user: firebase.User) {
 }
 
 
+/**
+ * Runs the initial cloud sync for the user. A failed sync (e.g. offline) must not block the app,
+ * since all data is still available locally and the next background sync will catch up.
+ */
+async function syncOnLogin(user: firebase.User) {
+    try {
+        const changedKeys = await syncUserData(user.uid);
+        if (changedKeys.includes(state.AI_CHAT_HISTORY_KEY)) {
+            reloadChatHistory();
+        }
+    } catch (error) {
+        console.error("Initial cloud sync failed:", error);
+        showToast("Не удалось синхронизировать данные. Работаем офлайн.");
+    }
+}
+
+function reloadChatHistory() {
+    state.globalUIState.aiChatHistory = readStore(STORES.aiChatHistory);
+    state.globalUIState.aiCoachPageInitialized = false;
+}
+
+/**
+ * Called when a background sync pulled newer data from another device.
+ * Marks all pages for re-rendering so they pick up the merged data on the next visit.
+ */
+function handleRemoteChanges(changedKeys: string[]) {
+    if (changedKeys.includes(state.AI_CHAT_HISTORY_KEY)) {
+        reloadChatHistory();
+    }
+    if (changedKeys.includes(state.PHASE_COLORS_KEY)) {
+        applyPhaseColors();
+    }
+    Object.values(pageInitializedFlags).forEach(flag => {
+        state.globalUIState[flag] = false;
+    });
+}
+
+
 // --- NAVIGATION ---
 
 const pageRenderers: { [key: string]: (setState?: (newState: Partial<state.AppState>) => void) => void | Promise<void> } = {
@@ -156,9 +208,11 @@ const pageRenderers: { [key: string]: (setState?: (newState: Partial<state.AppSt
     'profile': renderProfilePage,
     'ai-coach': renderAICoachPage,
     'admin': renderAdminPage,
+    'qada': renderQadaPage,
+    'ramadan': renderRamadanPage,
 };
 
-const pageInitializedFlags: { [key: string]: keyof typeof state.globalUIState } = {
+const pageInitializedFlags: { [key: string]: state.PageInitializedFlag } = {
     'home': 'homePageInitialized',
     'workouts': 'workoutsInitialized',
     'food': 'foodPageInitialized',
@@ -170,6 +224,8 @@ const pageInitializedFlags: { [key: string]: keyof typeof state.globalUIState }
     'profile': 'profilePageInitialized',
     'ai-coach': 'aiCoachPageInitialized',
     'admin': 'adminPageInitialized',
+    'qada': 'qadaPageInitialized',
+    'ramadan': 'ramadanPageInitialized',
 };
 
 async function navigateTo(pageId: string) {
@@ -224,7 +280,8 @@ function setupGlobalEventListeners() {
         if (target.matches('.modal-close-btn, .close-btn') || target.matches('.modal.show')) {
             const modal = target.closest<HTMLElement>('.modal.show');
             // Close if clicking on the backdrop (the modal element itself) or a close button
-            if (modal && (e.target === modal || target.closest<HTMLElement>('.modal-close-btn, .close-btn'))) {
+            // Static modals (e.g. a running workout session) close only through their own buttons
+            if (modal && !modal.classList.contains('modal-static') && (e.target === modal || target.closest<HTMLElement>('.modal-close-btn, .close-btn'))) {
                  closeModal();
             }
         }
@@ -260,11 +317,7 @@ function setupGlobalEventListeners() {
         if (filterChip) {
             $('#workout-filters .chip.active')?.classList.remove('active');
             filterChip.classList.add('active');
-            const category = filterChip.dataset.category;
-            const filteredWorkouts = category === 'all'
-                ? state.appState.workouts
-                : state.appState.workouts.filter(w => w.category === category);
-            renderWorkoutList(filteredWorkouts, $('#workouts-playlist') as HTMLElement);
+            updateWorkoutFilters({ category: filterChip.dataset.category || 'all' });
         }
 
         if (playlistItem) {
@@ -329,7 +382,6 @@ function setupGlobalEventListeners() {
             addMessage(prompt, 'user');
             input.value = '';
             askAI(prompt);
-            checkAndUnlockAchievement('AI_CHAT_START');
         }
     });
     
@@ -348,6 +400,11 @@ function setupGlobalEventListeners() {
     // Programs page
     $('#programs-page')?.addEventListener('click', (e) => {
         const target = e.target as HTMLElement;
+        const actionBtn = target.closest<HTMLElement>('[data-program-action]');
+        if (actionBtn) {
+            handleProgramAction(actionBtn);
+            return;
+        }
         const programCard = target.closest<HTMLElement>('.program-card');
         if (programCard && programCard.dataset.id) {
             showProgramDetailModal(programCard.dataset.id);
@@ -361,26 +418,10 @@ function setupGlobalEventListeners() {
 
         const workout = state.globalUIState.currentWorkout;
         if (!workout) return;
-        
-        button.disabled = true;
-        button.innerHTML = `<i class="fas fa-check"></i> Завершено!`;
-
-        const completedWorkoutsRaw = localStorage.getItem(state.COMPLETED_WORKOUTS_KEY);
-        const completedWorkouts: any[] = completedWorkoutsRaw ? JSON.parse(completedWorkoutsRaw) : [];
-        
-        if(completedWorkouts.length === 0) {
-            checkAndUnlockAchievement('FIRST_WORKOUT');
-        }
-
-        completedWorkouts.push({
-            workoutId: workout.id,
-            date: new Date().toISOString().split('T')[0],
-            duration: workout.duration,
-            calories: workout.calories,
-        });
-        localStorage.setItem(state.COMPLETED_WORKOUTS_KEY, JSON.stringify(completedWorkouts));
-        showShareSuccessModal(workout.title);
+        openCompletionSheet(workout);
     });
+    setupWorkoutSession();
+    setupFavorites();
 
     // Cycle Log Modal Form Submission
     $('#cycle-log-form')?.addEventListener('submit', (e) => {
@@ -398,6 +439,12 @@ function setupGlobalEventListeners() {
         saveCycleLogEntry(date, { period: periodValue, symptoms, mood, notes });
         showToast('Запись сохранена');
         closeModal();
+
+        // Pause or resume prayer reminders when today's period starts or ends.
+        if (date === new Date().toISOString().split('T')[0]) {
+            if (periodValue === 'start') handlePeriodStart();
+            if (periodValue === 'end') handlePeriodEnd();
+        }
         
         if(state.globalUIState.currentPage === 'cycle') {
             renderCyclePage();
@@ -0,0 +1,143 @@
+// notifications.test.ts - Drives the reminder scheduler on a fake clock and checks which reminders come due.
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScheduledReminder, buildPrayerReminders, buildReminderSchedule, createFakeClock } from './notifications';
+import { PrayerTimes } from './prayertimes';
+import { STORES, writeStore } from './storage';
+import * as state from './state';
+
+// --- TEST SETUP ---
+
+const storage = new Map<string, string>();
+(globalThis as any).localStorage = {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, String(value)); },
+    removeItem: (key: string) => { storage.delete(key); },
+};
+
+beforeEach(() => storage.clear());
+
+const PRAYER_TIMES: PrayerTimes = { fajr: '05:00', sunrise: '06:30', dhuhr: '12:30', asr: '15:45', maghrib: '18:10', isha: '19:40' };
+
+function prayerSettings(overrides: Partial<state.PrayerSettings['prayers']> = {}): state.PrayerSettings {
+    const on = { enabled: true, offset: 0 };
+    return { enabled: true, prayers: { fajr: on, dhuhr: on, asr: on, maghrib: on, isha: on, ...overrides } };
+}
+
+function dueAt(reminders: ScheduledReminder[], now: Date): string[] {
+    return reminders.filter(r => r.at <= now.getTime()).map(r => r.id);
+}
+
+// --- PRAYER REMINDERS ---
+
+test('a prayer reminder comes due at its time, not a minute earlier', () => {
+    const clock = createFakeClock(new Date(2026, 2, 20, 4, 50));
+    const reminders = buildPrayerReminders(clock.now(), prayerSettings(), PRAYER_TIMES);
+
+    for (let minute = 0; minute < 9; minute++) clock.tick!();
+    assert.deepEqual(dueAt(reminders, clock.now()), []);
+
+    clock.tick!();
+    assert.deepEqual(dueAt(reminders, clock.now()), ['prayer-fajr-2026-03-20']);
+});
+
+test('prayer reminders honour each prayer switch, the offsets and the master switch', () => {
+    const day = new Date(2026, 2, 20);
+    const settings = prayerSettings({ dhuhr: { enabled: false, offset: 0 }, asr: { enabled: true, offset: 15 } });
+    const reminders = buildPrayerReminders(day, settings, PRAYER_TIMES);
+
+    assert.deepEqual(reminders.map(r => r.id), ['prayer-fajr-2026-03-20', 'prayer-asr-2026-03-20', 'prayer-maghrib-2026-03-20', 'prayer-isha-2026-03-20']);
+    const asr = reminders.find(r => r.id === 'prayer-asr-2026-03-20')!;
+    assert.equal(asr.at, new Date(2026, 2, 20, 15, 30).getTime());
+    assert.equal(asr.title, 'Скоро намаз');
+
+    assert.deepEqual(buildPrayerReminders(day, { ...settings, enabled: false }, PRAYER_TIMES), []);
+});
+
+// --- FULL SCHEDULE ---
+
+test('the schedule skips prayers on logged period days but not on predicted ones', async () => {
+    writeStore(STORES.prayerSettings, prayerSettings());
+    // A period logged as started today is forecast to last several days; only today is logged.
+    writeStore(STORES.cycleLog, { '2026-03-20': { period: 'start', symptoms: [], mood: '' } });
+
+    const clock = createFakeClock(new Date(2026, 2, 20, 0, 30));
+    const schedule = await buildReminderSchedule(clock.now());
+    const prayerIds = schedule.map(r => r.id).filter(id => id.startsWith('prayer-'));
+
+    assert.equal(prayerIds.filter(id => id.endsWith('2026-03-20')).length, 0);
+    assert.equal(prayerIds.filter(id => id.endsWith('2026-03-21')).length, 5);
+});
+
+test('hydration reminders come due hour by hour as the clock advances', async () => {
+    writeStore(STORES.reminderSettings, {
+        workout: { enabled: false, time: '18:00' },
+        hydration: { enabled: true, intervalHours: 2, start: '09:00', end: '21:00' }
+    });
+
+    const clock = createFakeClock(new Date(2026, 2, 20, 8, 0), 60 * 60 * 1000);
+    const schedule = await buildReminderSchedule(clock.now());
+
+    assert.equal(schedule.length, 14); // 09:00 to 21:00 every two hours, today and tomorrow
+    assert.deepEqual(schedule.map(r => r.at), [...schedule.map(r => r.at)].sort((a, b) => a - b));
+    assert.deepEqual(dueAt(schedule, clock.now()), []);
+
+    clock.tick!();
+    assert.deepEqual(dueAt(schedule, clock.now()), ['hydration-2026-03-20-9']);
+
+    clock.tick!();
+    clock.tick!();
+    assert.deepEqual(dueAt(schedule, clock.now()), ['hydration-2026-03-20-9', 'hydration-2026-03-20-11']);
+});
+
+test('reminders more than half an hour late are dropped from a new schedule', async () => {
+    writeStore(STORES.prayerSettings, prayerSettings());
+    const now = new Date(2026, 2, 20, 23, 0);
+    const schedule = await buildReminderSchedule(now);
+
+    assert.ok(schedule.length > 0);
+    assert.ok(schedule.every(r => r.at > now.getTime() - 30 * 60 * 1000));
+    assert.ok(!schedule.some(r => r.id === 'prayer-isha-2026-03-20'));
+    assert.ok(schedule.some(r => r.id === 'prayer-fajr-2026-03-21'));
+});
+
+// --- WORKOUT REMINDERS ---
+
+const WORKOUT_REMINDERS: state.ReminderSettings = {
+    workout: { enabled: true, time: '18:00' },
+    hydration: { enabled: false, intervalHours: 2, start: '09:00', end: '21:00' }
+};
+
+test('prayer and workout reminders are still scheduled when the workout catalog cannot be loaded', async (t) => {
+    const today = new Date().toISOString().split('T')[0];
+    state.appState.programs = [{
+        id: 'p1', title: 'P', description: '', duration: 1,
+        schedule: [{ week: 1, days: [1, 2, 3, 4, 5, 6, 7].map(day => ({ day, workoutId: 1 })) }]
+    }];
+    t.after(() => { state.appState.programs = []; });
+    const fetch = t.mock.method(globalThis, 'fetch', () => Promise.reject(new Error('offline')));
+    t.mock.method(console, 'warn', () => {});
+    writeStore(STORES.activeProgram, { programId: 'p1', startDate: today });
+    writeStore(STORES.prayerSettings, prayerSettings());
+    writeStore(STORES.reminderSettings, WORKOUT_REMINDERS);
+
+    const now = new Date(2026, 2, 20, 0, 30);
+    const schedule = await buildReminderSchedule(now);
+
+    assert.equal(fetch.mock.callCount(), 1);
+    assert.equal(schedule.filter(r => r.id.startsWith('prayer-')).length, 10);
+    const workout = schedule.find(r => r.id === 'workout-2026-03-20');
+    assert.ok(workout);
+    assert.equal(workout.body, 'Уделите несколько минут движению — ваше тело скажет спасибо.');
+});
+
+test('a workout logged after local midnight skips that day\'s workout reminder', async () => {
+    writeStore(STORES.reminderSettings, WORKOUT_REMINDERS);
+    // Workouts are logged by local date, the same key the schedule uses for its days.
+    writeStore(STORES.completedWorkouts, [{ workoutId: 1, date: '2026-03-20', duration: 20, calories: 100 }]);
+
+    const schedule = await buildReminderSchedule(new Date(2026, 2, 20, 1, 30));
+
+    assert.deepEqual(schedule.map(r => r.id), ['workout-2026-03-21']);
+});
@@ -1,82 +1,315 @@
-// notifications.ts - Prayer Time Notification Scheduler
+// notifications.ts - Reminder Scheduler (prayer, workout and hydration reminders)
+//
+// The page builds the list of upcoming reminders and hands it to the service worker (sw.js),
+// which delivers them even when the app is in the background and remembers what it has sent.
 
 import * as state from './state';
 import { sendNotification } from './ui';
-import { getCycleData, getDayPhase } from './cycle';
+import { getAllLogs } from './cycle';
+import { getLoggedPeriodDays, toLocalDateStr } from './predictions';
+import { getCompletedWorkouts } from './progress';
+import { getWorkoutForToday } from './programs';
+import { STORES, readStore, updateStore } from './storage';
+import { PRAYER_NAMES, PrayerTimes, getPrayerTimes } from './prayertimes';
 
+// --- TYPES & CONSTANTS ---
+
+/**
+ * The scheduler's source of time. The real clock is used in the app; a fake one can be
+ * installed to drive the scheduler through a whole day quickly (see `?fakeClock` below).
+ */
+export interface SchedulerClock {
+    now(): Date;
+    /** Called after every scheduler tick. A fake clock advances itself here. */
+    tick?(): void;
+    /** How often the scheduler checks for due reminders, in milliseconds. */
+    intervalMs: number;
+}
+
+/**
+ * A reminder handed to the service worker. The id is stable for the same reminder on the same day,
+ * so re-sending the schedule never produces duplicates.
+ */
+export interface ScheduledReminder {
+    id: string;     // e.g. "prayer-fajr-2026-03-20"
+    at: number;     // Delivery time, epoch milliseconds
+    title: string;
+    body: string;
+}
+
+/**
+ * Periodic Background Sync isn't in the DOM typings yet; only Chromium exposes it.
+ */
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+    periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+}
+
+export const REMINDER_OFFSETS = [0, 5, 10, 15, 30];
+export const HYDRATION_INTERVALS = [1, 2, 3, 4];
+
+const SCHEDULE_DAYS = 2;                      // Today and tomorrow, so overnight reminders survive a closed app
+const LATE_DELIVERY_MS = 30 * 60 * 1000;      // Reminders more than 30 minutes late are dropped
+const SENT_RETENTION_MS = 3 * 24 * 3600 * 1000;
+const PERIODIC_SYNC_TAG = 'ahavatfit-reminders';
+
+const systemClock: SchedulerClock = { now: () => new Date(), intervalMs: 60000 };
+
+let clock: SchedulerClock = systemClock;
 let notificationIntervalId: number | null = null;
-const PRAYER_NAMES = {
-    fajr: 'Фаджр',
-    dhuhr: 'Зухр',
-    asr: 'Аср',
-    maghrib: 'Магриб',
-    isha: 'Иша'
-};
+let scheduledForDate: string | null = null;
+let fallbackQueue: ScheduledReminder[] = [];
+
+// --- FAKE CLOCK HARNESS ---
 
 /**
- * Starts the notification scheduler which checks every minute.
+ * Creates a simulated clock that starts at `start` and advances `stepMs` on every tick.
  */
-export function startNotificationScheduler() {
-    if (notificationIntervalId) {
-        clearInterval(notificationIntervalId);
-    }
-    const settingsRaw = localStorage.getItem(state.PRAYER_SETTINGS_KEY);
-    const settings = settingsRaw ? JSON.parse(settingsRaw) : { enabled: false };
+export function createFakeClock(start: Date, stepMs: number = 60000, intervalMs: number = 1000): SchedulerClock {
+    let current = start.getTime();
+    return {
+        now: () => new Date(current),
+        tick: () => { current += stepMs; },
+        intervalMs
+    };
+}
 
-    if (!settings.enabled) {
+/**
+ * Replaces the scheduler's clock. Pass nothing to go back to the real clock.
+ */
+export function setSchedulerClock(newClock: SchedulerClock = systemClock) {
+    clock = newClock;
+}
+
+/**
+ * Opening the app with `?fakeClock=2026-03-20T04:50` runs the scheduler on a simulated clock that
+ * starts at that local time and moves one minute per second, so a day of reminders can be checked
+ * by hand in about 24 minutes. The service worker is told the simulated time with every check.
+ * Automated checks drive `createFakeClock` directly (see notifications.test.ts).
+ */
+export function installFakeClockIfRequested() {
+    const start = new URLSearchParams(window.location.search).get('fakeClock');
+    if (!start) return;
+    const startDate = new Date(start);
+    if (isNaN(startDate.getTime())) {
+        console.warn(`Ignoring invalid fakeClock value '${start}'.`);
         return;
     }
+    setSchedulerClock(createFakeClock(startDate));
+}
+
+// --- SCHEDULE BUILDING ---
 
-    // Run once immediately, then schedule
-    checkAndSendNotifications();
-    notificationIntervalId = window.setInterval(checkAndSendNotifications, 60000); // Check every minute
+/**
+ * Returns the epoch time of an HH:MM time on the given local day.
+ */
+function atTimeOfDay(day: Date, time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes).getTime();
 }
 
 /**
- * Stops the notification scheduler.
+ * Builds the prayer reminders for one day, honouring each prayer's switch and offset.
  */
-export function stopNotificationScheduler() {
-    if (notificationIntervalId) {
-        clearInterval(notificationIntervalId);
-        notificationIntervalId = null;
+export function buildPrayerReminders(day: Date, settings: state.PrayerSettings, prayerTimes: PrayerTimes): ScheduledReminder[] {
+    if (!settings.enabled) return [];
+    const dateKey = toLocalDateStr(day);
+
+    return (Object.keys(PRAYER_NAMES) as state.PrayerName[])
+        .filter(prayer => settings.prayers[prayer].enabled && /^\d{2}:\d{2}$/.test(prayerTimes[prayer]))
+        .map(prayer => {
+            const { offset } = settings.prayers[prayer];
+            const name = PRAYER_NAMES[prayer];
+            return {
+                id: `prayer-${prayer}-${dateKey}`,
+                at: atTimeOfDay(day, prayerTimes[prayer]) - offset * 60000,
+                title: offset > 0 ? 'Скоро намаз' : 'Время намаза',
+                body: offset > 0
+                    ? `Через ${offset} мин. наступит время молитвы ${name} (${prayerTimes[prayer]}).`
+                    : `Наступило время молитвы ${name}.`
+            };
+        });
+}
+
+/**
+ * Builds hydration reminders every few hours within the user's waking window.
+ */
+function buildHydrationReminders(day: Date, hydration: state.ReminderSettings['hydration']): ScheduledReminder[] {
+    if (!hydration.enabled) return [];
+    const dateKey = toLocalDateStr(day);
+    const reminders: ScheduledReminder[] = [];
+    const end = atTimeOfDay(day, hydration.end);
+    for (let at = atTimeOfDay(day, hydration.start); at <= end; at += hydration.intervalHours * 3600 * 1000) {
+        reminders.push({
+            id: `hydration-${dateKey}-${new Date(at).getHours()}`,
+            at,
+            title: 'Время выпить воды',
+            body: 'Стакан воды поможет сохранить энергию и концентрацию.'
+        });
     }
+    return reminders;
 }
 
 /**
- * Checks if a prayer notification needs to be sent at the current time.
- * This function is the core of the scheduler interval.
+ * Builds every reminder due from now until the end of tomorrow. Prayer reminders are left out on logged
+ * period days only, since a wrong forecast must never silence prayers; the workout reminder is skipped
+ * once today's workout is done.
  */
-async function checkAndSendNotifications() {
-    const now = new Date();
-    const todayStr = now.toISOString().split('T')[0];
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
+export async function buildReminderSchedule(now: Date): Promise<ScheduledReminder[]> {
+    const prayerSettings = readStore(STORES.prayerSettings);
+    const reminderSettings = readStore(STORES.reminderSettings);
+    const periodDays = getLoggedPeriodDays(getAllLogs());
+    // Looking up today's program workout may need the network; without it the reminder uses the generic text.
+    const todaysWorkout = reminderSettings.workout.enabled
+        ? await getWorkoutForToday().catch(error => {
+            console.warn("Could not look up today's workout for the reminder:", error);
+            return null;
+        })
+        : null;
 
-    // 1. Check if user is currently menstruating
-    const allLogs = JSON.parse(localStorage.getItem(state.CYCLE_LOG_DATA_KEY) || '{}');
-    const cycleData = getCycleData();
-    const phaseInfo = getDayPhase(todayStr, cycleData, allLogs);
-    if (phaseInfo.phase === 'menstruation') {
-        return; // Do not send prayer notifications during menstruation
-    }
+    const reminders: ScheduledReminder[] = [];
+    for (let offset = 0; offset < SCHEDULE_DAYS; offset++) {
+        const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+        const dateKey = toLocalDateStr(day);
 
-    // 2. Get prayer settings
-    const settingsRaw = localStorage.getItem(state.PRAYER_SETTINGS_KEY);
-    if (!settingsRaw) return;
-    const settings = JSON.parse(settingsRaw);
-    if (!settings.enabled) return;
-
-    // 3. Check if a notification for this prayer time has already been sent today
-    const sentTodayRaw = sessionStorage.getItem(`sent_notifications_${todayStr}`);
-    const sentToday: string[] = sentTodayRaw ? JSON.parse(sentTodayRaw) : [];
-
-    // 4. Iterate through prayer times and send notification if it's time
-    for (const prayer of Object.keys(PRAYER_NAMES) as Array<keyof typeof PRAYER_NAMES>) {
-        if (settings[prayer] === currentTime && !sentToday.includes(prayer)) {
-            await sendNotification('Время намаза', `Наступило время молитвы ${PRAYER_NAMES[prayer]}.`);
-            sentToday.push(prayer);
-            sessionStorage.setItem(`sent_notifications_${todayStr}`, JSON.stringify(sentToday));
-            break; // Only send one notification per minute check
+        if (!periodDays.has(dateKey)) {
+            reminders.push(...buildPrayerReminders(day, prayerSettings, getPrayerTimes(day)));
         }
+
+        const workoutDone = getCompletedWorkouts().some(w => w.date.startsWith(dateKey));
+        if (reminderSettings.workout.enabled && !workoutDone) {
+            reminders.push({
+                id: `workout-${dateKey}`,
+                at: atTimeOfDay(day, reminderSettings.workout.time),
+                title: 'Время тренировки',
+                body: offset === 0 && todaysWorkout
+                    ? `Сегодня по плану: «${todaysWorkout.title}».`
+                    : 'Уделите несколько минут движению — ваше тело скажет спасибо.'
+            });
+        }
+
+        reminders.push(...buildHydrationReminders(day, reminderSettings.hydration));
+    }
+
+    return reminders.filter(r => r.at > now.getTime() - LATE_DELIVERY_MS).sort((a, b) => a.at - b.at);
+}
+
+// --- DELIVERY ---
+
+async function getServiceWorker(): Promise<ServiceWorker | null> {
+    if (!('serviceWorker' in navigator)) return null;
+    try {
+        const registration = await navigator.serviceWorker.ready;
+        return registration.active;
+    } catch (e) {
+        console.error("Service worker is not available for reminders:", e);
+        return null;
+    }
+}
+
+/**
+ * Asks the browser to wake the service worker periodically so reminders arrive while the app is closed.
+ * Only supported by some browsers (installed PWAs in Chromium); elsewhere reminders rely on notification
+ * triggers or on the app being open.
+ */
+async function registerPeriodicSync() {
+    if (!('serviceWorker' in navigator)) return;
+    try {
+        const registration: PeriodicSyncRegistration = await navigator.serviceWorker.ready;
+        if (!registration.periodicSync) return;
+        await registration.periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60 * 1000 });
+    } catch (e) {
+        console.warn("Periodic background sync is not available:", e);
+    }
+}
+
+/**
+ * Delivers due reminders from the page itself, for browsers without service workers.
+ * Sent reminder ids are kept in localStorage so a reload never repeats a notification.
+ */
+async function deliverDueRemindersInPage(now: number) {
+    const sent = { ...readStore(STORES.sentReminders) };
+    const due = fallbackQueue.filter(reminder => reminder.at <= now && !sent[reminder.id]);
+    due.forEach(reminder => { sent[reminder.id] = now; });
+    Object.keys(sent).forEach(id => { if (now - sent[id] > SENT_RETENTION_MS) delete sent[id]; });
+    // Marked as sent before delivering, so a reload during the permission prompt never repeats one.
+    updateStore(STORES.sentReminders, () => sent);
+    for (const reminder of due) {
+        if (now - reminder.at <= LATE_DELIVERY_MS) await sendNotification(reminder.title, reminder.body);
+    }
+}
+
+/**
+ * Rebuilds the reminder schedule and hands it to the service worker.
+ */
+export async function rescheduleReminders() {
+    const now = clock.now();
+    const reminders = await buildReminderSchedule(now);
+    scheduledForDate = toLocalDateStr(now);
+
+    const worker = await getServiceWorker();
+    if (worker) {
+        // A fake clock can't drive notification triggers, which fire on real time.
+        worker.postMessage({ type: 'SCHEDULE_REMINDERS', reminders, now: now.getTime(), useTriggers: clock === systemClock });
+    } else {
+        fallbackQueue = reminders;
+        await deliverDueRemindersInPage(now.getTime());
+    }
+}
+
+/**
+ * Lets the service worker deliver anything that has come due. While the app is open this runs every
+ * minute; in the background the service worker relies on triggers and periodic sync instead.
+ */
+async function checkDueReminders() {
+    const now = clock.now();
+
+    // A new day needs a new schedule (tomorrow's reminders, a fresh period check).
+    if (toLocalDateStr(now) !== scheduledForDate) {
+        await rescheduleReminders();
+        return;
+    }
+
+    const worker = await getServiceWorker();
+    if (worker) {
+        worker.postMessage({ type: 'CHECK_REMINDERS', now: now.getTime() });
+    } else {
+        await deliverDueRemindersInPage(now.getTime());
+    }
+}
+
+function handleVisibilityChange() {
+    if (document.visibilityState === 'visible') rescheduleReminders();
+}
+
+/**
+ * Starts the reminder scheduler: sends the current schedule to the service worker and keeps it fresh while the app is open.
+ */
+export function startNotificationScheduler() {
+    stopNotificationScheduler();
+    registerPeriodicSync();
+
+    const runTick = async () => {
+        await checkDueReminders();
+        clock.tick?.();
+    };
+
+    rescheduleReminders().then(() => clock.tick?.());
+    notificationIntervalId = window.setInterval(runTick, clock.intervalMs);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+}
+
+/**
+ * Stops the in-page scheduler. Reminders already handed to the service worker are cleared too.
+ */
+export function stopNotificationScheduler(clearScheduled: boolean = false) {
+    if (notificationIntervalId) {
+        clearInterval(notificationIntervalId);
+        notificationIntervalId = null;
+    }
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    if (clearScheduled) {
+        fallbackQueue = [];
+        getServiceWorker().then(worker => worker?.postMessage({ type: 'SCHEDULE_REMINDERS', reminders: [], now: Date.now(), useTriggers: true }));
     }
 }
 
@@ -85,9 +318,9 @@ async function checkAndSendNotifications() {
  * Handles logic for when a user marks the start of their period.
  */
 export async function handlePeriodStart() {
-    stopNotificationScheduler();
+    await rescheduleReminders(); // Drops prayer reminders for the period days
     await sendNotification(
-        'Духовное напоминание', 
+        'Духовное напоминание',
         'Сегодня день для размышлений и дуа. Уделите время чтению Корана или зикру.'
     );
 }
@@ -97,8 +330,9 @@ export async function handlePeriodStart() {
  */
 export async function handlePeriodEnd() {
     await sendNotification(
-        'Намаз возобновлен', 
+        'Намаз возобновлен',
         'Время для намаза вернулось! Начните с Фаджр и обновите свою духовную энергию.'
     );
-    startNotificationScheduler(); // Restart the scheduler immediately
+    // The logged end day is still a period day, so prayer reminders return from tomorrow on.
+    await rescheduleReminders();
 }
@@ -3,6 +3,7 @@
 import * as state from './state';
 import { $, showToast } from './ui';
 import { getNutritionAnalysis } from './ai';
+import { STORES, readStore, writeStore } from './storage';
 
 let mealLog: state.MealEntry[] = [];
 let isSubmitting = false;
@@ -43,15 +44,14 @@ export function renderNutritionPage(setState?: (newState: Partial<state.AppState
  * Loads the meal log from local storage.
  */
 function loadMealLog() {
-    const savedLog = localStorage.getItem(state.NUTRITION_LOG_KEY);
-    mealLog = savedLog ? JSON.parse(savedLog) : [];
+    mealLog = readStore(STORES.nutritionLog);
 }
 
 /**
  * Saves the meal log to local storage.
  */
 function saveMealLog() {
-    localStorage.setItem(state.NUTRITION_LOG_KEY, JSON.stringify(mealLog));
+    writeStore(STORES.nutritionLog, mealLog);
 }
 
 /**
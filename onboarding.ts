@@ -1,7 +1,55 @@
 // onboarding.ts - User Onboarding Logic for AhavatFit
 
 import * as state from './state';
-import { $, $$ } from './ui';
+import { $, escapeHtml, showToast } from './ui';
+import { STORES, readStore, updateStore, writeStore } from './storage';
+import { BODY_METRIC_RANGES } from './calories';
+import { PRESET_LOCATIONS, PrayerLocation, locateDevice } from './prayertimes';
+import { ensureNotificationPermission } from './profile';
+
+// --- DATA TYPES & CONSTANTS ---
+
+type OnboardingStepId = 'name' | 'goal' | 'level' | 'metrics' | 'cycle' | 'location' | 'notifications';
+
+interface OnboardingStep {
+    id: OnboardingStepId;
+    title: string;
+    subtitle: string;
+    optional: boolean;
+}
+
+/** Answers collected so far. Optional steps that were skipped leave their fields unset. */
+interface OnboardingAnswers {
+    name: string;
+    goal: state.UserProfile['goal'] | null;
+    level: state.UserProfile['level'] | null;
+    weight?: number;
+    height?: number;
+    age?: number;
+    lastPeriodStart?: string;
+    cycleLength?: number;
+    periodLength?: number;
+    location?: PrayerLocation;
+    notificationsEnabled: boolean;
+}
+
+const STEPS: OnboardingStep[] = [
+    { id: 'name', title: 'Добро пожаловать в AhavatFit!', subtitle: 'Как мы можем к вам обращаться?', optional: false },
+    { id: 'goal', title: 'Ваша цель', subtitle: 'Мы подберём тренировки и советы под неё.', optional: false },
+    { id: 'level', title: 'Уровень подготовки', subtitle: 'Это поможет выбрать подходящую нагрузку.', optional: false },
+    { id: 'metrics', title: 'Параметры тела', subtitle: 'Нужны только для точного расчёта калорий.', optional: true },
+    { id: 'cycle', title: 'Ваш цикл', subtitle: 'Так календарь и тренировки сразу будут учитывать ваш цикл.', optional: true },
+    { id: 'location', title: 'Время намазов', subtitle: 'Укажите город, чтобы рассчитать время молитв.', optional: true },
+    { id: 'notifications', title: 'Напоминания', subtitle: 'Мы можем напоминать о намазах и тренировках.', optional: true }
+];
+
+const CYCLE_LENGTH_RANGE = [20, 45];
+const PERIOD_LENGTH_RANGE = [2, 10];
+
+let currentStepIndex = 0;
+let answers: OnboardingAnswers;
+let onFinish: (() => void) | null = null;
+let listenersAttached = false;
 
 /**
  * Checks if onboarding is completed. If not, it shows the modal and returns a promise
@@ -10,7 +58,7 @@ import { $, $$ } from './ui';
  */
 export function checkAndShowOnboarding(): Promise<void> {
     return new Promise((resolve) => {
-        const onboardingCompleted = localStorage.getItem(state.ONBOARDING_COMPLETED_KEY);
+        const onboardingCompleted = readStore(STORES.onboardingCompleted);
         if (!onboardingCompleted) {
             renderOnboardingModal(resolve); // Pass the resolve function to be called on completion
         } else {
@@ -21,53 +69,290 @@ export function checkAndShowOnboarding(): Promise<void> {
 
 function renderOnboardingModal(onFinishCallback: () => void) {
     const modal = $('#onboarding-modal');
-    const step1 = $('#onboarding-step-1');
-    
-    if (modal && step1) {
-        // Hide all steps except the first one
-        $$('#onboarding-modal .onboarding-step').forEach(s => (s as HTMLElement).style.display = 'none');
-        step1.style.display = 'block';
+    const container = $('#onboarding-step');
+
+    if (modal && container) {
+        currentStepIndex = 0;
+        answers = { name: readStore(STORES.userProfile)?.name ?? '', goal: null, level: null, notificationsEnabled: false };
+        onFinish = onFinishCallback;
+        renderStep();
         modal.style.display = 'flex';
-        
-        setupOnboardingListeners(onFinishCallback);
+        setTimeout(() => modal.classList.add('show'), 10);
+
+        if (!listenersAttached) {
+            setupOnboardingListeners();
+            listenersAttached = true;
+        }
     } else {
         // If modal doesn't exist for some reason, resolve immediately to not block the app.
         onFinishCallback();
     }
 }
 
-function setupOnboardingListeners(onFinishCallback: () => void) {
-    const nextButton = $('#onboarding-step-1 .next-btn');
-    const nameInput = $<HTMLInputElement>('#onboarding-name');
-    
-    if (nextButton && nameInput) {
-        nextButton.addEventListener('click', () => {
-            const name = nameInput.value.trim();
-            if (name) {
-                finishOnboarding(name, onFinishCallback);
-            } else {
-                alert('Пожалуйста, введите ваше имя.');
-            }
-        }, { once: true }); // Use { once: true } if this setup is called multiple times
+// --- RENDERING ---
+
+function generateChoiceButtons(options: Record<string, string>, selected: string | null): string {
+    return `<div class="onboarding-choices">${Object.entries(options).map(([value, label]) => `
+        <button type="button" class="chip ${value === selected ? 'active' : ''}" data-value="${value}">${label}</button>
+    `).join('')}</div>`;
+}
+
+function generateNumberField(id: string, label: string, value: number | undefined, [min, max]: readonly number[], unit: string): string {
+    return `
+        <div class="form-group">
+            <label for="${id}">${label}, ${unit}</label>
+            <input type="number" id="${id}" class="form-input" min="${min}" max="${max}" value="${value ?? ''}">
+        </div>
+    `;
+}
+
+function generateStepBody(step: OnboardingStep): string {
+    switch (step.id) {
+        case 'name':
+            return `<input type="text" id="onboarding-name" placeholder="Введите ваше имя" class="form-input" value="${escapeHtml(answers.name)}">`;
+        case 'goal':
+            return generateChoiceButtons(state.PROFILE_GOALS, answers.goal);
+        case 'level':
+            return generateChoiceButtons(state.FITNESS_LEVELS, answers.level);
+        case 'metrics':
+            return generateNumberField('onboarding-weight', 'Вес', answers.weight, BODY_METRIC_RANGES.weight, 'кг')
+                + generateNumberField('onboarding-height', 'Рост', answers.height, BODY_METRIC_RANGES.height, 'см')
+                + generateNumberField('onboarding-age', 'Возраст', answers.age, BODY_METRIC_RANGES.age, 'лет');
+        case 'cycle': {
+            const today = new Date().toISOString().split('T')[0];
+            const defaults = readStore(STORES.cycleSettings);
+            return `
+                <div class="form-group">
+                    <label for="onboarding-period-start">Первый день последних месячных</label>
+                    <input type="date" id="onboarding-period-start" class="form-input" max="${today}" value="${answers.lastPeriodStart ?? ''}">
+                </div>
+                ${generateNumberField('onboarding-cycle-length', 'Длина цикла', answers.cycleLength ?? defaults.cycleLength, CYCLE_LENGTH_RANGE, 'дней')}
+                ${generateNumberField('onboarding-period-length', 'Длительность месячных', answers.periodLength ?? defaults.periodLength, PERIOD_LENGTH_RANGE, 'дней')}
+            `;
+        }
+        case 'location': {
+            const selected = answers.location ?? readStore(STORES.prayerCalculation).location;
+            const isPreset = PRESET_LOCATIONS.some(l => l.name === selected.name);
+            return `
+                <select id="onboarding-location" class="form-select">
+                    ${isPreset ? '' : `<option value="" selected>${escapeHtml(selected.name)}</option>`}
+                    ${PRESET_LOCATIONS.map((l, i) => `<option value="${i}" ${l.name === selected.name ? 'selected' : ''}>${l.name}</option>`).join('')}
+                </select>
+                <button type="button" id="onboarding-geolocate-btn" class="btn btn-outline"><i class="fas fa-location-crosshairs"></i> Определить автоматически</button>
+            `;
+        }
+        case 'notifications':
+            return answers.notificationsEnabled
+                ? `<p class="onboarding-done"><i class="fas fa-check-circle"></i> Уведомления включены</p>`
+                : `<button type="button" id="onboarding-notifications-btn" class="btn btn-outline"><i class="far fa-bell"></i> Включить уведомления</button>`;
+    }
+}
+
+function renderStep() {
+    const container = $('#onboarding-step');
+    if (!container) return;
+    const step = STEPS[currentStepIndex];
+    const isLast = currentStepIndex === STEPS.length - 1;
+
+    container.innerHTML = `
+        <div class="onboarding-progress">
+            ${STEPS.map((_, i) => `<span class="onboarding-dot ${i <= currentStepIndex ? 'active' : ''}"></span>`).join('')}
+        </div>
+        <h2>${step.title}</h2>
+        <p>${step.subtitle}</p>
+        <div class="onboarding-body">${generateStepBody(step)}</div>
+        <div class="onboarding-nav">
+            ${currentStepIndex > 0 ? `<button type="button" class="btn btn-outline" data-onboarding-action="back">Назад</button>` : ''}
+            <button type="button" class="btn next-btn" data-onboarding-action="next">${isLast ? 'Начать' : 'Далее'}</button>
+        </div>
+        ${step.optional && !isLast ? `<button type="button" class="onboarding-skip-btn" data-onboarding-action="skip">Пропустить</button>` : ''}
+    `;
+    container.querySelector<HTMLInputElement>('input')?.focus();
+}
+
+// --- VALIDATION & NAVIGATION ---
+
+function readNumber(id: string): number | undefined {
+    const value = $<HTMLInputElement>(`#${id}`)?.value.trim();
+    return value ? Number(value) : undefined;
+}
+
+function isInRange(value: number | undefined, [min, max]: readonly number[]): boolean {
+    return value === undefined || (!isNaN(value) && value >= min && value <= max);
+}
+
+/**
+ * Copies the current step's inputs into `answers` as they are, without checking them.
+ * Used when leaving a step, so nothing typed is lost on the way back.
+ */
+function readStepInputs(step: OnboardingStep) {
+    switch (step.id) {
+        case 'name':
+            answers.name = $<HTMLInputElement>('#onboarding-name')?.value.trim() ?? '';
+            break;
+        case 'metrics':
+            Object.assign(answers, {
+                weight: readNumber('onboarding-weight'),
+                height: readNumber('onboarding-height'),
+                age: readNumber('onboarding-age')
+            });
+            break;
+        case 'cycle':
+            Object.assign(answers, {
+                lastPeriodStart: $<HTMLInputElement>('#onboarding-period-start')?.value || undefined,
+                cycleLength: readNumber('onboarding-cycle-length'),
+                periodLength: readNumber('onboarding-period-length')
+            });
+            break;
+        case 'location': {
+            const index = $<HTMLSelectElement>('#onboarding-location')?.value;
+            if (index) answers.location = PRESET_LOCATIONS[Number(index)];
+            break;
+        }
     }
 }
 
-function finishOnboarding(name: string, onFinishCallback: () => void) {
-    // For now, we only have the name. Goal and level can be added later.
+/**
+ * Reads the current step's inputs into `answers` and checks them.
+ * @returns An error message if the input is invalid, or null.
+ */
+function collectStep(step: OnboardingStep): string | null {
+    readStepInputs(step);
+    switch (step.id) {
+        case 'name':
+            return answers.name ? null : 'Пожалуйста, введите ваше имя.';
+        case 'goal':
+            return answers.goal ? null : 'Выберите цель.';
+        case 'level':
+            return answers.level ? null : 'Выберите уровень подготовки.';
+        case 'metrics':
+            if (!isInRange(answers.weight, BODY_METRIC_RANGES.weight)) return 'Проверьте вес.';
+            if (!isInRange(answers.height, BODY_METRIC_RANGES.height)) return 'Проверьте рост.';
+            if (!isInRange(answers.age, BODY_METRIC_RANGES.age)) return 'Проверьте возраст.';
+            return null;
+        case 'cycle':
+            if (answers.lastPeriodStart && answers.lastPeriodStart > new Date().toISOString().split('T')[0]) return 'Дата не может быть в будущем.';
+            if (!isInRange(answers.cycleLength, CYCLE_LENGTH_RANGE)) return `Длина цикла — от ${CYCLE_LENGTH_RANGE[0]} до ${CYCLE_LENGTH_RANGE[1]} дней.`;
+            if (!isInRange(answers.periodLength, PERIOD_LENGTH_RANGE)) return `Длительность месячных — от ${PERIOD_LENGTH_RANGE[0]} до ${PERIOD_LENGTH_RANGE[1]} дней.`;
+            return null;
+        case 'location':
+        case 'notifications':
+            return null;
+    }
+}
+
+function clearStep(step: OnboardingStep) {
+    switch (step.id) {
+        case 'metrics': Object.assign(answers, { weight: undefined, height: undefined, age: undefined }); break;
+        case 'cycle': Object.assign(answers, { lastPeriodStart: undefined, cycleLength: undefined, periodLength: undefined }); break;
+        case 'location': answers.location = undefined; break;
+    }
+}
+
+function goToStep(index: number) {
+    if (index >= STEPS.length) {
+        finishOnboarding();
+        return;
+    }
+    currentStepIndex = Math.max(0, index);
+    renderStep();
+}
+
+function setupOnboardingListeners() {
+    const container = $('#onboarding-step');
+    container?.addEventListener('click', async e => {
+        const target = e.target as HTMLElement;
+        const step = STEPS[currentStepIndex];
+
+        const choice = target.closest<HTMLElement>('.onboarding-choices .chip');
+        if (choice?.dataset.value) {
+            if (step.id === 'goal') answers.goal = choice.dataset.value as state.UserProfile['goal'];
+            if (step.id === 'level') answers.level = choice.dataset.value as state.UserProfile['level'];
+            container.querySelectorAll('.onboarding-choices .chip').forEach(c => c.classList.toggle('active', c === choice));
+            return;
+        }
+
+        if (target.closest('#onboarding-geolocate-btn')) {
+            try {
+                answers.location = await locateDevice();
+                renderStep();
+            } catch (error) {
+                showToast((error as Error).message);
+            }
+            return;
+        }
+
+        if (target.closest('#onboarding-notifications-btn')) {
+            answers.notificationsEnabled = await ensureNotificationPermission();
+            renderStep();
+            return;
+        }
+
+        const action = target.closest<HTMLElement>('[data-onboarding-action]')?.dataset.onboardingAction;
+        if (action === 'back') {
+            readStepInputs(step);
+            goToStep(currentStepIndex - 1);
+        } else if (action === 'skip') {
+            clearStep(step);
+            goToStep(currentStepIndex + 1);
+        } else if (action === 'next') {
+            const error = collectStep(step);
+            if (error) {
+                showToast(error);
+                return;
+            }
+            goToStep(currentStepIndex + 1);
+        }
+    });
+
+    container?.addEventListener('keydown', e => {
+        if (e.key === 'Enter' && (e.target as HTMLElement).matches('input')) {
+            e.preventDefault();
+            container.querySelector<HTMLButtonElement>('[data-onboarding-action="next"]')?.click();
+        }
+    });
+}
+
+// --- SAVING ---
+
+function finishOnboarding() {
     const profile: state.UserProfile = {
-        name: name,
-        goal: 'maintain_fitness', // Default value
-        level: 'beginner'       // Default value
+        name: answers.name,
+        goal: answers.goal ?? 'maintain_fitness',
+        level: answers.level ?? 'beginner',
+        ...(answers.weight !== undefined && { weight: answers.weight }),
+        ...(answers.height !== undefined && { height: answers.height }),
+        ...(answers.age !== undefined && { age: answers.age })
     };
+    writeStore(STORES.userProfile, profile);
 
-    localStorage.setItem(state.USER_PROFILE_KEY, JSON.stringify(profile));
-    localStorage.setItem(state.ONBOARDING_COMPLETED_KEY, 'true');
+    if (answers.cycleLength !== undefined || answers.periodLength !== undefined) {
+        updateStore(STORES.cycleSettings, settings => ({
+            cycleLength: answers.cycleLength ?? settings.cycleLength,
+            periodLength: answers.periodLength ?? settings.periodLength
+        }));
+    }
+    if (answers.lastPeriodStart) {
+        const start = answers.lastPeriodStart;
+        const entry: state.CycleLogEntry = { ...(readStore(STORES.cycleLog)[start] ?? { symptoms: [], mood: '' }), period: 'start' };
+        updateStore(STORES.cycleLog, logs => ({ ...logs, [start]: entry }));
+    }
+    if (answers.location) {
+        const location = answers.location;
+        updateStore(STORES.prayerCalculation, settings => ({ ...settings, location }));
+    }
+    if (answers.notificationsEnabled) {
+        updateStore(STORES.prayerSettings, settings => ({ ...settings, enabled: true }));
+    }
+    writeStore(STORES.onboardingCompleted, true);
 
     const modal = $('#onboarding-modal');
     if (modal) {
+        modal.classList.remove('show');
         modal.style.display = 'none';
     }
-    
+
     // Resolve the promise to let the app continue.
-    onFinishCallback();
+    onFinish?.();
+    onFinish = null;
 }
@@ -0,0 +1,252 @@
+// prayertimes.ts - Offline Prayer Time Calculation for AhavatFit
+//
+// Computes prayer times from the sun's position for a location and date, following
+// the widely used PrayTimes.org formulas. Works without network access.
+
+import * as state from './state';
+import { STORES, readStore } from './storage';
+
+// --- DATA TYPES & CONSTANTS ---
+
+export type CalculationMethodId = 'mwl' | 'isna' | 'egypt' | 'makkah' | 'russia';
+export type AsrMethod = 'standard' | 'hanafi';
+export type HighLatitudeRule = 'none' | 'angleBased' | 'oneSeventh' | 'middleOfNight';
+
+export interface CalculationMethod {
+    name: string;
+    fajrAngle: number;
+    ishaAngle?: number;    // Sun depression angle for Isha...
+    ishaMinutes?: number;  // ...or a fixed interval after Maghrib
+}
+
+export interface PrayerLocation {
+    name: string;
+    latitude: number;
+    longitude: number;
+}
+
+export interface PrayerCalculationSettings {
+    method: CalculationMethodId;
+    asrMethod: AsrMethod;
+    highLatitudeRule: HighLatitudeRule;
+    location: PrayerLocation;
+}
+
+/** Prayer times and sunrise as local "HH:MM" strings, or "--:--" when the time doesn't occur. */
+export type PrayerTimes = Record<state.PrayerName | 'sunrise', string>;
+
+export const PRAYER_NAMES: Record<state.PrayerName, string> = {
+    fajr: 'Фаджр',
+    dhuhr: 'Зухр',
+    asr: 'Аср',
+    maghrib: 'Магриб',
+    isha: 'Иша'
+};
+
+export const CALCULATION_METHODS: Record<CalculationMethodId, CalculationMethod> = {
+    mwl: { name: 'Всемирная исламская лига', fajrAngle: 18, ishaAngle: 17 },
+    isna: { name: 'ISNA (Северная Америка)', fajrAngle: 15, ishaAngle: 15 },
+    egypt: { name: 'Египетское управление', fajrAngle: 19.5, ishaAngle: 17.5 },
+    makkah: { name: 'Умм аль-Кура (Мекка)', fajrAngle: 18.5, ishaMinutes: 90 },
+    russia: { name: 'Духовное управление мусульман России', fajrAngle: 16, ishaAngle: 15 }
+};
+
+export const ASR_METHODS: Record<AsrMethod, string> = {
+    standard: 'Стандартный (шафиитский, маликитский, ханбалитский)',
+    hanafi: 'Ханафитский'
+};
+
+export const HIGH_LATITUDE_RULES: Record<HighLatitudeRule, string> = {
+    angleBased: 'По углу (рекомендуется)',
+    oneSeventh: 'Одна седьмая ночи',
+    middleOfNight: 'Середина ночи',
+    none: 'Без поправки'
+};
+
+export const PRESET_LOCATIONS: PrayerLocation[] = [
+    { name: 'Москва', latitude: 55.7558, longitude: 37.6173 },
+    { name: 'Санкт-Петербург', latitude: 59.9343, longitude: 30.3351 },
+    { name: 'Казань', latitude: 55.7887, longitude: 49.1221 },
+    { name: 'Уфа', latitude: 54.7388, longitude: 55.9721 },
+    { name: 'Грозный', latitude: 43.3180, longitude: 45.6987 },
+    { name: 'Махачкала', latitude: 42.9849, longitude: 47.5047 },
+    { name: 'Нальчик', latitude: 43.4853, longitude: 43.6071 },
+    { name: 'Екатеринбург', latitude: 56.8389, longitude: 60.6057 },
+    { name: 'Новосибирск', latitude: 55.0084, longitude: 82.9357 },
+    { name: 'Ташкент', latitude: 41.2995, longitude: 69.2401 },
+    { name: 'Алматы', latitude: 43.2220, longitude: 76.8512 },
+    { name: 'Баку', latitude: 40.4093, longitude: 49.8671 },
+    { name: 'Стамбул', latitude: 41.0082, longitude: 28.9784 },
+    { name: 'Мекка', latitude: 21.3891, longitude: 39.8579 }
+];
+
+const SUNRISE_ANGLE = 0.833; // Sun's apparent radius plus atmospheric refraction
+const INVALID_TIME = '--:--';
+
+// --- MATH HELPERS (degrees) ---
+
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+const sin = (d: number) => Math.sin(dtr(d));
+const cos = (d: number) => Math.cos(dtr(d));
+const tan = (d: number) => Math.tan(dtr(d));
+const arcsin = (x: number) => rtd(Math.asin(x));
+const arccos = (x: number) => rtd(Math.acos(x));
+const arccot = (x: number) => rtd(Math.atan(1 / x));
+const arctan2 = (y: number, x: number) => rtd(Math.atan2(y, x));
+const fix = (a: number, b: number) => {
+    const r = a - b * Math.floor(a / b);
+    return r < 0 ? r + b : r;
+};
+const fixAngle = (a: number) => fix(a, 360);
+const fixHour = (h: number) => fix(h, 24);
+
+// --- ASTRONOMY ---
+
+function julianDate(year: number, month: number, day: number): number {
+    if (month <= 2) {
+        year -= 1;
+        month += 12;
+    }
+    const a = Math.floor(year / 100);
+    const b = 2 - a + Math.floor(a / 4);
+    return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+/**
+ * Returns the sun's declination and the equation of time for a Julian date.
+ */
+function sunPosition(jd: number): { declination: number; equation: number } {
+    const d = jd - 2451545.0;
+    const g = fixAngle(357.529 + 0.98560028 * d);
+    const q = fixAngle(280.459 + 0.98564736 * d);
+    const l = fixAngle(q + 1.915 * sin(g) + 0.020 * sin(2 * g));
+    const e = 23.439 - 0.00000036 * d;
+    const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+    return {
+        declination: arcsin(sin(e) * sin(l)),
+        equation: q / 15 - fixHour(ra)
+    };
+}
+
+/**
+ * Computes prayer times for one day in hours since local midnight (NaN when the sun never reaches the angle).
+ */
+function computeTimes(jd: number, settings: PrayerCalculationSettings): Record<state.PrayerName | 'sunrise' | 'sunset', number> {
+    const { latitude } = settings.location;
+    const method = CALCULATION_METHODS[settings.method];
+
+    const midDay = (dayFraction: number) => fixHour(12 - sunPosition(jd + dayFraction).equation);
+    const sunAngleTime = (angle: number, dayFraction: number, beforeNoon: boolean) => {
+        const { declination } = sunPosition(jd + dayFraction);
+        const noon = midDay(dayFraction);
+        const t = arccos((-sin(angle) - sin(declination) * sin(latitude)) / (cos(declination) * cos(latitude))) / 15;
+        return noon + (beforeNoon ? -t : t);
+    };
+    const asrTime = (shadowFactor: number, dayFraction: number) => {
+        const { declination } = sunPosition(jd + dayFraction);
+        const angle = -arccot(shadowFactor + tan(Math.abs(latitude - declination)));
+        return sunAngleTime(angle, dayFraction, false);
+    };
+
+    // Initial guesses (in hours) refine the sun position to roughly the right time of day.
+    const sunset = sunAngleTime(SUNRISE_ANGLE, 18 / 24, false);
+    const times = {
+        fajr: sunAngleTime(method.fajrAngle, 5 / 24, true),
+        sunrise: sunAngleTime(SUNRISE_ANGLE, 6 / 24, true),
+        dhuhr: midDay(12 / 24),
+        asr: asrTime(settings.asrMethod === 'hanafi' ? 2 : 1, 13 / 24),
+        sunset,
+        maghrib: sunset,
+        isha: method.ishaMinutes !== undefined
+            ? sunset + method.ishaMinutes / 60
+            : sunAngleTime(method.ishaAngle!, 18 / 24, false)
+    };
+
+    adjustHighLatitudes(times, settings.highLatitudeRule, method);
+    return times;
+}
+
+/**
+ * Near the poles in summer the sun may never get low enough for Fajr or Isha. These rules
+ * cap the time between sunset/sunrise and Isha/Fajr at a portion of the night instead.
+ */
+function adjustHighLatitudes(times: Record<state.PrayerName | 'sunrise' | 'sunset', number>, rule: HighLatitudeRule, method: CalculationMethod) {
+    if (rule === 'none') return;
+    const night = fixHour(times.sunrise - times.sunset);
+    const portion = (angle: number) => {
+        if (rule === 'oneSeventh') return night / 7;
+        if (rule === 'middleOfNight') return night / 2;
+        return (angle / 60) * night;
+    };
+
+    const fajrPortion = portion(method.fajrAngle);
+    if (isNaN(times.fajr) || fixHour(times.sunrise - times.fajr) > fajrPortion) {
+        times.fajr = times.sunrise - fajrPortion;
+    }
+    if (method.ishaAngle !== undefined) {
+        const ishaPortion = portion(method.ishaAngle);
+        if (isNaN(times.isha) || fixHour(times.isha - times.sunset) > ishaPortion) {
+            times.isha = times.sunset + ishaPortion;
+        }
+    }
+}
+
+function formatTime(hours: number): string {
+    if (isNaN(hours)) return INVALID_TIME;
+    const totalMinutes = Math.round(fixHour(hours) * 60) % (24 * 60);
+    return `${Math.floor(totalMinutes / 60).toString().padStart(2, '0')}:${(totalMinutes % 60).toString().padStart(2, '0')}`;
+}
+
+// --- PUBLIC API ---
+
+/**
+ * Calculates the prayer times for a date at a location.
+ * @param date The day to calculate; its time of day is ignored.
+ * @param settings The location and calculation conventions.
+ * @param utcOffset The offset of the displayed times from UTC in hours. Defaults to the device's time zone on that date.
+ */
+export function calculatePrayerTimes(date: Date, settings: PrayerCalculationSettings, utcOffset: number = -date.getTimezoneOffset() / 60): PrayerTimes {
+    const jd = julianDate(date.getFullYear(), date.getMonth() + 1, date.getDate()) - settings.location.longitude / (15 * 24);
+    const times = computeTimes(jd, settings);
+    const toLocal = (hours: number) => hours + utcOffset - settings.location.longitude / 15;
+
+    return {
+        fajr: formatTime(toLocal(times.fajr)),
+        sunrise: formatTime(toLocal(times.sunrise)),
+        dhuhr: formatTime(toLocal(times.dhuhr)),
+        asr: formatTime(toLocal(times.asr)),
+        maghrib: formatTime(toLocal(times.maghrib)),
+        isha: formatTime(toLocal(times.isha))
+    };
+}
+
+/**
+ * Calculates the prayer times for a date using the user's saved location and method.
+ */
+export function getPrayerTimes(date: Date = new Date()): PrayerTimes {
+    return calculatePrayerTimes(date, readStore(STORES.prayerCalculation));
+}
+
+/**
+ * Asks the device for its position and returns it as a prayer location.
+ * @throws If geolocation is unsupported or the user denies access.
+ */
+export function locateDevice(): Promise<PrayerLocation> {
+    return new Promise((resolve, reject) => {
+        if (!navigator.geolocation) {
+            reject(new Error('Ваше устройство не поддерживает геолокацию.'));
+            return;
+        }
+        navigator.geolocation.getCurrentPosition(
+            position => {
+                const { latitude, longitude } = position.coords;
+                resolve({ name: `Моё местоположение (${latitude.toFixed(2)}, ${longitude.toFixed(2)})`, latitude, longitude });
+            },
+            error => {
+                console.error("Geolocation failed:", error);
+                reject(new Error('Не удалось определить местоположение.'));
+            }
+        );
+    });
+}
@@ -0,0 +1,257 @@
+// predictions.ts - Predictive Cycle Engine for AhavatFit
+//
+// Derives cycle statistics from every logged period start and forecasts upcoming
+// periods and fertile windows. Pure functions only: callers pass in the logs.
+
+import type * as state from './state';
+import type { CycleData } from './cycle';
+
+// --- DATA TYPES & CONSTANTS ---
+
+export interface DateRange {
+    start: string; // YYYY-MM-DD
+    end: string;   // YYYY-MM-DD
+}
+
+export interface CycleStats {
+    cycleCount: number;          // Complete cycles used for the averages
+    averageCycleLength: number;
+    cycleLengthStdDev: number;
+    averagePeriodLength: number;
+    periodLengthStdDev: number;
+    shortestCycle: number | null;
+    longestCycle: number | null;
+    isIrregular: boolean;
+    lastPeriodStart: string | null;
+}
+
+export interface CyclePrediction {
+    periodStart: string;          // Most likely start date
+    periodStartRange: DateRange;  // Confidence range for the start date
+    periodEnd: string;
+    ovulationDay: string;
+    fertileWindow: DateRange;
+    fertileWindowRange: DateRange; // Fertile window widened by the start-date uncertainty
+}
+
+export interface CycleForecast {
+    stats: CycleStats;
+    confidence: 'low' | 'medium' | 'high';
+    daysLate: number;             // > 0 when the expected period hasn't been logged yet
+    cycles: CyclePrediction[];
+}
+
+type AllCycleLogs = { [dateKey: string]: state.CycleLogEntry };
+
+// Cycles outside this range almost always mean a missed log, so they are left out of the averages.
+const MIN_PLAUSIBLE_CYCLE = 15;
+const MAX_PLAUSIBLE_CYCLE = 60;
+const MAX_PERIOD_LENGTH = 12;
+const CYCLES_CONSIDERED = 12;   // Only recent cycles reflect the current pattern
+const LUTEAL_PHASE_LENGTH = 14; // Ovulation happens ~14 days before the next period
+const FERTILE_DAYS_BEFORE_OVULATION = 5;
+const FERTILE_DAYS_AFTER_OVULATION = 1;
+const DEFAULT_UNCERTAINTY_DAYS = 3;
+
+// --- DATE HELPERS ---
+
+function parseDateKey(dateStr: string): Date {
+    return new Date(dateStr + 'T00:00:00Z');
+}
+
+/**
+ * Returns the YYYY-MM-DD date `days` days after `dateStr`.
+ */
+export function addDays(dateStr: string, days: number): string {
+    const date = parseDateKey(dateStr);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+}
+
+/**
+ * Returns the YYYY-MM-DD date of a moment in the device's time zone.
+ */
+export function toLocalDateStr(date: Date): string {
+    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+}
+
+/**
+ * Whole days from `date1` to `date2` (negative if `date2` is earlier).
+ */
+export function daysBetween(date1: string, date2: string): number {
+    return Math.round((parseDateKey(date2).getTime() - parseDateKey(date1).getTime()) / (1000 * 3600 * 24));
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+    if (values.length < 2) return 0;
+    const avg = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+// --- STATISTICS ---
+
+/**
+ * Returns all logged period start dates, oldest first.
+ */
+export function getPeriodStarts(allLogs: AllCycleLogs): string[] {
+    return Object.keys(allLogs).filter(date => allLogs[date].period === 'start').sort();
+}
+
+/**
+ * Measures a logged period: from its start to the 'end' entry, or to the last consecutive period day.
+ * @returns The length in days, or null if only the start day was logged.
+ */
+function measurePeriodLength(start: string, allLogs: AllCycleLogs, nextStart: string | null): number | null {
+    let lastPeriodDay = start;
+    for (let offset = 1; offset < MAX_PERIOD_LENGTH; offset++) {
+        const date = addDays(start, offset);
+        if (nextStart && date >= nextStart) break;
+        const period = allLogs[date]?.period;
+        if (!period) {
+            // Allow a single unlogged day inside a period.
+            if (allLogs[addDays(date, 1)]?.period && allLogs[addDays(date, 1)]?.period !== 'start') continue;
+            break;
+        }
+        lastPeriodDay = date;
+        if (period === 'end') break;
+    }
+    return lastPeriodDay === start ? null : daysBetween(start, lastPeriodDay) + 1;
+}
+
+/**
+ * Derives cycle and period length statistics from the logs, falling back to the
+ * user's configured defaults where there isn't enough history yet.
+ */
+export function getCycleStats(allLogs: AllCycleLogs, defaults: CycleData): CycleStats {
+    const starts = getPeriodStarts(allLogs);
+
+    const cycleLengths: number[] = [];
+    for (let i = 1; i < starts.length; i++) {
+        const length = daysBetween(starts[i - 1], starts[i]);
+        if (length >= MIN_PLAUSIBLE_CYCLE && length <= MAX_PLAUSIBLE_CYCLE) cycleLengths.push(length);
+    }
+    const recentCycles = cycleLengths.slice(-CYCLES_CONSIDERED);
+
+    const periodLengths = starts
+        .map((start, i) => measurePeriodLength(start, allLogs, starts[i + 1] ?? null))
+        .filter((length): length is number => length !== null)
+        .slice(-CYCLES_CONSIDERED);
+
+    const averageCycleLength = recentCycles.length > 0 ? mean(recentCycles) : defaults.cycleLength;
+    const shortestCycle = recentCycles.length > 0 ? Math.min(...recentCycles) : null;
+    const longestCycle = recentCycles.length > 0 ? Math.max(...recentCycles) : null;
+
+    // Irregular: cycles vary by more than 9 days, or average outside the typical 21-35 day range.
+    const variesTooMuch = recentCycles.length >= 3 && longestCycle! - shortestCycle! > 9;
+    const outsideTypicalRange = recentCycles.length >= 2 && (averageCycleLength < 21 || averageCycleLength > 35);
+
+    return {
+        cycleCount: recentCycles.length,
+        averageCycleLength,
+        cycleLengthStdDev: stdDev(recentCycles),
+        averagePeriodLength: periodLengths.length > 0 ? mean(periodLengths) : defaults.periodLength,
+        periodLengthStdDev: stdDev(periodLengths),
+        shortestCycle,
+        longestCycle,
+        isIrregular: variesTooMuch || outsideTypicalRange,
+        lastPeriodStart: starts.length > 0 ? starts[starts.length - 1] : null
+    };
+}
+
+/**
+ * Returns every day covered by a logged period, including unlogged days between a start and its end.
+ */
+export function getLoggedPeriodDays(allLogs: AllCycleLogs): Set<string> {
+    const days = new Set(Object.keys(allLogs).filter(date => allLogs[date].period));
+    const starts = getPeriodStarts(allLogs);
+    starts.forEach((start, i) => {
+        const length = measurePeriodLength(start, allLogs, starts[i + 1] ?? null) ?? 1;
+        for (let offset = 0; offset < length; offset++) days.add(addDays(start, offset));
+    });
+    return days;
+}
+
+// --- FORECASTING ---
+
+function getConfidence(stats: CycleStats): CycleForecast['confidence'] {
+    if (stats.cycleCount >= 4 && stats.cycleLengthStdDev <= 3 && !stats.isIrregular) return 'high';
+    if (stats.cycleCount >= 2) return 'medium';
+    return 'low';
+}
+
+function predictCycle(periodStart: string, stats: CycleStats, uncertainty: number): CyclePrediction {
+    const cycleLength = Math.round(stats.averageCycleLength);
+    const periodLength = Math.max(1, Math.round(stats.averagePeriodLength));
+    const ovulationDay = addDays(periodStart, Math.max(periodLength, cycleLength - LUTEAL_PHASE_LENGTH));
+    const fertileWindow = {
+        start: addDays(ovulationDay, -FERTILE_DAYS_BEFORE_OVULATION),
+        end: addDays(ovulationDay, FERTILE_DAYS_AFTER_OVULATION)
+    };
+    return {
+        periodStart,
+        periodStartRange: { start: addDays(periodStart, -uncertainty), end: addDays(periodStart, uncertainty) },
+        periodEnd: addDays(periodStart, periodLength - 1),
+        ovulationDay,
+        fertileWindow,
+        fertileWindowRange: { start: addDays(fertileWindow.start, -uncertainty), end: addDays(fertileWindow.end, uncertainty) }
+    };
+}
+
+/**
+ * Forecasts the next cycles after the most recent logged period.
+ * @param allLogs All cycle log entries.
+ * @param defaults The user's configured cycle settings, used until enough history exists.
+ * @param todayStr Today's date (YYYY-MM-DD).
+ * @param cycleCount How many upcoming cycles to predict.
+ * @returns The forecast, or null if no period has been logged yet.
+ */
+export function forecastCycles(allLogs: AllCycleLogs, defaults: CycleData, todayStr: string, cycleCount: number = 3): CycleForecast | null {
+    const stats = getCycleStats(allLogs, defaults);
+    if (!stats.lastPeriodStart) return null;
+
+    const cycleLength = Math.round(stats.averageCycleLength);
+    const uncertainty = stats.cycleCount >= 2
+        ? Math.max(1, Math.round(stats.cycleLengthStdDev))
+        : DEFAULT_UNCERTAINTY_DAYS;
+
+    // Expected start of the next period. If it is overdue by more than the usual variation,
+    // the user has most likely stopped logging, so roll forward by whole cycles.
+    let nextStart = addDays(stats.lastPeriodStart, cycleLength);
+    let daysLate = Math.max(0, daysBetween(nextStart, todayStr));
+    const lateTolerance = Math.max(7, uncertainty * 2);
+    if (daysLate > lateTolerance) {
+        const skippedCycles = Math.ceil(daysLate / cycleLength);
+        nextStart = addDays(nextStart, skippedCycles * cycleLength);
+        daysLate = 0;
+    }
+
+    // A late period is expected any day now, so predictions start from today.
+    const firstStart = daysLate > 0 ? todayStr : nextStart;
+    const cycles: CyclePrediction[] = [];
+    for (let i = 0; i < cycleCount; i++) {
+        const start = addDays(firstStart, i * cycleLength);
+        // Uncertainty accumulates with each cycle further into the future.
+        cycles.push(predictCycle(start, stats, uncertainty * (i + 1)));
+    }
+
+    return { stats, confidence: getConfidence(stats), daysLate, cycles };
+}
+
+/**
+ * Finds the start of the cycle a date belongs to: the latest logged period start on or before it,
+ * or, for dates past the last logged cycle, the latest predicted start on or before it.
+ */
+export function findCycleStart(targetDateStr: string, allLogs: AllCycleLogs, forecast: CycleForecast | null): string | null {
+    const starts = getPeriodStarts(allLogs).filter(date => date <= targetDateStr);
+    let cycleStart = starts.length > 0 ? starts[starts.length - 1] : null;
+    if (!cycleStart || !forecast) return cycleStart;
+
+    for (const cycle of forecast.cycles) {
+        if (cycle.periodStart <= targetDateStr && cycle.periodStart > cycleStart) cycleStart = cycle.periodStart;
+    }
+    return cycleStart;
+}
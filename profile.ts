@@ -1,74 +1,288 @@
 // profile.ts - User Profile, Achievements, and Settings Logic
 
 import * as state from './state';
-import { $, showAchievementModal } from './ui';
-import { logout } from './auth';
-import { getCompletedWorkouts, getWeekProgress } from './progress';
+import { $, $$, closeModal, escapeHtml, showToast } from './ui';
+import { getMemberSince, logout } from './auth';
+import {
+    PeriodProgress, ProgressBucket, ProgressPeriod, ProgressTotals, getCompletedWorkouts, getPeriodProgress, getWeekProgress
+} from './progress';
+import { STORES, readStore, updateStore, writeStore } from './storage';
+import { exportArchive, exportCsv, importArchive } from './backup';
+import { PHASE_LABELS, applyPhaseColors } from './cycle';
+import {
+    ASR_METHODS, CALCULATION_METHODS, HIGH_LATITUDE_RULES, PRAYER_NAMES, PRESET_LOCATIONS,
+    PrayerCalculationSettings, getPrayerTimes, locateDevice
+} from './prayertimes';
+import { HYDRATION_INTERVALS, REMINDER_OFFSETS, rescheduleReminders } from './notifications';
+import { BODY_METRIC_RANGES } from './calories';
+import { ACHIEVEMENT_TIERS, AchievementProgress, METRIC_ICONS, getAchievementProgress } from './achievements';
+import {
+    GOAL_PERIODS, GOAL_TYPES, addGoal, archiveGoal, describeGoal, getActiveGoals, getArchivedGoals, getGoalHistory,
+    getGoalProgress, normalizeGoal
+} from './goals';
 
 // --- ACHIEVEMENTS ---
 
-// FIX: Define and export the checkAndUnlockAchievement function to resolve import errors.
-type AchievementKey =
-    | 'ONBOARDING_COMPLETE'
-    | 'FIRST_WORKOUT'
-    | 'WORKOUT_STREAK_3'
-    | 'RECIPE_EXPLORER'
-    | 'AI_CHAT_START'
-    | 'GOAL_SETTER'
-    | 'CYCLE_LOG_FIRST';
-
-interface Achievement {
-    id: AchievementKey;
-    title: string;
-    description: string;
-}
-
-const ALL_ACHIEVEMENTS: Record<AchievementKey, Achievement> = {
-    ONBOARDING_COMPLETE: { id: 'ONBOARDING_COMPLETE', title: 'Добро пожаловать!', description: 'Вы завершили настройку своего профиля.' },
-    FIRST_WORKOUT: { id: 'FIRST_WORKOUT', title: 'Первый шаг сделан', description: 'Вы завершили свою первую тренировку.' },
-    WORKOUT_STREAK_3: { id: 'WORKOUT_STREAK_3', title: 'Сила привычки', description: 'Вы тренировались 3 дня подряд.' },
-    RECIPE_EXPLORER: { id: 'RECIPE_EXPLORER', title: 'Кулинарный исследователь', description: 'Вы просмотрели свой первый рецепт.' },
-    AI_CHAT_START: { id: 'AI_CHAT_START', title: 'Разговор по душам', description: 'Вы начали свой первый чат с AI-тренером.' },
-    GOAL_SETTER: { id: 'GOAL_SETTER', title: 'Цель поставлена', description: 'Вы установили свою первую фитнес-цель.' },
-    CYCLE_LOG_FIRST: { id: 'CYCLE_LOG_FIRST', title: 'В гармонии с собой', description: 'Вы сделали свою первую запись в календаре цикла.' }
-};
+function generateAchievementBadge({ achievement, current, unlockedAt }: AchievementProgress): string {
+    const status = unlockedAt === null
+        ? `<div class="achievement-progress"><div class="achievement-progress-fill" style="width: ${(current / achievement.target) * 100}%;"></div></div>
+           <span class="achievement-status">${current} / ${achievement.target}</span>`
+        : `<span class="achievement-status">${unlockedAt ? `Получено ${new Date(unlockedAt).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short', year: 'numeric' })}` : 'Получено'}</span>`;
+    return `
+        <div class="achievement-badge ${achievement.tier} ${unlockedAt === null ? 'locked' : ''}" title="${ACHIEVEMENT_TIERS[achievement.tier]}">
+            <div class="achievement-badge-icon"><i class="fas ${METRIC_ICONS[achievement.metric]}"></i></div>
+            <strong>${achievement.title}</strong>
+            <span class="achievement-description">${achievement.description}</span>
+            ${status}
+        </div>`;
+}
 
 /**
- * Checks if an achievement has been unlocked. If not, unlocks it and shows a notification.
- * @param key The key of the achievement to check.
+ * Generates the achievements gallery: every badge with its tier and either the unlock date or the progress toward it.
  */
-export function checkAndUnlockAchievement(key: AchievementKey) {
-    const unlockedRaw = localStorage.getItem(state.ACHIEVEMENTS_KEY);
-    const unlocked: Set<AchievementKey> = unlockedRaw ? new Set(JSON.parse(unlockedRaw)) : new Set();
-
-    if (!unlocked.has(key)) {
-        const achievement = ALL_ACHIEVEMENTS[key];
-        if (achievement) {
-            unlocked.add(key);
-            localStorage.setItem(state.ACHIEVEMENTS_KEY, JSON.stringify(Array.from(unlocked)));
-            showAchievementModal(achievement);
-        }
-    }
+function generateAchievementGallery(): string {
+    const progress = getAchievementProgress();
+    const unlockedCount = progress.filter(p => p.unlockedAt !== null).length;
+    return `
+        <div class="profile-section">
+            <h3>Достижения <span class="achievement-count">${unlockedCount} из ${progress.length}</span></h3>
+            <div class="achievement-gallery">
+                ${progress.map(generateAchievementBadge).join('')}
+            </div>
+        </div>`;
 }
 
+const PROGRESS_PERIODS: Record<ProgressPeriod, { label: string; previous: string }> = {
+    week: { label: 'Неделя', previous: 'к прошлой неделе' },
+    month: { label: 'Месяц', previous: 'к предыдущим 30 дням' },
+    quarter: { label: '3 месяца', previous: 'к предыдущим 3 месяцам' },
+    all: { label: 'Всё время', previous: '' }
+};
+
+const PROGRESS_METRICS: Record<keyof ProgressTotals, { label: string; unit: string }> = {
+    workouts: { label: 'Тренировки', unit: 'тренировок' },
+    minutes: { label: 'Минуты', unit: 'мин' },
+    calories: { label: 'Ккал', unit: 'ккал' }
+};
+
+let progressPeriod: ProgressPeriod = 'week';
+let progressMetric: keyof ProgressTotals = 'workouts';
+
 /**
- * Generates HTML for the weekly progress chart bars.
- * @param dailyCounts An array of workout counts for each day of the week (Mon-Sun).
+ * Generates HTML for the progress chart bars.
+ * @param buckets The aggregated days, weeks or months to draw.
+ * @param metric Which value the bars show.
  * @returns An HTML string of chart bars.
  */
-function generateChartBars(dailyCounts: number[]): string {
-    const maxCount = Math.max(...dailyCounts, 1); // Use 1 as minimum to avoid division by zero
-    const days = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
-    return dailyCounts.map((count, index) => {
-        const height = (count / maxCount) * 100;
+function generateChartBars(buckets: ProgressBucket[], metric: keyof ProgressTotals): string {
+    const maxValue = Math.max(...buckets.map(b => b[metric]), 1); // Use 1 as minimum to avoid division by zero
+    // Long periods get a label on every few bars only, so they stay readable.
+    const labelEvery = Math.ceil(buckets.length / 10);
+    return buckets.map((bucket, index) => {
+        const height = (bucket[metric] / maxValue) * 100;
         return `
             <div class="chart-bar-wrapper">
-              <div class="chart-bar" style="height: ${height}%;" title="${count} тренировок"></div>
-              <div class="chart-label">${days[index]}</div>
+              <div class="chart-bar" style="height: ${height}%;" title="${bucket.label}: ${bucket[metric]} ${PROGRESS_METRICS[metric].unit}"></div>
+              <div class="chart-label">${index % labelEvery === 0 ? bucket.label : '&nbsp;'}</div>
             </div>`;
     }).join('');
 }
 
+function generateComparison(progress: PeriodProgress, metric: keyof ProgressTotals): string {
+    const current = progress.totals[metric];
+    const { unit } = PROGRESS_METRICS[metric];
+    if (!progress.previousTotals) return `Всего: ${current} ${unit}`;
+
+    const previous = progress.previousTotals[metric];
+    const diff = current - previous;
+    const percent = previous > 0 ? ` (${diff > 0 ? '+' : ''}${Math.round((diff / previous) * 100)}%)` : '';
+    const trend = diff > 0 ? 'up' : diff < 0 ? 'down' : 'same';
+    const icon = { up: 'fa-arrow-up', down: 'fa-arrow-down', same: 'fa-equals' }[trend];
+    return `
+        ${current} ${unit}
+        <span class="progress-trend ${trend}"><i class="fas ${icon}"></i> ${diff > 0 ? '+' : ''}${diff}${percent} ${PROGRESS_PERIODS[progress.period].previous}</span>
+    `;
+}
+
+function renderProgressChart() {
+    const chart = $('#progress-chart-content');
+    if (!chart) return;
+    const progress = getPeriodProgress(getCompletedWorkouts(), progressPeriod);
+    chart.innerHTML = `
+        <p class="progress-comparison">${generateComparison(progress, progressMetric)}</p>
+        <div class="chart-container ${progress.buckets.length > 12 ? 'dense' : ''}">
+            ${generateChartBars(progress.buckets, progressMetric)}
+        </div>
+    `;
+    $$('.progress-chart .tab-btn').forEach(btn => btn.classList.toggle('active', (btn as HTMLElement).dataset.period === progressPeriod));
+    $$('.progress-chart .chip').forEach(chip => chip.classList.toggle('active', (chip as HTMLElement).dataset.metric === progressMetric));
+}
+
+function setupProgressChart() {
+    $('.progress-chart')?.addEventListener('click', e => {
+        const target = e.target as HTMLElement;
+        const tab = target.closest<HTMLElement>('.tab-btn');
+        const chip = target.closest<HTMLElement>('.chip');
+        if (tab?.dataset.period) progressPeriod = tab.dataset.period as ProgressPeriod;
+        else if (chip?.dataset.metric) progressMetric = chip.dataset.metric as keyof ProgressTotals;
+        else return;
+        renderProgressChart();
+    });
+    renderProgressChart();
+}
+
+// --- GOALS ---
+
+const formatShortDate = (date: string) => new Date(date).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' });
+
+/**
+ * Generates the row of past weeks for a goal, oldest on the left, each marked as met, missed or still in progress.
+ */
+function generateGoalHistory(goal: state.UserGoal): string {
+    const weeks = getGoalHistory(goal).reverse();
+    if (weeks.length === 0) return '';
+    const unit = goal.period === 'day' ? 'дн.' : GOAL_TYPES[goal.type].unit;
+    return `
+        <div class="goal-history">
+            ${weeks.map(week => {
+                const status = week.met ? 'met' : week.inProgress ? 'in-progress' : 'missed';
+                const icon = week.met ? 'fa-check' : week.inProgress ? 'fa-hourglass-half' : 'fa-xmark';
+                return `
+                <span class="goal-week ${status}" title="Неделя с ${formatShortDate(week.start)}${week.inProgress ? ' (идёт сейчас)' : ''}: ${week.value} из ${week.needed} ${unit}">
+                    <i class="fas ${icon}"></i>
+                </span>`;
+            }).join('')}
+        </div>`;
+}
+
+function generateGoalItem(goal: state.UserGoal): string {
+    const { current, target, percent } = getGoalProgress(goal);
+    const { unit } = GOAL_TYPES[goal.type];
+    const status = goal.period === 'deadline'
+        ? `Сейчас ${current} ${unit}, цель ${target} ${unit}`
+        : `${current} из ${target} ${unit} ${goal.period === 'day' ? 'сегодня' : 'на этой неделе'}`;
+    return `
+        <div class="goal-item">
+            <div class="goal-item-header">
+                <strong>${describeGoal(goal)}</strong>
+                <button class="goal-archive-btn" data-goal-archive="${goal.id}" title="В архив"><i class="fas fa-box-archive"></i></button>
+            </div>
+            <div class="goal-progress-bar"><div class="goal-progress-fill" style="width: ${percent}%;"></div></div>
+            <span class="goal-status">${status} · ${percent}%</span>
+            ${generateGoalHistory(goal)}
+        </div>`;
+}
+
+function generateArchivedGoal(goal: state.UserGoal): string {
+    const weeks = getGoalHistory(goal);
+    const summary = weeks.length > 0 ? ` · выполнено недель: ${weeks.filter(w => w.met).length} из ${weeks.length}` : '';
+    return `
+        <div class="goal-item archived">
+            <strong>${describeGoal(goal)}</strong>
+            <span class="goal-status">${formatShortDate(goal.createdAt)} — ${formatShortDate(goal.archivedAt!)}${summary}</span>
+            ${generateGoalHistory(goal)}
+        </div>`;
+}
+
+function generatePeriodOptions(type: state.GoalType): string {
+    return GOAL_TYPES[type].periods.map(period => `<option value="${period}">${GOAL_PERIODS[period]}</option>`).join('');
+}
+
+function generateGoalForm(): string {
+    const types = Object.keys(GOAL_TYPES) as state.GoalType[];
+    return `
+        <form id="goal-add-form" class="goal-form" hidden>
+            <div class="form-group">
+                <label for="goal-type">Что измеряем</label>
+                <select id="goal-type" class="form-select">
+                    ${types.map(type => `<option value="${type}">${GOAL_TYPES[type].label}</option>`).join('')}
+                </select>
+            </div>
+            <div class="form-group">
+                <label for="goal-period">Период</label>
+                <select id="goal-period" class="form-select">${generatePeriodOptions(types[0])}</select>
+            </div>
+            <div class="form-group">
+                <label for="goal-target">Цель</label>
+                <input type="number" id="goal-target" class="form-input" min="1" step="any" required>
+            </div>
+            <div class="form-group" id="goal-deadline-group" hidden>
+                <label for="goal-deadline">Срок</label>
+                <input type="date" id="goal-deadline" class="form-input" min="${new Date().toISOString().split('T')[0]}">
+            </div>
+            <button type="submit" class="btn">Сохранить цель</button>
+        </form>`;
+}
+
+function renderGoals() {
+    const content = $('#goals-content');
+    if (!content) return;
+    const active = getActiveGoals();
+    const archived = getArchivedGoals();
+    content.innerHTML = `
+        ${active.length > 0
+            ? active.map(generateGoalItem).join('')
+            : '<p class="settings-hint">Целей пока нет. Поставьте одну или несколько — например, 3 тренировки в неделю и 10 минут медитации в день.</p>'}
+        ${archived.length > 0 ? `
+            <details class="goal-archive">
+                <summary>Архив целей (${archived.length})</summary>
+                ${archived.map(generateArchivedGoal).join('')}
+            </details>` : ''}
+    `;
+}
+
+function setupGoals() {
+    const section = $('#goals-section');
+    if (!section) return;
+    const form = $<HTMLFormElement>('#goal-add-form');
+    const typeSelect = $<HTMLSelectElement>('#goal-type');
+    const periodSelect = $<HTMLSelectElement>('#goal-period');
+    const deadlineGroup = $('#goal-deadline-group');
+
+    const syncPeriod = () => {
+        if (!typeSelect || !periodSelect || !deadlineGroup) return;
+        periodSelect.innerHTML = generatePeriodOptions(typeSelect.value as state.GoalType);
+        deadlineGroup.hidden = periodSelect.value !== 'deadline';
+    };
+    typeSelect?.addEventListener('change', syncPeriod);
+
+    section.addEventListener('click', e => {
+        const target = e.target as HTMLElement;
+        const archiveBtn = target.closest<HTMLElement>('[data-goal-archive]');
+        if (archiveBtn?.dataset.goalArchive) {
+            if (!confirm('Перенести цель в архив? Её история сохранится.')) return;
+            archiveGoal(archiveBtn.dataset.goalArchive);
+            renderGoals();
+        } else if (target.closest('#add-goal-btn') && form) {
+            form.hidden = !form.hidden;
+        }
+    });
+
+    form?.addEventListener('submit', e => {
+        e.preventDefault();
+        const goal = normalizeGoal({
+            type: typeSelect?.value,
+            period: periodSelect?.value,
+            target: $<HTMLInputElement>('#goal-target')?.value,
+            deadline: $<HTMLInputElement>('#goal-deadline')?.value
+        });
+        if (!goal) {
+            showToast(typeSelect?.value === 'weight'
+                ? 'Укажите срок не раньше сегодняшнего дня и сохраните свой вес в профиле.'
+                : 'Укажите цель больше нуля.');
+            return;
+        }
+        addGoal(goal);
+        form.reset();
+        syncPeriod();
+        form.hidden = true;
+        renderGoals();
+        showToast('Цель сохранена!');
+    });
+
+    renderGoals();
+}
+
 /**
  * Renders the user's profile page, including stats and achievements.
  */
@@ -76,15 +290,16 @@ export function renderProfilePage(setState?: (newState: Partial<state.AppState>)
     const container = $('#profile-page .page-content');
     if (!container) return;
 
-    const profileRaw = localStorage.getItem(state.USER_PROFILE_KEY);
-    const profile: state.UserProfile | null = profileRaw ? JSON.parse(profileRaw) : null;
+    const profile = readStore(STORES.userProfile);
     const name = profile?.name || 'Пользователь';
+    const memberSince = getMemberSince();
     
+    const phaseColors = readStore(STORES.phaseColors);
     const completedWorkouts = getCompletedWorkouts();
     const weekProgress = getWeekProgress(completedWorkouts);
 
     let progressHtml;
-    if (weekProgress.totalWorkouts === 0) {
+    if (completedWorkouts.length === 0) {
         progressHtml = `
             <div class="profile-section empty-state-card">
                 <i class="fas fa-chart-line"></i>
@@ -115,25 +330,41 @@ export function renderProfilePage(setState?: (newState: Partial<state.AppState>)
             <div class="profile-section progress-chart">
                 <h3>Ваш прогресс</h3>
                 <div class="tabs">
-                    <button class="tab-btn active" data-period="week">Неделя</button>
-                    <button class="tab-btn" data-period="month">Месяц</button>
+                    ${(Object.keys(PROGRESS_PERIODS) as ProgressPeriod[]).map(period => `
+                        <button class="tab-btn" data-period="${period}">${PROGRESS_PERIODS[period].label}</button>`).join('')}
                 </div>
-                <div class="chart-container">
-                    ${generateChartBars(weekProgress.dailyCounts)}
+                <div class="chip-filters">
+                    ${(Object.keys(PROGRESS_METRICS) as (keyof ProgressTotals)[]).map(metric => `
+                        <button class="chip" data-metric="${metric}">${PROGRESS_METRICS[metric].label}</button>`).join('')}
                 </div>
+                <div id="progress-chart-content"></div>
             </div>
         `;
     }
 
     container.innerHTML = `
         <div class="profile-header">
-            <div class="avatar-placeholder">${name.charAt(0).toUpperCase()}</div>
-            <h2>${name}</h2>
-            <p>В AhavatFit с мая 2024</p>
+            ${generateAvatar(profile)}
+            <h2>${escapeHtml(name)}</h2>
+            ${profile ? `<p>${state.PROFILE_GOALS[profile.goal] ?? ''} · ${state.FITNESS_LEVELS[profile.level] ?? ''}</p>` : ''}
+            ${memberSince ? `<p>В AhavatFit с ${memberSince.toLocaleDateString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric' })}</p>` : ''}
+            <button id="edit-profile-btn" class="btn btn-outline"><i class="fas fa-pen"></i> Редактировать профиль</button>
         </div>
 
         ${progressHtml}
 
+        <div class="profile-section" id="goals-section">
+            <h3>Мои цели</h3>
+            <div id="goals-content"></div>
+            <div class="goal-actions">
+                <button id="add-goal-btn" class="btn btn-outline"><i class="fas fa-plus"></i> Добавить цель</button>
+                <button id="set-goal-btn" class="btn btn-outline"><i class="fas fa-comments"></i> Обсудить с Аминой</button>
+            </div>
+            ${generateGoalForm()}
+        </div>
+
+        ${generateAchievementGallery()}
+
         <div class="profile-section">
             <h3>Инструменты и ресурсы</h3>
             <a href="#" class="profile-link quick-link" data-page="programs">
@@ -151,6 +382,14 @@ export function renderProfilePage(setState?: (newState: Partial<state.AppState>)
              <a href="#" class="profile-link quick-link" data-page="cycle">
                 <span><i class="fa-regular fa-droplet"></i> Календарь цикла</span>
                 <i class="fas fa-chevron-right"></i>
+            </a>
+             <a href="#" class="profile-link quick-link" data-page="qada">
+                <span><i class="fa-regular fa-calendar-check"></i> Каза-намазы</span>
+                <i class="fas fa-chevron-right"></i>
+            </a>
+             <a href="#" class="profile-link quick-link" data-page="ramadan">
+                <span><i class="fa-regular fa-moon"></i> Посты Рамадана</span>
+                <i class="fas fa-chevron-right"></i>
             </a>
              <a href="#" class="profile-link quick-link" data-page="admin">
                 <span><i class="fa-regular fa-user-shield"></i> Панель администратора</span>
@@ -158,6 +397,21 @@ export function renderProfilePage(setState?: (newState: Partial<state.AppState>)
             </a>
         </div>
 
+        <div class="profile-section">
+            <h3>Время намазов</h3>
+            ${generatePrayerCalculationSettings(readStore(STORES.prayerCalculation))}
+        </div>
+
+        <div class="profile-section" id="prayer-reminder-settings">
+            <h3>Напоминания</h3>
+            ${generatePrayerReminderSettings(readStore(STORES.prayerSettings))}
+        </div>
+
+        <div class="profile-section" id="activity-reminder-settings">
+            <h3>Тренировки и вода</h3>
+            ${generateActivityReminderSettings(readStore(STORES.reminderSettings))}
+        </div>
+
         <div class="profile-section">
             <h3>Внешний вид и звук</h3>
             <div class="settings-item">
@@ -176,6 +430,25 @@ export function renderProfilePage(setState?: (newState: Partial<state.AppState>)
             </div>
         </div>
         
+        <div class="profile-section">
+            <h3>Цвета фаз цикла</h3>
+            <div class="color-settings">
+                ${(Object.keys(PHASE_LABELS) as (keyof state.PhaseColors)[]).map(phase => generateColorSetting(phase, PHASE_LABELS[phase], phaseColors[phase])).join('')}
+            </div>
+            <button id="reset-phase-colors-btn" class="btn btn-outline">Вернуть стандартные цвета</button>
+        </div>
+        
+        <div class="profile-section">
+            <h3>Ваши данные</h3>
+            <p class="settings-hint">Скачайте копию всех записей: цикл, питание, тренировки, цели, достижения, программы, избранное и плейлисты, учёт намазов и постов.</p>
+            <div class="data-actions">
+                <button id="export-json-btn" class="btn btn-outline"><i class="fas fa-file-export"></i> Экспорт (JSON)</button>
+                <button id="export-csv-btn" class="btn btn-outline"><i class="fas fa-table"></i> Таблицы (CSV)</button>
+                <button id="import-data-btn" class="btn btn-outline"><i class="fas fa-file-import"></i> Импорт архива</button>
+                <input type="file" id="import-data-input" accept="application/json,.json" hidden>
+            </div>
+        </div>
+        
         <a href="#" class="profile-link">
             <span><i class="far fa-question-circle"></i> Помощь и поддержка</span>
             <i class="fas fa-chevron-right"></i>
@@ -197,6 +470,14 @@ export function renderProfilePage(setState?: (newState: Partial<state.AppState>)
 
     // Add event listeners
     $('#logout-btn')?.addEventListener('click', logout);
+    setupDataActions();
+    setupProgressChart();
+    setupGoals();
+    $('#edit-profile-btn')?.addEventListener('click', openProfileEditor);
+    setupPhaseColorSettings();
+    setupPrayerCalculationSettings();
+    setupPrayerReminderSettings();
+    setupActivityReminderSettings();
     $('#set-goal-btn')?.addEventListener('click', () => {
         const modal = $('#goal-form-modal');
         if (modal) {
@@ -208,18 +489,349 @@ export function renderProfilePage(setState?: (newState: Partial<state.AppState>)
     state.globalUIState.profilePageInitialized = true;
 }
 
-function generatePrayerSetting(prayerName: string, label: string): string {
+// --- PROFILE EDITOR ---
+
+const AVATAR_SIZE = 128;
+let pendingAvatar: string | null | undefined; // undefined = unchanged, null = removed
+
+function generateAvatar(profile: state.UserProfile | null, extraClass: string = ''): string {
+    if (profile?.avatar) return `<img class="avatar-placeholder ${extraClass}" src="${profile.avatar}" alt="">`;
+    return `<div class="avatar-placeholder ${extraClass}">${escapeHtml((profile?.name || 'П').charAt(0).toUpperCase())}</div>`;
+}
+
+/**
+ * Scales an image file down to a small square JPEG so it fits comfortably in storage and sync.
+ */
+function resizeAvatar(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        const url = URL.createObjectURL(file);
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            const side = Math.min(image.width, image.height);
+            const canvas = document.createElement('canvas');
+            canvas.width = canvas.height = AVATAR_SIZE;
+            canvas.getContext('2d')?.drawImage(image, (image.width - side) / 2, (image.height - side) / 2, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+            resolve(canvas.toDataURL('image/jpeg', 0.8));
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Не удалось прочитать изображение.'));
+        };
+        image.src = url;
+    });
+}
+
+function generateMetricField(metric: keyof typeof BODY_METRIC_RANGES, label: string, unit: string, value: number | undefined): string {
+    const [min, max] = BODY_METRIC_RANGES[metric];
+    return `
+        <div class="settings-item">
+            <label for="profile-${metric}">${label}</label>
+            <div style="display: flex; align-items: center; gap: 10px;">
+                <input type="number" class="form-input" style="width: 90px;" id="profile-${metric}" data-metric="${metric}"
+                    min="${min}" max="${max}" step="${metric === 'weight' ? 0.1 : 1}" value="${value ?? ''}">
+                <span>${unit}</span>
+            </div>
+        </div>
+    `;
+}
+
+function openProfileEditor() {
+    const modal = $('#profile-edit-modal');
+    const content = $('#profile-edit-content');
+    if (!modal || !content) return;
+    const profile = readStore(STORES.userProfile);
+    pendingAvatar = undefined;
+
+    content.innerHTML = `
+        <form id="profile-edit-form">
+            <h3>Мой профиль</h3>
+            <div class="profile-edit-avatar">
+                <div id="profile-edit-avatar-preview">${generateAvatar(profile)}</div>
+                <label class="btn btn-outline" for="profile-avatar-input">Выбрать фото</label>
+                <input type="file" id="profile-avatar-input" accept="image/*" hidden>
+                <button type="button" id="profile-avatar-remove" class="session-link-btn" ${profile?.avatar ? '' : 'hidden'}>Удалить фото</button>
+            </div>
+            <div class="form-group">
+                <label for="profile-name">Имя</label>
+                <input type="text" id="profile-name" class="form-input" value="${escapeHtml(profile?.name ?? '')}" required>
+            </div>
+            <div class="form-group">
+                <label for="profile-goal">Цель</label>
+                <select id="profile-goal" class="form-select">${generateSelectOptions(state.PROFILE_GOALS, profile?.goal ?? 'maintain_fitness')}</select>
+            </div>
+            <div class="form-group">
+                <label for="profile-level">Уровень подготовки</label>
+                <select id="profile-level" class="form-select">${generateSelectOptions(state.FITNESS_LEVELS, profile?.level ?? 'beginner')}</select>
+            </div>
+            ${generateMetricField('weight', 'Вес', 'кг', profile?.weight)}
+            ${generateMetricField('height', 'Рост', 'см', profile?.height)}
+            ${generateMetricField('age', 'Возраст', 'лет', profile?.age)}
+            <p class="settings-hint">Параметры тела используются только для расчёта калорий.</p>
+            <button type="submit" class="btn">Сохранить</button>
+        </form>
+    `;
+
+    $<HTMLInputElement>('#profile-avatar-input')?.addEventListener('change', async e => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) return;
+        try {
+            pendingAvatar = await resizeAvatar(file);
+            const preview = $('#profile-edit-avatar-preview');
+            if (preview) preview.innerHTML = `<img class="avatar-placeholder" src="${pendingAvatar}" alt="">`;
+            $('#profile-avatar-remove')?.removeAttribute('hidden');
+        } catch (error) {
+            showToast((error as Error).message);
+        }
+    });
+    $('#profile-avatar-remove')?.addEventListener('click', e => {
+        pendingAvatar = null;
+        const preview = $('#profile-edit-avatar-preview');
+        const name = $<HTMLInputElement>('#profile-name')?.value || 'П';
+        if (preview) preview.innerHTML = `<div class="avatar-placeholder">${escapeHtml(name.charAt(0).toUpperCase())}</div>`;
+        (e.target as HTMLElement).setAttribute('hidden', '');
+    });
+    $<HTMLFormElement>('#profile-edit-form')?.addEventListener('submit', e => {
+        e.preventDefault();
+        saveProfileEdits();
+    });
+
+    modal.style.display = 'flex';
+    setTimeout(() => modal.classList.add('show'), 10);
+}
+
+/**
+ * Validates and saves the profile form. Pages that depend on the profile (the AI plan on the home page,
+ * recommendations) are re-rendered on their next visit.
+ */
+function saveProfileEdits() {
+    const name = $<HTMLInputElement>('#profile-name')?.value.trim();
+    if (!name) {
+        showToast('Пожалуйста, введите ваше имя.');
+        return;
+    }
+
+    const current = readStore(STORES.userProfile);
+    const updated: state.UserProfile = {
+        ...current,
+        name,
+        goal: $<HTMLSelectElement>('#profile-goal')?.value as state.UserProfile['goal'],
+        level: $<HTMLSelectElement>('#profile-level')?.value as state.UserProfile['level']
+    };
+
+    for (const metric of Object.keys(BODY_METRIC_RANGES) as (keyof typeof BODY_METRIC_RANGES)[]) {
+        const raw = $<HTMLInputElement>(`#profile-${metric}`)?.value.trim();
+        const [min, max] = BODY_METRIC_RANGES[metric];
+        if (!raw) {
+            delete updated[metric];
+            continue;
+        }
+        const value = Number(raw);
+        if (isNaN(value) || value < min || value > max) {
+            showToast(`Проверьте значение: допустимо от ${min} до ${max}.`);
+            return;
+        }
+        updated[metric] = value;
+    }
+
+    if (pendingAvatar === null) delete updated.avatar;
+    else if (pendingAvatar) updated.avatar = pendingAvatar;
+
+    writeStore(STORES.userProfile, updated);
+    state.globalUIState.homePageInitialized = false;
+    state.globalUIState.workoutsInitialized = false;
+    closeModal();
+    showToast('Профиль сохранён.');
+    renderProfilePage();
+}
+
+/**
+ * Saves and applies phase colors as soon as the user picks them, so the calendar updates live.
+ */
+function setupPhaseColorSettings() {
+    (Object.keys(PHASE_LABELS) as (keyof state.PhaseColors)[]).forEach(phase => {
+        $<HTMLInputElement>(`#color-${phase}`)?.addEventListener('input', e => {
+            const colors = { ...readStore(STORES.phaseColors), [phase]: (e.target as HTMLInputElement).value };
+            writeStore(STORES.phaseColors, colors);
+            applyPhaseColors(colors);
+        });
+    });
+    $('#reset-phase-colors-btn')?.addEventListener('click', () => {
+        const colors = STORES.phaseColors.defaultValue();
+        writeStore(STORES.phaseColors, colors);
+        applyPhaseColors(colors);
+        renderProfilePage();
+    });
+}
+
+/**
+ * Saves prayer calculation settings as they change. Times are calculated on the device, so they work offline.
+ */
+function setupPrayerCalculationSettings() {
+    const save = (changes: Partial<PrayerCalculationSettings>) => {
+        updateStore(STORES.prayerCalculation, settings => ({ ...settings, ...changes }));
+        state.globalUIState.homePageInitialized = false;
+        const preview = $('#prayer-times-preview');
+        if (preview) preview.textContent = `Сегодня: ${generatePrayerTimesPreview()}`;
+    };
+
+    $<HTMLSelectElement>('#prayer-location-select')?.addEventListener('change', e => {
+        const location = PRESET_LOCATIONS[Number((e.target as HTMLSelectElement).value)];
+        if (location) save({ location });
+    });
+    $<HTMLSelectElement>('#prayer-method-select')?.addEventListener('change', e => {
+        save({ method: (e.target as HTMLSelectElement).value as PrayerCalculationSettings['method'] });
+    });
+    $<HTMLSelectElement>('#prayer-asr-select')?.addEventListener('change', e => {
+        save({ asrMethod: (e.target as HTMLSelectElement).value as PrayerCalculationSettings['asrMethod'] });
+    });
+    $<HTMLSelectElement>('#prayer-high-latitude-select')?.addEventListener('change', e => {
+        save({ highLatitudeRule: (e.target as HTMLSelectElement).value as PrayerCalculationSettings['highLatitudeRule'] });
+    });
+
+    $('#prayer-geolocate-btn')?.addEventListener('click', async () => {
+        try {
+            save({ location: await locateDevice() });
+            showToast('Местоположение обновлено.');
+            renderProfilePage();
+        } catch (error) {
+            showToast((error as Error).message);
+        }
+    });
+}
+
+/**
+ * Asks for notification permission when a reminder is switched on.
+ * @returns True if notifications may be shown.
+ */
+export async function ensureNotificationPermission(): Promise<boolean> {
+    if (!('Notification' in window)) return false;
+    if (Notification.permission === 'granted') return true;
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+        showToast('Разрешите уведомления в настройках браузера, чтобы получать напоминания.');
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Persists prayer reminder settings and reschedules reminders so changes apply immediately.
+ */
+function setupPrayerReminderSettings() {
+    const section = $('#prayer-reminder-settings');
+    section?.addEventListener('change', async e => {
+        const target = e.target as HTMLInputElement;
+        if (target.id === 'prayer-reminders-toggle') {
+            if (target.checked && !(await ensureNotificationPermission())) {
+                target.checked = false;
+                return;
+            }
+            updateStore(STORES.prayerSettings, settings => ({ ...settings, enabled: target.checked }));
+        } else {
+            const match = target.id.match(/^prayer-(toggle|offset)-(\w+)$/);
+            const prayer = match?.[2] as state.PrayerName | undefined;
+            if (!match || !prayer || !(prayer in PRAYER_NAMES)) return;
+            updateStore(STORES.prayerSettings, settings => {
+                const reminder = { ...settings.prayers[prayer] };
+                if (match[1] === 'toggle') reminder.enabled = target.checked;
+                else reminder.offset = Number(target.value);
+                return { ...settings, prayers: { ...settings.prayers, [prayer]: reminder } };
+            });
+        }
+
+        rescheduleReminders();
+        const content = $('#prayer-reminder-settings');
+        if (content && target.id === 'prayer-reminders-toggle') {
+            content.innerHTML = `<h3>Напоминания</h3>${generatePrayerReminderSettings(readStore(STORES.prayerSettings))}`;
+        }
+    });
+}
+
+/**
+ * Persists workout and hydration reminder settings and reschedules reminders.
+ */
+function setupActivityReminderSettings() {
+    const section = $('#activity-reminder-settings');
+    section?.addEventListener('change', async e => {
+        const target = e.target as HTMLInputElement;
+        if (target.type === 'checkbox' && target.checked && !(await ensureNotificationPermission())) {
+            target.checked = false;
+            return;
+        }
+
+        updateStore(STORES.reminderSettings, settings => {
+            const workout = { ...settings.workout };
+            const hydration = { ...settings.hydration };
+            switch (target.id) {
+                case 'workout-reminder-toggle': workout.enabled = target.checked; break;
+                case 'workout-reminder-time': if (target.value) workout.time = target.value; break;
+                case 'hydration-reminder-toggle': hydration.enabled = target.checked; break;
+                case 'hydration-reminder-interval': hydration.intervalHours = Number(target.value); break;
+                case 'hydration-reminder-start': if (target.value) hydration.start = target.value; break;
+                case 'hydration-reminder-end': if (target.value) hydration.end = target.value; break;
+            }
+            return { workout, hydration };
+        });
+
+        rescheduleReminders();
+        if (target.type === 'checkbox' && section) {
+            section.innerHTML = `<h3>Тренировки и вода</h3>${generateActivityReminderSettings(readStore(STORES.reminderSettings))}`;
+        }
+    });
+}
+
+/**
+ * Wires up the export and import buttons in the "Your data" section.
+ */
+function setupDataActions() {
+    $('#export-json-btn')?.addEventListener('click', () => {
+        exportArchive();
+        showToast('Архив с вашими данными сохранён.');
+    });
+    $('#export-csv-btn')?.addEventListener('click', () => {
+        const count = exportCsv();
+        showToast(count > 0 ? `Таблицы сохранены в один файл, разделов: ${count}.` : 'Пока нет данных для экспорта.');
+    });
+
+    const fileInput = $<HTMLInputElement>('#import-data-input');
+    $('#import-data-btn')?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        if (!file) return;
+        try {
+            const result = importArchive(await file.text());
+            showToast(result.skipped.length > 0
+                ? `Данные импортированы. Пропущено повреждённых разделов: ${result.skipped.length}.`
+                : 'Данные успешно импортированы.');
+            // Imported data may affect every page, so re-render them on the next visit.
+            state.globalUIState.homePageInitialized = false;
+            state.globalUIState.cyclePageInitialized = false;
+            state.globalUIState.nutritionPageInitialized = false;
+            state.globalUIState.programsPageInitialized = false;
+            renderProfilePage();
+        } catch (error) {
+            console.error("Data import failed:", error);
+            showToast(error instanceof Error ? error.message : 'Не удалось импортировать данные.');
+        } finally {
+            fileInput.value = '';
+        }
+    });
+}
+
+function generatePrayerSetting(prayerName: state.PrayerName, label: string, reminder: state.PrayerReminderSettings, disabled: boolean): string {
+    const offsetOptions = REMINDER_OFFSETS
+        .map(offset => `<option value="${offset}" ${offset === reminder.offset ? 'selected' : ''}>${offset === 0 ? 'В момент наступления' : `За ${offset} минут`}</option>`)
+        .join('');
     return `
         <div class="settings-item">
             <label>${label}</label>
             <div style="display: flex; align-items: center; gap: 10px;">
-                <select class="form-select" style="width: auto;">
-                    <option>В момент наступления</option>
-                    <option>За 5 минут</option>
-                    <option>За 10 минут</option>
+                <select class="form-select" style="width: auto;" id="prayer-offset-${prayerName}" ${disabled ? 'disabled' : ''}>
+                    ${offsetOptions}
                 </select>
                 <label class="switch">
-                    <input type="checkbox" id="prayer-toggle-${prayerName}">
+                    <input type="checkbox" id="prayer-toggle-${prayerName}" ${reminder.enabled ? 'checked' : ''} ${disabled ? 'disabled' : ''}>
                     <span class="slider round"></span>
                 </label>
             </div>
@@ -227,6 +839,107 @@ function generatePrayerSetting(prayerName: string, label: string): string {
     `;
 }
 
+function generatePrayerReminderSettings(settings: state.PrayerSettings): string {
+    return `
+        <div class="settings-item">
+            <label for="prayer-reminders-toggle">Напоминания о намазе</label>
+            <label class="switch">
+                <input type="checkbox" id="prayer-reminders-toggle" ${settings.enabled ? 'checked' : ''}>
+                <span class="slider round"></span>
+            </label>
+        </div>
+        ${(Object.keys(PRAYER_NAMES) as state.PrayerName[])
+            .map(prayer => generatePrayerSetting(prayer, PRAYER_NAMES[prayer], settings.prayers[prayer], !settings.enabled))
+            .join('')}
+        <p class="settings-hint">Во время менструации напоминания приостанавливаются.</p>
+    `;
+}
+
+function generateActivityReminderSettings(settings: state.ReminderSettings): string {
+    const { workout, hydration } = settings;
+    const intervalOptions = HYDRATION_INTERVALS
+        .map(hours => `<option value="${hours}" ${hours === hydration.intervalHours ? 'selected' : ''}>Каждые ${hours} ч.</option>`)
+        .join('');
+    return `
+        <div class="settings-item">
+            <label for="workout-reminder-toggle">Напоминание о тренировке</label>
+            <div style="display: flex; align-items: center; gap: 10px;">
+                <input type="time" class="form-input" style="width: auto;" id="workout-reminder-time" value="${workout.time}" ${workout.enabled ? '' : 'disabled'}>
+                <label class="switch">
+                    <input type="checkbox" id="workout-reminder-toggle" ${workout.enabled ? 'checked' : ''}>
+                    <span class="slider round"></span>
+                </label>
+            </div>
+        </div>
+        <div class="settings-item">
+            <label for="hydration-reminder-toggle">Напоминания пить воду</label>
+            <label class="switch">
+                <input type="checkbox" id="hydration-reminder-toggle" ${hydration.enabled ? 'checked' : ''}>
+                <span class="slider round"></span>
+            </label>
+        </div>
+        <div class="settings-item">
+            <label for="hydration-reminder-interval">Как часто</label>
+            <select class="form-select" style="width: auto;" id="hydration-reminder-interval" ${hydration.enabled ? '' : 'disabled'}>
+                ${intervalOptions}
+            </select>
+        </div>
+        <div class="settings-item">
+            <label for="hydration-reminder-start">С</label>
+            <div style="display: flex; align-items: center; gap: 10px;">
+                <input type="time" class="form-input" style="width: auto;" id="hydration-reminder-start" value="${hydration.start}" ${hydration.enabled ? '' : 'disabled'}>
+                <span>до</span>
+                <input type="time" class="form-input" style="width: auto;" id="hydration-reminder-end" value="${hydration.end}" ${hydration.enabled ? '' : 'disabled'}>
+            </div>
+        </div>
+        <p class="settings-hint">Напоминание о тренировке не приходит, если тренировка на сегодня уже выполнена.</p>
+    `;
+}
+
+function generateSelectOptions(options: Record<string, string>, selected: string): string {
+    return Object.entries(options)
+        .map(([value, label]) => `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`)
+        .join('');
+}
+
+function generatePrayerTimesPreview(): string {
+    const times = getPrayerTimes();
+    return (Object.keys(PRAYER_NAMES) as state.PrayerName[]).map(p => `${PRAYER_NAMES[p]} ${times[p]}`).join(' · ');
+}
+
+function generatePrayerCalculationSettings(settings: PrayerCalculationSettings): string {
+    const isPreset = PRESET_LOCATIONS.some(l => l.name === settings.location.name);
+    const locationOptions = PRESET_LOCATIONS
+        .map((l, i) => `<option value="${i}" ${l.name === settings.location.name ? 'selected' : ''}>${l.name}</option>`)
+        .join('');
+
+    return `
+        <div class="form-group">
+            <label for="prayer-location-select">Местоположение</label>
+            <select id="prayer-location-select" class="form-select">
+                ${isPreset ? '' : `<option value="custom" selected>${settings.location.name}</option>`}
+                ${locationOptions}
+            </select>
+            <button id="prayer-geolocate-btn" class="btn btn-outline"><i class="fas fa-location-crosshairs"></i> Определить автоматически</button>
+        </div>
+        <div class="form-group">
+            <label for="prayer-method-select">Метод расчёта</label>
+            <select id="prayer-method-select" class="form-select">
+                ${generateSelectOptions(Object.fromEntries(Object.entries(CALCULATION_METHODS).map(([id, m]) => [id, m.name])), settings.method)}
+            </select>
+        </div>
+        <div class="form-group">
+            <label for="prayer-asr-select">Время Асра</label>
+            <select id="prayer-asr-select" class="form-select">${generateSelectOptions(ASR_METHODS, settings.asrMethod)}</select>
+        </div>
+        <div class="form-group">
+            <label for="prayer-high-latitude-select">Северные широты (белые ночи)</label>
+            <select id="prayer-high-latitude-select" class="form-select">${generateSelectOptions(HIGH_LATITUDE_RULES, settings.highLatitudeRule)}</select>
+        </div>
+        <p class="settings-hint" id="prayer-times-preview">Сегодня: ${generatePrayerTimesPreview()}</p>
+    `;
+}
+
 function generateColorSetting(phase: string, label: string, defaultColor: string): string {
     return `
         <div class="color-input-group">
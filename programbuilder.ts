@@ -0,0 +1,394 @@
+// programbuilder.ts - Custom Workout Programs for AhavatFit
+//
+// Lets the user put together their own program from the workout catalog: weeks of training days,
+// each with a workout. Custom programs are saved locally next to the catalog ones, can be enrolled
+// in like any other program, and can be duplicated or shared with a friend as a short code.
+
+import * as state from './state';
+import { $, closeModal, escapeHtml, showToast } from './ui';
+import { STORES, readStore, updateStore } from './storage';
+import { generateProgramOverview } from './programs';
+
+// --- DATA TYPES & CONSTANTS ---
+
+type BuilderView = 'edit' | 'preview';
+
+const SHARE_CODE_PREFIX = 'ahavatfit-program:';
+
+let draft: state.Program | null = null;
+let builderView: BuilderView = 'edit';
+
+// --- CATALOG MERGE ---
+
+/**
+ * Returns the catalog programs followed by the user's own, replacing any custom programs in the list.
+ */
+export function withCustomPrograms(programs: state.Program[]): state.Program[] {
+    return [...programs.filter(p => !p.custom), ...readStore(STORES.customPrograms)];
+}
+
+/**
+ * Treats parsed JSON from outside the app as an object, so its fields can be checked one by one.
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+// --- SHARE CODES ---
+
+/**
+ * Encodes a program as a text code. Only the plan travels; workout titles are looked up on import.
+ */
+function encodeProgram(program: state.Program): string {
+    const plan = {
+        title: program.title,
+        description: program.description,
+        schedule: program.schedule.map(week => ({ week: week.week, focus: week.focus, days: week.days.map(({ day, workoutId }) => ({ day, workoutId })) }))
+    };
+    const bytes = new TextEncoder().encode(JSON.stringify(plan));
+    return SHARE_CODE_PREFIX + btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Decodes a share code into a new, unsaved program.
+ * @throws If the code is malformed or refers to workouts that aren't in the catalog.
+ */
+function decodeProgram(code: string): state.Program {
+    // The code may be pasted together with the message it was shared in.
+    const body = code.match(new RegExp(`${SHARE_CODE_PREFIX}([A-Za-z0-9+/=]+)`))?.[1] ?? code.trim();
+    let plan: Record<string, unknown>;
+    try {
+        plan = asRecord(JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(body), c => c.charCodeAt(0)))));
+    } catch (e) {
+        throw new Error('Код программы не распознан.');
+    }
+    const duration = Array.isArray(plan.schedule) ? plan.schedule.length : 0;
+    const program = STORES.customPrograms.validate([{ ...plan, id: '', duration, custom: true }])?.[0];
+    if (!program || program.schedule.some(week => new Set(week.days.map(d => d.day)).size < week.days.length)) {
+        throw new Error('Код программы не распознан.');
+    }
+    if (!program.schedule.every(week => week.days.every(day => state.appState.workouts.some(w => w.id === day.workoutId)))) {
+        throw new Error('В программе есть тренировки, которых нет в каталоге.');
+    }
+    // Week numbers in the code are only an order; the program always runs from week 1.
+    return { ...program, schedule: program.schedule.map((week, index) => ({ ...week, week: index + 1 })) };
+}
+
+// --- VALIDATION ---
+
+/**
+ * Checks the draft before it is previewed or saved.
+ * @returns A message describing the first problem, or null if the program is complete.
+ */
+function validateDraft(program: state.Program): string | null {
+    if (!program.title.trim()) return 'Дайте программе название.';
+    if (program.schedule.length > state.MAX_PROGRAM_WEEKS) return `В программе может быть не больше ${state.MAX_PROGRAM_WEEKS} недель.`;
+    for (const [index, week] of program.schedule.entries()) {
+        if (week.days.length === 0) return `В неделе ${index + 1} нет ни одной тренировки.`;
+        if (week.days.some(d => !Number.isInteger(d.day) || d.day < 1 || d.day > state.PROGRAM_DAYS_PER_WEEK)) return `В неделе ${index + 1} указан несуществующий день.`;
+        if (new Set(week.days.map(d => d.day)).size < week.days.length) return `В неделе ${index + 1} две тренировки в один день.`;
+        if (week.days.some(d => !state.appState.workouts.some(w => w.id === d.workoutId))) return `Выберите тренировки для недели ${index + 1}.`;
+    }
+    return null;
+}
+
+/**
+ * Tidies the draft into the shape the rest of the app expects: weeks numbered in order, days
+ * sorted, workout titles filled in and the duration matching the number of weeks.
+ */
+function finalizeDraft(program: state.Program): state.Program {
+    const schedule = program.schedule.map((week, index) => ({
+        week: index + 1,
+        ...(week.focus && { focus: week.focus.slice(0, state.MAX_PROGRAM_TITLE_LENGTH) }),
+        days: [...week.days]
+            .sort((a, b) => a.day - b.day)
+            .map(({ day, workoutId }) => ({ day, workoutId, title: state.appState.workouts.find(w => w.id === workoutId)?.title }))
+    }));
+    return {
+        ...program,
+        // Longer texts would be rejected when the saved program is read back.
+        title: program.title.trim().slice(0, state.MAX_PROGRAM_TITLE_LENGTH),
+        description: program.description.trim().slice(0, state.MAX_PROGRAM_DESCRIPTION_LENGTH),
+        duration: schedule.length,
+        custom: true,
+        schedule
+    };
+}
+
+/**
+ * Turns a program proposed by the AI coach into a program the app can run. Days with workouts that
+ * aren't in the catalog, impossible day numbers and second workouts on the same day are dropped,
+ * and so are weeks left empty.
+ * @returns The program, not yet saved.
+ * @throws If nothing usable is left.
+ */
+export function programFromAI(raw: unknown): state.Program {
+    const catalogIds = new Set(state.appState.workouts.map(w => w.id));
+    const plan = asRecord(raw);
+    const weeks: unknown[] = Array.isArray(plan.weeks) ? plan.weeks : [];
+    const schedule = weeks.slice(0, state.MAX_PROGRAM_WEEKS).map((rawWeek, index) => {
+        const week = asRecord(rawWeek);
+        const rawDays: unknown[] = Array.isArray(week.days) ? week.days : [];
+        const days = rawDays
+            .map(rawDay => {
+                const day = asRecord(rawDay);
+                return { day: Number(day.day), workoutId: Number(day.workoutId) };
+            })
+            .filter(d => Number.isInteger(d.day) && d.day >= 1 && d.day <= state.PROGRAM_DAYS_PER_WEEK && catalogIds.has(d.workoutId))
+            .filter((d, i, all) => all.findIndex(other => other.day === d.day) === i);
+        return { week: index + 1, days, ...(typeof week.focus === 'string' && week.focus && { focus: week.focus }) };
+    }).filter(week => week.days.length > 0);
+
+    if (schedule.length === 0) throw new Error('Амина предложила тренировки, которых нет в каталоге. Попробуйте ещё раз.');
+    return finalizeDraft({
+        id: '',
+        title: typeof plan.title === 'string' && plan.title.trim() ? plan.title : 'Программа от Амины',
+        description: typeof plan.description === 'string' ? plan.description : '',
+        duration: schedule.length,
+        custom: true,
+        schedule
+    });
+}
+
+/**
+ * Saves one of the user's programs, adding it or replacing the saved version.
+ * @returns The saved program, with an id if it didn't have one yet.
+ */
+export function saveCustomProgram(program: state.Program): state.Program {
+    const saved = { ...finalizeDraft(program), id: program.id || `custom-${Date.now()}` };
+    updateStore(STORES.customPrograms, programs => programs.some(p => p.id === saved.id)
+        ? programs.map(p => p.id === saved.id ? saved : p)
+        : [...programs, saved]);
+    return saved;
+}
+
+// --- RENDERING ---
+
+function generateWorkoutOptions(selectedId: number): string {
+    const categories = Array.from(new Set(state.appState.workouts.map(w => w.category)));
+    return `
+        <option value="" ${state.appState.workouts.some(w => w.id === selectedId) ? '' : 'selected'} disabled>Выберите тренировку</option>
+        ${categories.map(category => `
+            <optgroup label="${category}">
+                ${state.appState.workouts.filter(w => w.category === category).map(w => `
+                    <option value="${w.id}" ${w.id === selectedId ? 'selected' : ''}>${w.title} · ${w.duration} мин</option>`).join('')}
+            </optgroup>`).join('')}
+    `;
+}
+
+function generateBuilderWeek(week: state.Program['schedule'][number], weekIndex: number, weekCount: number): string {
+    const daysHtml = week.days.map((day, dayIndex) => `
+        <div class="builder-day">
+            <select class="form-select" data-builder-field="day" data-week="${weekIndex}" data-index="${dayIndex}">
+                ${Array.from({ length: state.PROGRAM_DAYS_PER_WEEK }, (_, i) => `<option value="${i + 1}" ${day.day === i + 1 ? 'selected' : ''}>День ${i + 1}</option>`).join('')}
+            </select>
+            <select class="form-select" data-builder-field="workout" data-week="${weekIndex}" data-index="${dayIndex}">
+                ${generateWorkoutOptions(day.workoutId)}
+            </select>
+            <button type="button" class="builder-icon-btn" data-builder-action="remove-day" data-week="${weekIndex}" data-index="${dayIndex}" title="Убрать тренировку"><i class="fas fa-xmark"></i></button>
+        </div>`).join('');
+
+    return `
+        <div class="builder-week">
+            <div class="builder-week-header">
+                <h4>Неделя ${weekIndex + 1}</h4>
+                <div>
+                    <button type="button" class="builder-icon-btn" data-builder-action="copy-week" data-week="${weekIndex}" title="Повторить неделю"><i class="fas fa-clone"></i></button>
+                    ${weekCount > 1 ? `<button type="button" class="builder-icon-btn" data-builder-action="remove-week" data-week="${weekIndex}" title="Удалить неделю"><i class="fas fa-trash"></i></button>` : ''}
+                </div>
+            </div>
+            ${daysHtml}
+            ${week.days.length < state.PROGRAM_DAYS_PER_WEEK ? `<button type="button" class="btn btn-outline" data-builder-action="add-day" data-week="${weekIndex}"><i class="fas fa-plus"></i> Тренировка</button>` : ''}
+        </div>`;
+}
+
+function renderBuilder() {
+    const content = $('#program-builder-content');
+    if (!content || !draft) return;
+
+    if (builderView === 'preview') {
+        const program = finalizeDraft(draft);
+        content.innerHTML = `
+            ${generateProgramOverview(program)}
+            <div class="builder-actions">
+                <button class="btn btn-outline" data-builder-action="edit">Вернуться к редактированию</button>
+                <button class="btn" data-builder-action="save">Сохранить программу</button>
+            </div>
+        `;
+        return;
+    }
+
+    content.innerHTML = `
+        <h3>${draft.id ? 'Редактирование программы' : 'Новая программа'}</h3>
+        <div class="form-group">
+            <label for="builder-title">Название</label>
+            <input type="text" id="builder-title" class="form-input" data-builder-field="title" value="${escapeHtml(draft.title)}" maxlength="${state.MAX_PROGRAM_TITLE_LENGTH}" placeholder="Например, Утренняя зарядка">
+        </div>
+        <div class="form-group">
+            <label for="builder-description">Описание</label>
+            <textarea id="builder-description" class="form-input" data-builder-field="description" rows="2" maxlength="${state.MAX_PROGRAM_DESCRIPTION_LENGTH}" placeholder="Для чего эта программа?">${escapeHtml(draft.description)}</textarea>
+        </div>
+        ${draft.schedule.map((week, i) => generateBuilderWeek(week, i, draft!.schedule.length)).join('')}
+        ${draft.schedule.length < state.MAX_PROGRAM_WEEKS ? '<button class="btn btn-outline" data-builder-action="add-week"><i class="fas fa-plus"></i> Добавить неделю</button>' : ''}
+        ${draft.id ? '' : `
+        <details class="builder-import">
+            <summary>Есть код программы?</summary>
+            <textarea id="builder-import-code" class="form-input" rows="3" placeholder="${SHARE_CODE_PREFIX}..."></textarea>
+            <button class="btn btn-outline" data-builder-action="import">Загрузить программу</button>
+        </details>`}
+        <div class="builder-actions">
+            <button class="btn btn-outline" data-builder-action="cancel">Отмена</button>
+            <button class="btn btn-outline" data-builder-action="preview">Предпросмотр</button>
+            <button class="btn" data-builder-action="save">Сохранить</button>
+        </div>
+    `;
+}
+
+// --- ACTIONS ---
+
+function saveDraft() {
+    if (!draft) return;
+    const error = validateDraft(draft);
+    if (error) {
+        showToast(error);
+        return;
+    }
+    const program = saveCustomProgram(draft);
+    draft = null;
+    closeModal();
+    showToast(`Программа «${program.title}» сохранена`);
+}
+
+function handleBuilderAction(button: HTMLElement) {
+    if (!draft) return;
+    const { builderAction: action } = button.dataset;
+    const week = draft.schedule[Number(button.dataset.week)];
+
+    if (action === 'add-week') {
+        draft.schedule.push({ week: draft.schedule.length + 1, days: [] });
+    } else if (action === 'copy-week' && week) {
+        draft.schedule.splice(Number(button.dataset.week) + 1, 0, { ...week, days: week.days.map(d => ({ ...d })) });
+    } else if (action === 'remove-week') {
+        draft.schedule.splice(Number(button.dataset.week), 1);
+    } else if (action === 'add-day' && week) {
+        const freeDay = Array.from({ length: state.PROGRAM_DAYS_PER_WEEK }, (_, i) => i + 1).find(d => !week.days.some(day => day.day === d)) ?? 1;
+        week.days.push({ day: freeDay, workoutId: 0 });
+    } else if (action === 'remove-day' && week) {
+        week.days.splice(Number(button.dataset.index), 1);
+    } else if (action === 'preview') {
+        const error = validateDraft(draft);
+        if (error) {
+            showToast(error);
+            return;
+        }
+        builderView = 'preview';
+    } else if (action === 'edit') {
+        builderView = 'edit';
+    } else if (action === 'import') {
+        try {
+            draft = decodeProgram($<HTMLTextAreaElement>('#builder-import-code')?.value ?? '');
+            showToast('Программа загружена. Проверьте её и сохраните.');
+        } catch (e) {
+            showToast((e as Error).message);
+            return;
+        }
+    } else if (action === 'save') {
+        saveDraft();
+        return;
+    } else if (action === 'cancel') {
+        draft = null;
+        closeModal();
+        return;
+    } else {
+        return;
+    }
+    renderBuilder();
+}
+
+/**
+ * Keeps the draft in step with the builder's fields as the user types or picks.
+ */
+function handleBuilderInput(field: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement) {
+    if (!draft) return;
+    const { builderField, week, index } = field.dataset;
+    if (builderField === 'title') draft.title = field.value;
+    else if (builderField === 'description') draft.description = field.value;
+
+    const day = draft.schedule[Number(week)]?.days[Number(index)];
+    if (!day) return;
+    if (builderField === 'day') day.day = Number(field.value);
+    else if (builderField === 'workout') day.workoutId = Number(field.value);
+}
+
+let builderListenersAttached = false;
+
+/**
+ * Opens the program builder.
+ * @param program A program to edit (custom programs) or to start from (duplicates, shared codes).
+ * Leave it out to start from an empty week.
+ */
+export function openProgramBuilder(program?: state.Program) {
+    const modal = $('#program-builder-modal');
+    if (!modal) return;
+    draft = program
+        ? { ...program, schedule: program.schedule.map(w => ({ ...w, days: w.days.map(d => ({ ...d })) })) }
+        : { id: '', title: '', description: '', duration: 1, custom: true, schedule: [{ week: 1, days: [] }] };
+    builderView = 'edit';
+
+    if (!builderListenersAttached) {
+        modal.addEventListener('click', e => {
+            const button = (e.target as HTMLElement).closest<HTMLElement>('[data-builder-action]');
+            if (button) handleBuilderAction(button);
+        });
+        modal.addEventListener('input', e => {
+            const field = (e.target as HTMLElement).closest<HTMLInputElement>('[data-builder-field]');
+            if (field) handleBuilderInput(field);
+        });
+        builderListenersAttached = true;
+    }
+
+    renderBuilder();
+    modal.style.display = 'flex';
+    setTimeout(() => modal.classList.add('show'), 10);
+}
+
+/**
+ * Opens the builder with a copy of a catalog or custom program.
+ */
+export function duplicateProgram(program: state.Program) {
+    openProgramBuilder({ ...program, id: '', title: `${program.title} (копия)`, custom: true });
+}
+
+/**
+ * Deletes one of the user's programs. The active program can't be deleted.
+ * @returns Whether the program was deleted.
+ */
+export function deleteCustomProgram(programId: string): boolean {
+    if (readStore(STORES.activeProgram)?.programId === programId) {
+        showToast('Это ваша активная программа. Сначала завершите её или выберите другую.');
+        return false;
+    }
+    if (!confirm('Удалить эту программу? История её прохождения сохранится.')) return false;
+    updateStore(STORES.customPrograms, programs => programs.filter(p => p.id !== programId));
+    showToast('Программа удалена');
+    return true;
+}
+
+/**
+ * Shares a program's code through the device's share sheet, or copies it to the clipboard.
+ */
+export async function shareProgram(program: state.Program) {
+    const code = encodeProgram(program);
+    const text = `Программа тренировок «${program.title}» для AhavatFit. Откройте «Программы» → «Создать свою» и вставьте код:\n${code}`;
+    try {
+        if (navigator.share) {
+            await navigator.share({ title: program.title, text });
+        } else {
+            await navigator.clipboard.writeText(text);
+            showToast('Код программы скопирован');
+        }
+    } catch (e) {
+        // The user closing the share sheet is not an error worth reporting.
+        if ((e as Error).name !== 'AbortError') showToast('Не удалось поделиться программой');
+    }
+}
@@ -2,7 +2,114 @@
 
 import * as state from './state';
 import * as api from './api';
-import { $, $$, handleAsyncOperation, showToast } from './ui';
+import { $, $$, closeModal, escapeHtml, handleAsyncOperation, showToast } from './ui';
+import { STORES, onStoreWrite, readStore, updateStore, writeStore } from './storage';
+import { addDays, daysBetween, forecastCycles, getLoggedPeriodDays } from './predictions';
+import { rescheduleReminders } from './notifications';
+import {
+    deleteCustomProgram, duplicateProgram, openProgramBuilder, programFromAI, saveCustomProgram, shareProgram, withCustomPrograms
+} from './programbuilder';
+import { generateProgramAI } from './ai';
+import { getAllLogs, getCycleData } from './cycle';
+import { describeGoal, getActiveGoals } from './goals';
+
+// --- DATA TYPES & CONSTANTS ---
+
+export type ProgramSessionStatus = 'done' | 'skipped' | 'missed' | 'today' | 'upcoming';
+
+export interface ProgramSession {
+    key: string; // "w{week}d{day}"
+    week: number;
+    day: number;
+    workoutId: number;
+    title: string;
+    date: string; // When it was done, or when it is (or was) due
+    status: ProgramSessionStatus;
+}
+
+const SESSION_STATUSES: Record<ProgramSessionStatus, { label: string; icon: string }> = {
+    done: { label: 'Выполнено', icon: 'fa-circle-check' },
+    skipped: { label: 'Пропущено', icon: 'fa-forward' },
+    missed: { label: 'Не выполнено', icon: 'fa-circle-exclamation' },
+    today: { label: 'Сегодня', icon: 'fa-circle-play' },
+    upcoming: { label: 'Впереди', icon: 'fa-circle' }
+};
+
+const WEEKDAY_LABELS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+const AI_PROGRAM_WEEKS = [2, 4, 6, 8];
+const AI_PROGRAM_DEFAULT_WEEKDAYS = [1, 3, 5];
+
+// --- SCHEDULE ---
+
+/** Returns the ISO weekday (1 = Monday ... 7 = Sunday) of a YYYY-MM-DD date. */
+function getIsoWeekday(date: string): number {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return day === 0 ? 7 : day;
+}
+
+/**
+ * Returns the day offsets within a program week (0-6, counted from the start date) that fall on
+ * the preferred weekdays, or null when the preference can't hold the busiest week.
+ */
+function getPreferredOffsets(program: state.Program, activeProgram: state.ActiveProgramState): number[] | null {
+    const preferred = activeProgram.preferredWeekdays ?? [];
+    const busiestWeek = Math.max(...program.schedule.map(w => w.days.length));
+    if (preferred.length < busiestWeek) return null;
+    return [0, 1, 2, 3, 4, 5, 6].filter(offset => preferred.includes(getIsoWeekday(addDays(activeProgram.startDate, offset))));
+}
+
+/**
+ * Returns every pause of the program, including an ongoing one that lasts at least until today.
+ * With preferred weekdays, pauses are rounded up to whole weeks so sessions stay on those weekdays.
+ */
+function getPauses(activeProgram: state.ActiveProgramState, todayStr: string, wholeWeeks: boolean): { start: string; days: number }[] {
+    const pauses = [...(activeProgram.pauses ?? [])];
+    if (activeProgram.pausedAt) pauses.push({ start: activeProgram.pausedAt, end: addDays(todayStr, 1) });
+    return pauses
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .map(pause => {
+            const days = daysBetween(pause.start, pause.end);
+            return { start: pause.start, days: wholeWeeks ? Math.ceil(days / 7) * 7 : days };
+        });
+}
+
+/**
+ * Lays the program's sessions out on the calendar. Done sessions keep the date they were done.
+ * The others fall on their week/day slot counted from the start date, or on the preferred weekdays
+ * of that week when the user chose them. Missed-day shifts and pauses then push them back.
+ * @param todayStr The current date (YYYY-MM-DD), used to tell missed sessions from upcoming ones.
+ */
+export function getProgramSessions(program: state.Program, activeProgram: state.ActiveProgramState, todayStr: string): ProgramSession[] {
+    const completed = activeProgram.completedSessions ?? {};
+    const skipped = new Set(activeProgram.skippedSessions ?? []);
+    const preferredOffsets = getPreferredOffsets(program, activeProgram);
+    const pauses = getPauses(activeProgram, todayStr, preferredOffsets !== null);
+
+    return program.schedule.flatMap(week => [...week.days].sort((a, b) => a.day - b.day).map((day, index) => {
+        const key = `w${week.week}d${day.day}`;
+        const dayOffset = preferredOffsets ? preferredOffsets[index] : day.day - 1;
+        let dueDate = addDays(activeProgram.startDate, (week.week - 1) * 7 + dayOffset + (activeProgram.shiftDays ?? 0));
+        for (const pause of pauses) {
+            if (dueDate >= pause.start) dueDate = addDays(dueDate, pause.days);
+        }
+        let status: ProgramSessionStatus;
+        if (completed[key]) status = 'done';
+        else if (skipped.has(key)) status = 'skipped';
+        else if (dueDate < todayStr) status = 'missed';
+        else if (dueDate === todayStr) status = 'today';
+        else status = 'upcoming';
+        return { key, week: week.week, day: day.day, workoutId: day.workoutId, title: day.title ?? '', date: completed[key] ?? dueDate, status };
+    }));
+}
+
+/**
+ * Returns the active program together with its enrolment state, or null if there is none.
+ */
+export function getActiveProgram(): { program: state.Program; activeProgram: state.ActiveProgramState } | null {
+    const activeProgram = readStore(STORES.activeProgram);
+    const program = activeProgram && state.appState.programs.find(p => p.id === activeProgram.programId);
+    return activeProgram && program ? { program, activeProgram } : null;
+}
 
 /**
  * Renders the main programs page.
@@ -15,6 +122,23 @@ export async function renderProgramsPage(setState?: (newState: Partial<state.App
         <div class="card">
             <h3>Выберите свой путь</h3>
             <p>Программы — это структурированные планы тренировок на несколько недель, созданные для достижения конкретных целей. Выберите программу, и мы будем вести вас день за днём.</p>
+            <button class="btn btn-outline" data-program-action="build"><i class="fas fa-plus"></i> Создать свою программу</button>
+        </div>
+        <div class="card ai-program-card">
+            <h3><i class="fas fa-wand-magic-sparkles"></i> Программа от Амины</h3>
+            <p>Амина составит программу с постепенным ростом нагрузки под вашу цель, уровень, свободные дни и прогноз цикла.</p>
+            <div class="form-group">
+                <label for="ai-program-weeks">Длительность</label>
+                <select id="ai-program-weeks" class="form-select">
+                    ${AI_PROGRAM_WEEKS.map(weeks => `<option value="${weeks}" ${weeks === 4 ? 'selected' : ''}>${weeks} недели</option>`).join('')}
+                </select>
+            </div>
+            <label>Дни тренировок</label>
+            <div class="chip-filters" id="ai-program-weekdays">
+                ${WEEKDAY_LABELS.map((label, i) => `
+                    <button class="chip ${AI_PROGRAM_DEFAULT_WEEKDAYS.includes(i + 1) ? 'active' : ''}" data-program-action="toggle-weekday" data-weekday="${i + 1}">${label}</button>`).join('')}
+            </div>
+            <button class="btn" data-program-action="generate"><i class="fas fa-wand-magic-sparkles"></i> Составить программу</button>
         </div>
         <div id="programs-list">
             <div class="card skeleton" style="height: 120px;"></div>
@@ -23,12 +147,12 @@ export async function renderProgramsPage(setState?: (newState: Partial<state.App
     `;
 
     // Load programs if not already in state
-    if (state.appState.programs.length === 0) {
+    if (!state.appState.programs.some(p => !p.custom)) {
         const loadedPrograms = await handleAsyncOperation(api.fetchPrograms, {
             container: $('#programs-list')
         });
         if (loadedPrograms) {
-            state.appState.programs = loadedPrograms;
+            state.appState.programs = withCustomPrograms(loadedPrograms);
         } else {
             return; // Error handled by wrapper
         }
@@ -39,38 +163,159 @@ export async function renderProgramsPage(setState?: (newState: Partial<state.App
 }
 
 /**
- * Renders the list of available programs.
+ * Renders the active program's progress, the list of available programs, and finished programs.
  */
 function renderProgramList() {
     const listContainer = $('#programs-list');
     if (!listContainer) return;
 
-    const activeProgramRaw = localStorage.getItem(state.ACTIVE_PROGRAM_KEY);
-    const activeProgram: state.ActiveProgramState | null = activeProgramRaw ? JSON.parse(activeProgramRaw) : null;
+    const activeProgram = readStore(STORES.activeProgram);
+    const history = readStore(STORES.programHistory);
     
     if (state.appState.programs.length === 0) {
         listContainer.innerHTML = `<p>Программы тренировок скоро появятся здесь.</p>`;
         return;
     }
 
-    listContainer.innerHTML = state.appState.programs.map(program => {
+    const programCards = state.appState.programs.map(program => {
         const isActive = activeProgram?.programId === program.id;
         let cardClass = "card program-card";
         if (isActive) {
             cardClass += " active-program";
+        } else if (history.some(h => h.programId === program.id)) {
+            cardClass += " completed-program";
         }
-        // In a real app, we'd also track completion status
-        // cardClass += isCompleted ? " completed-program" : "";
 
         return `
             <div class="${cardClass}" data-id="${program.id}">
-                <h3>${program.title}</h3>
+                <h3>${escapeHtml(program.title)}</h3>
                 <div class="duration">${program.duration} недели · ${program.schedule[0].days.length} тренировки в неделю</div>
-                <p>${program.description}</p>
+                <p>${escapeHtml(program.description)}</p>
                 ${isActive ? '<span class="active-program-badge">Активная программа</span>' : ''}
+                ${program.custom ? '<span class="custom-program-badge">Своя программа</span>' : ''}
             </div>
         `;
     }).join('');
+
+    listContainer.innerHTML = generateProgramProgress() + programCards + generateProgramHistory(history);
+}
+
+const formatShortDate = (date: string) => new Date(date).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' });
+
+/**
+ * Generates the progress view of the active program: overall progress, missed-session handling,
+ * and every session of the schedule with its status.
+ */
+function generateProgramProgress(): string {
+    const active = getActiveProgram();
+    if (!active) return '';
+    const { program } = active;
+
+    const todayStr = new Date().toISOString().split('T')[0];
+    const { pausedAt, preferredWeekdays = [] } = active.activeProgram;
+    const sessions = getProgramSessions(program, active.activeProgram, todayStr);
+    const done = sessions.filter(s => s.status === 'done').length;
+    const missed = sessions.filter(s => s.status === 'missed').length;
+    const upcoming = sessions.filter(s => s.status === 'today' || s.status === 'upcoming').length;
+
+    const weeksHtml = program.schedule.map(week => `
+        <div class="program-week">
+            <h4>Неделя ${week.week}</h4>
+            ${sessions.filter(s => s.week === week.week).map(session => `
+                <div class="program-session ${session.status}" title="${SESSION_STATUSES[session.status].label}">
+                    <i class="fa-regular ${SESSION_STATUSES[session.status].icon}"></i>
+                    <span class="program-session-date">${formatShortDate(session.date)}</span>
+                    <span>${escapeHtml(session.title)}</span>
+                </div>
+                ${session.status === 'today' ? generateSubstituteHint(session, todayStr) : ''}`).join('')}
+        </div>
+    `).join('');
+
+    return `
+        <div class="card program-progress" id="active-program-progress">
+            <h3>${escapeHtml(program.title)}</h3>
+            <div class="session-progress"><div class="session-progress-bar" style="width: ${(done / sessions.length) * 100}%;"></div></div>
+            <div class="program-progress-stats">
+                <span>Выполнено: ${done} из ${sessions.length}</span>
+                <span>Впереди: ${upcoming}</span>
+                ${missed > 0 ? `<span class="missed">Пропущено: ${missed}</span>` : ''}
+            </div>
+            ${pausedAt ? `
+            <div class="program-missed">
+                <p><i class="fas fa-pause"></i> Программа на паузе с ${formatShortDate(pausedAt)}. Оставшиеся тренировки сдвинутся на время паузы.</p>
+                <button class="btn" data-program-action="resume">Продолжить программу</button>
+            </div>` : ''}
+            ${missed > 0 ? `
+            <div class="program-missed">
+                <p>Не страшно, если что-то пошло не по плану. Сдвиньте расписание, чтобы продолжить с пропущенной тренировки, или пропустите её и идите дальше.</p>
+                <button class="btn" data-program-action="shift">Сдвинуть расписание</button>
+                <button class="btn btn-outline" data-program-action="skip">Пропустить</button>
+            </div>` : ''}
+            ${weeksHtml}
+            <h4>Дни тренировок</h4>
+            <p class="program-weekdays-hint">Выберите не меньше ${Math.max(...program.schedule.map(w => w.days.length))} дней, и тренировки будут приходиться на них.</p>
+            <div class="chip-filters" id="program-weekdays">
+                ${WEEKDAY_LABELS.map((label, i) => `
+                    <button class="chip ${preferredWeekdays.includes(i + 1) ? 'active' : ''}" data-program-action="toggle-weekday" data-weekday="${i + 1}">${label}</button>`).join('')}
+            </div>
+            <button class="btn btn-outline" data-program-action="weekdays">Сохранить дни</button>
+            ${pausedAt ? '' : `<button class="btn btn-outline" data-program-action="pause"><i class="fas fa-pause"></i> Пауза (болезнь, поездка)</button>`}
+            <button class="btn btn-outline" data-program-action="restart" data-id="${program.id}"><i class="fas fa-rotate-left"></i> Начать заново</button>
+        </div>
+    `;
+}
+
+/**
+ * Suggests a gentler workout for today's session on a logged period day.
+ */
+function generateSubstituteHint(session: ProgramSession, todayStr: string): string {
+    const substitute = getPeriodSubstitute(session.workoutId, todayStr);
+    if (!substitute) return '';
+    return `
+        <a href="#" class="program-substitute quick-link" data-page="workouts">
+            <i class="fas fa-feather-alt"></i> Во время менструации лучше выбрать что-то мягче: «${substitute.title}». Она тоже засчитается.
+        </a>`;
+}
+
+function generateProgramHistory(history: state.ProgramHistoryEntry[]): string {
+    if (history.length === 0) return '';
+    return `
+        <div class="card program-history">
+            <h3>Завершённые программы</h3>
+            ${[...history].reverse().map(entry => `
+                <div class="program-history-item">
+                    <div>
+                        <strong>${escapeHtml(entry.title)}</strong>
+                        <span>${formatShortDate(entry.startDate)} – ${formatShortDate(entry.finishedDate)} · ${entry.completedSessions} из ${entry.totalSessions} тренировок</span>
+                    </div>
+                    ${state.appState.programs.some(p => p.id === entry.programId)
+                        ? `<button class="btn btn-outline" data-program-action="restart" data-id="${entry.programId}">Пройти снова</button>`
+                        : ''}
+                </div>`).join('')}
+        </div>
+    `;
+}
+
+/**
+ * Generates a program's title, description and week-by-week schedule, as shown before enrolling.
+ */
+export function generateProgramOverview(program: state.Program): string {
+    const scheduleHtml = program.schedule.map(week => `
+        <div class="week-schedule">
+            <h4>Неделя ${week.week}${week.focus ? ` · ${escapeHtml(week.focus)}` : ''}</h4>
+            <ul>
+                ${week.days.map(day => `<li><span class="day">День ${day.day}:</span> ${escapeHtml(day.title ?? '')}</li>`).join('')}
+                 <li><span class="day">Остальные дни:</span> Отдых или легкая активность</li>
+            </ul>
+        </div>
+    `).join('');
+
+    return `
+        <h3>${escapeHtml(program.title)}</h3>
+        <p class="duration">Продолжительность: ${program.duration} недели</p>
+        <p>${escapeHtml(program.description)}</p>
+        ${scheduleHtml}
+    `;
 }
 
 /**
@@ -83,45 +328,70 @@ export function showProgramDetailModal(programId: string) {
         showToast("Программа не найдена");
         return;
     }
+    showProgramDetail(program);
+}
 
+/**
+ * Fills and opens the program detail modal.
+ * @param generatedFor For a program just generated by the AI coach and not saved yet, the weekdays
+ * it was planned for. Enrolling saves it first and keeps sessions on those weekdays.
+ */
+function showProgramDetail(program: state.Program, generatedFor?: number[]) {
     const modal = $('#program-detail-modal');
     const content = $('#program-detail-content');
     if (!modal || !content) return;
 
-    const scheduleHtml = program.schedule.map(week => `
-        <div class="week-schedule">
-            <h4>Неделя ${week.week}</h4>
-            <ul>
-                ${week.days.map(day => `<li><span class="day">День ${day.day}:</span> ${day.title}</li>`).join('')}
-                 <li><span class="day">Остальные дни:</span> Отдых или легкая активность</li>
-            </ul>
-        </div>
-    `).join('');
-
     content.innerHTML = `
-        <h3>${program.title}</h3>
-        <p class="duration">Продолжительность: ${program.duration} недели</p>
-        <p>${program.description}</p>
-        ${scheduleHtml}
+        ${generateProgramOverview(program)}
         <button class="btn" id="enroll-program-btn" data-id="${program.id}">Начать эту программу</button>
+        <div class="program-detail-actions">
+            ${generatedFor ? `
+            <button class="btn btn-outline" data-detail-action="save"><i class="fas fa-floppy-disk"></i> Сохранить</button>
+            <button class="btn btn-outline" data-detail-action="edit"><i class="fas fa-pen"></i> Изменить</button>` : program.custom ? `
+            <button class="btn btn-outline" data-detail-action="edit"><i class="fas fa-pen"></i> Изменить</button>
+            <button class="btn btn-outline" data-detail-action="share"><i class="fas fa-share-nodes"></i> Поделиться</button>` : ''}
+            ${generatedFor ? '' : `<button class="btn btn-outline" data-detail-action="duplicate"><i class="fas fa-clone"></i> Дублировать</button>`}
+            ${program.custom && !generatedFor ? `<button class="btn btn-outline" data-detail-action="delete"><i class="fas fa-trash"></i> Удалить</button>` : ''}
+        </div>
     `;
 
     modal.style.display = 'flex';
     setTimeout(() => modal.classList.add('show'), 10);
 
-    $('#enroll-program-btn')?.addEventListener('click', () => enrollInProgram(programId), { once: true });
+    $('#enroll-program-btn')?.addEventListener('click', () => {
+        if (generatedFor) enrollInProgram(saveCustomProgram(program).id, generatedFor);
+        else enrollInProgram(program.id);
+    }, { once: true });
+    content.querySelector('.program-detail-actions')?.addEventListener('click', e => {
+        const action = (e.target as HTMLElement).closest<HTMLElement>('[data-detail-action]')?.dataset.detailAction;
+        if (action === 'save') {
+            saveCustomProgram(program);
+            closeModal();
+            showToast(`Программа «${program.title}» сохранена`);
+        } else if (action === 'share') {
+            shareProgram(program);
+        } else if (action === 'delete') {
+            if (deleteCustomProgram(program.id)) closeModal();
+        } else if (action === 'edit' || action === 'duplicate') {
+            closeModal();
+            if (action === 'edit') openProgramBuilder(program);
+            else duplicateProgram(program);
+        }
+    });
 }
 
 /**
- * Enrolls the user in a program and saves it to localStorage.
+ * Enrolls the user in a program and saves it to storage.
  * @param programId The ID of the program to enroll in.
+ * @param preferredWeekdays Weekdays to put the sessions on, if already known.
  */
-function enrollInProgram(programId: string) {
+function enrollInProgram(programId: string, preferredWeekdays?: number[]) {
     const activeProgram: state.ActiveProgramState = {
         programId: programId,
-        startDate: new Date().toISOString().split('T')[0]
+        startDate: new Date().toISOString().split('T')[0],
+        ...(preferredWeekdays && { preferredWeekdays })
     };
-    localStorage.setItem(state.ACTIVE_PROGRAM_KEY, JSON.stringify(activeProgram));
+    writeStore(STORES.activeProgram, activeProgram);
     
     showToast("Вы успешно записались на программу!");
     
@@ -140,49 +410,268 @@ function enrollInProgram(programId: string) {
 }
 
 /**
- * Calculates the difference in days between two date strings.
+ * Gets the scheduled workout for today based on the active program.
+ * @returns The workout object for today, or null if no program is active or no workout is scheduled.
+ */
+export async function getWorkoutForToday(): Promise<state.Workout | null> {
+    const active = getActiveProgram();
+    if (!active) return null;
+
+    const todayStr = new Date().toISOString().split('T')[0];
+    const todaysSession = getProgramSessions(active.program, active.activeProgram, todayStr)
+        .find(s => s.date === todayStr && s.status !== 'skipped');
+    if (!todaysSession) return null; // Rest day
+
+    // We need to fetch the full workout details
+    if (state.appState.workouts.length === 0) {
+        state.appState.workouts = await api.fetchWorkouts();
+    }
+    
+    return getPeriodSubstitute(todaysSession.workoutId, todayStr)
+        ?? state.appState.workouts.find(w => w.id === todaysSession.workoutId)
+        ?? null;
+}
+
+/**
+ * Picks a lighter workout to do instead of a scheduled one on a logged period day: a low-intensity
+ * workout of the same category if there is one, otherwise a gentle stretch.
+ * @returns The substitute, or null if it isn't a period day or the workout is already gentle.
  */
-function daysBetween(date1Str: string, date2Str: string): number {
-    const d1 = new Date(date1Str);
-    const d2 = new Date(date2Str);
-    d1.setHours(0, 0, 0, 0);
-    d2.setHours(0, 0, 0, 0);
-    return Math.round((d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24));
+export function getPeriodSubstitute(workoutId: number, date: string): state.Workout | null {
+    if (!getLoggedPeriodDays(readStore(STORES.cycleLog)).has(date)) return null;
+    const workout = state.appState.workouts.find(w => w.id === workoutId);
+    if (!workout || (workout.intensity ?? 'moderate') === 'low') return null;
+
+    const gentle = state.appState.workouts.filter(w => w.intensity === 'low');
+    return gentle.find(w => w.category === workout.category)
+        ?? gentle.find(w => w.category === 'Растяжка')
+        ?? gentle[0]
+        ?? null;
 }
 
+// --- PROGRESS TRACKING ---
+
 /**
- * Gets the scheduled workout for today based on the active program.
- * @returns The workout object for today, or null if no program is active or no workout is scheduled.
+ * Marks the active program's session as done when the workout it asks for (or its period-day
+ * substitute) is completed on its day. Called whenever a workout is logged.
  */
-export async function getWorkoutForToday(): Promise<state.Workout | null> {
-    const activeProgramRaw = localStorage.getItem(state.ACTIVE_PROGRAM_KEY);
-    if (!activeProgramRaw) return null;
+export function markProgramSessionDone(workoutId: number, date: string) {
+    const active = getActiveProgram();
+    if (!active) return;
+
+    const session = getProgramSessions(active.program, active.activeProgram, date)
+        .find(s => s.status === 'today' && (s.workoutId === workoutId || getPeriodSubstitute(s.workoutId, date)?.id === workoutId));
+    if (!session) return;
 
-    const activeProgram: state.ActiveProgramState = JSON.parse(activeProgramRaw);
-    const program = state.appState.programs.find(p => p.id === activeProgram.programId);
-    if (!program) return null;
+    const activeProgram = updateStore(STORES.activeProgram, current => current && ({
+        ...current,
+        completedSessions: { ...current.completedSessions, [session.key]: date }
+    }));
+    state.globalUIState.programsPageInitialized = false;
+    if (activeProgram) finishProgramIfComplete(active.program, activeProgram, date);
+}
 
+/**
+ * Moves the program to the history and celebrates once every session is done or skipped.
+ */
+function finishProgramIfComplete(program: state.Program, activeProgram: state.ActiveProgramState, todayStr: string) {
+    const sessions = getProgramSessions(program, activeProgram, todayStr);
+    if (!sessions.every(s => s.status === 'done' || s.status === 'skipped')) return;
+
+    const entry: state.ProgramHistoryEntry = {
+        programId: program.id,
+        title: program.title,
+        startDate: activeProgram.startDate,
+        finishedDate: todayStr,
+        completedSessions: sessions.filter(s => s.status === 'done').length,
+        totalSessions: sessions.length
+    };
+    updateStore(STORES.programHistory, history => [...history, entry]);
+    writeStore(STORES.activeProgram, null);
+    state.globalUIState.programsPageInitialized = false;
+    showProgramCompleteModal(entry);
+}
+
+function showProgramCompleteModal(entry: state.ProgramHistoryEntry) {
+    const modal = $('#program-complete-modal');
+    const content = $('#program-complete-content');
+    if (!modal || !content) return;
+
+    content.innerHTML = `
+        <div class="achievement-icon-wrapper">
+            <i class="fas fa-flag-checkered"></i>
+        </div>
+        <h2>Программа завершена!</h2>
+        <p>Вы прошли «${escapeHtml(entry.title)}»: ${entry.completedSessions} из ${entry.totalSessions} тренировок за ${daysBetween(entry.startDate, entry.finishedDate) + 1} дней. Это настоящее достижение — гордитесь собой!</p>
+        <button class="btn" id="program-restart-btn">Пройти снова</button>
+        <button class="btn btn-outline close-btn">Выбрать новую программу</button>
+    `;
+    $('#program-restart-btn')?.addEventListener('click', () => {
+        closeModal();
+        restartProgram(entry.programId);
+    }, { once: true });
+
+    modal.style.display = 'flex';
+    setTimeout(() => modal.classList.add('show'), 10);
+}
+
+/**
+ * Pushes every session not yet done back so that the earliest missed one falls on today, or with
+ * preferred weekdays, on its weekday in the current week or the next.
+ */
+function shiftMissedSessions() {
+    const active = getActiveProgram();
+    if (!active) return;
     const todayStr = new Date().toISOString().split('T')[0];
-    const daysSinceStart = daysBetween(activeProgram.startDate, todayStr);
-    if (daysSinceStart < 0) return null; // Program hasn't started yet
+    const firstMissed = getProgramSessions(active.program, active.activeProgram, todayStr).find(s => s.status === 'missed');
+    if (!firstMissed) return;
 
-    const currentWeekNumber = Math.floor(daysSinceStart / 7) + 1;
-    const currentDayOfWeek = (daysSinceStart % 7) + 1; // 1-indexed day of the week in the program
+    const gap = daysBetween(firstMissed.date, todayStr);
+    const shift = getPreferredOffsets(active.program, active.activeProgram) ? Math.ceil(gap / 7) * 7 : gap;
+    writeStore(STORES.activeProgram, { ...active.activeProgram, shiftDays: (active.activeProgram.shiftDays ?? 0) + shift });
+    showToast(`Расписание сдвинуто на ${shift} дн.`);
+}
 
-    if (currentWeekNumber > program.duration) {
-        // Program finished, maybe clear it? For now, just return null.
-        return null;
+/**
+ * Marks every missed session as skipped, which may finish the program.
+ */
+function skipMissedSessions() {
+    const active = getActiveProgram();
+    if (!active) return;
+    const todayStr = new Date().toISOString().split('T')[0];
+    const missed = getProgramSessions(active.program, active.activeProgram, todayStr).filter(s => s.status === 'missed');
+    if (missed.length === 0) return;
+
+    const activeProgram = { ...active.activeProgram, skippedSessions: [...(active.activeProgram.skippedSessions ?? []), ...missed.map(s => s.key)] };
+    writeStore(STORES.activeProgram, activeProgram);
+    showToast(`Пропущено тренировок: ${missed.length}`);
+    finishProgramIfComplete(active.program, activeProgram, todayStr);
+}
+
+/**
+ * Starts a program again from today with a clean schedule.
+ */
+function restartProgram(programId: string) {
+    const active = readStore(STORES.activeProgram);
+    if (active?.programId === programId && !confirm('Начать программу заново? Отметки о выполненных тренировках будут сброшены.')) return;
+    enrollInProgram(programId);
+}
+
+/**
+ * Pauses the active program, or resumes it. Days spent paused push the remaining sessions back.
+ */
+function setProgramPaused(paused: boolean) {
+    const activeProgram = readStore(STORES.activeProgram);
+    if (!activeProgram || paused === Boolean(activeProgram.pausedAt)) return;
+    const todayStr = new Date().toISOString().split('T')[0];
+
+    if (paused) {
+        writeStore(STORES.activeProgram, { ...activeProgram, pausedAt: todayStr });
+        showToast('Программа на паузе. Возвращайтесь, когда будете готовы.');
+    } else {
+        const { pausedAt, ...rest } = activeProgram;
+        writeStore(STORES.activeProgram, { ...rest, pauses: [...(activeProgram.pauses ?? []), { start: pausedAt!, end: todayStr }] });
+        showToast('С возвращением! Расписание продолжено.');
     }
+}
 
-    const currentWeekSchedule = program.schedule.find(w => w.week === currentWeekNumber);
-    const todaysSchedule = currentWeekSchedule?.days.find(d => d.day === currentDayOfWeek);
+/**
+ * Saves the weekdays picked in the progress view as the days sessions fall on.
+ * Picking none clears the preference; picking fewer than the busiest week needs is rejected.
+ */
+function savePreferredWeekdays(): boolean {
+    const active = getActiveProgram();
+    if (!active) return false;
+    const weekdays = Array.from($$('#program-weekdays .chip.active')).map(chip => Number(chip.dataset.weekday)).sort();
+    const needed = Math.max(...active.program.schedule.map(w => w.days.length));
+    if (weekdays.length > 0 && weekdays.length < needed) {
+        showToast(`Выберите не меньше ${needed} дней в неделю.`);
+        return false;
+    }
 
-    if (!todaysSchedule) return null; // Rest day
+    const { preferredWeekdays, ...rest } = active.activeProgram;
+    writeStore(STORES.activeProgram, weekdays.length > 0 ? { ...rest, preferredWeekdays: weekdays } : rest);
+    showToast('Дни тренировок сохранены');
+    return true;
+}
 
-    // We need to fetch the full workout details
-    if (state.appState.workouts.length === 0) {
-        state.appState.workouts = await api.fetchWorkouts();
+/**
+ * Asks the AI coach for a program fitted to the user's goals, level, chosen weekdays and cycle
+ * forecast, checks it against the catalog and shows it for review.
+ */
+async function generateProgramWithAI(button: HTMLButtonElement) {
+    const weekdays = Array.from($$('#ai-program-weekdays .chip.active')).map(chip => Number(chip.dataset.weekday)).sort();
+    if (weekdays.length < 2) {
+        showToast('Выберите хотя бы 2 дня в неделю.');
+        return;
     }
-    
-    return state.appState.workouts.find(w => w.id === todaysSchedule.workoutId) || null;
-}
\ No newline at end of file
+    const weeks = Number($<HTMLSelectElement>('#ai-program-weeks')?.value) || 4;
+    const todayStr = new Date().toISOString().split('T')[0];
+
+    const label = button.innerHTML;
+    button.disabled = true;
+    button.innerHTML = `<i class="fas fa-spinner fa-spin"></i> Амина составляет программу...`;
+    let proposal;
+    try {
+        if (state.appState.workouts.length === 0) state.appState.workouts = await api.fetchWorkouts();
+        proposal = await generateProgramAI({
+            profile: readStore(STORES.userProfile),
+            goals: getActiveGoals().map(describeGoal),
+            weeks,
+            daysPerWeek: weekdays.length,
+            prediction: forecastCycles(getAllLogs(), getCycleData(), todayStr),
+            availableWorkouts: state.appState.workouts
+        });
+    } catch (error) {
+        console.error("Failed to generate a program:", error);
+        showToast('Не удалось составить программу. Попробуйте позже.');
+        return;
+    } finally {
+        button.disabled = false;
+        button.innerHTML = label;
+    }
+
+    try {
+        showProgramDetail(programFromAI(proposal), weekdays);
+    } catch (error) {
+        showToast((error as Error).message);
+    }
+}
+
+/**
+ * Handles the buttons of the programs page: building and generating programs, progress and history.
+ * @param button The clicked element, carrying `data-program-action` and, for restarts, `data-id`.
+ */
+export function handleProgramAction(button: HTMLElement) {
+    const { programAction: action, id: programId } = button.dataset;
+    if (action === 'toggle-weekday') {
+        button.classList.toggle('active');
+        return;
+    }
+    if (action === 'build') {
+        openProgramBuilder();
+        return;
+    }
+    if (action === 'generate') {
+        generateProgramWithAI(button as HTMLButtonElement);
+        return;
+    }
+
+    if (action === 'shift') shiftMissedSessions();
+    else if (action === 'skip') skipMissedSessions();
+    else if (action === 'pause') setProgramPaused(true);
+    else if (action === 'resume') setProgramPaused(false);
+    else if (action === 'weekdays') { if (!savePreferredWeekdays()) return; }
+    else if (action === 'restart' && programId) restartProgram(programId);
+    else return;
+
+    renderProgramList();
+    rescheduleReminders(); // Today's workout may have changed
+}
+
+// Saving, deleting or syncing the user's own programs updates the list everywhere.
+onStoreWrite(key => {
+    if (key !== state.CUSTOM_PROGRAMS_KEY) return;
+    state.appState.programs = withCustomPrograms(state.appState.programs);
+    renderProgramList();
+});
@@ -1,70 +1,109 @@
 // progress.ts - User Progress Calculation Logic
 
-import * as state from './state';
+import { STORES, readStore } from './storage';
+import { getLoggedWorkoutCalories } from './calories';
+import { addDays, daysBetween, getLoggedPeriodDays } from './predictions';
+import { getActiveProgram, getProgramSessions } from './programs';
+
+export type WorkoutFeeling = 'great' | 'good' | 'ok' | 'tired' | 'bad';
 
 export interface CompletedWorkout {
     workoutId: number;
     date: string; // YYYY-MM-DD
-    duration: number;
-    calories: number;
+    duration: number; // Minutes actually trained
+    calories: number; // Estimated from duration, category and body weight
+    setsCompleted?: number; // Only for guided sessions
+    setsPlanned?: number;
+    rpe?: number; // Perceived exertion, 1-10
+    feeling?: WorkoutFeeling;
+    notes?: string;
 }
 
 /**
- * Retrieves and parses completed workouts from localStorage.
+ * Retrieves completed workouts from storage.
  */
 export function getCompletedWorkouts(): CompletedWorkout[] {
-    const rawData = localStorage.getItem(state.COMPLETED_WORKOUTS_KEY);
-    try {
-        return rawData ? JSON.parse(rawData) : [];
-    } catch (e) {
-        console.error("Failed to parse completed workouts from localStorage:", e);
-        localStorage.removeItem(state.COMPLETED_WORKOUTS_KEY); // Clear corrupted data
-        return [];
-    }
+    return readStore(STORES.completedWorkouts);
 }
 
+export interface StreakSummary {
+    current: number; // Workout days in the running streak
+    longest: number;
+    freezesAvailable: number;
+    freezesEarned: number; // Over the whole history, including ones already used
+    frozenDays: string[]; // Missed days covered by a freeze in the running streak
+    trainedToday: boolean;
+}
+
+/** Consecutive workout days that earn one streak freeze. */
+export const STREAK_FREEZE_EVERY = 7;
+/** The most freezes that can be saved up at once. */
+export const MAX_STREAK_FREEZES = 2;
+
 /**
- * Calculates the user's current workout streak based on consecutive days.
+ * Returns the days between the active program's start and its last session that have no session on them.
+ * Only the active program's calendar is known, so rest days of earlier programs are not excused.
  */
-export function calculateCurrentStreak(completedWorkouts: CompletedWorkout[]): number {
-    if (completedWorkouts.length === 0) return 0;
-
-    // Get unique, sorted dates in descending order
-    const workoutDates = [...new Set(completedWorkouts.map(w => w.date))].sort((a, b) => b.localeCompare(a));
-    
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+export function getProgramRestDays(todayStr: string): Set<string> {
+    const days = new Set<string>();
+    const active = getActiveProgram();
+    if (!active) return days;
 
-    const lastWorkoutDate = new Date(workoutDates[0]);
-    lastWorkoutDate.setHours(0, 0, 0, 0);
+    const sessionDates = new Set(getProgramSessions(active.program, active.activeProgram, todayStr).map(s => s.date));
+    const lastDate = [...sessionDates].sort().pop() ?? active.activeProgram.startDate;
+    for (let day = active.activeProgram.startDate; day <= lastDate; day = addDays(day, 1)) {
+        if (!sessionDates.has(day)) days.add(day);
+    }
+    return days;
+}
 
-    const diff = (today.getTime() - lastWorkoutDate.getTime()) / (1000 * 3600 * 24);
+/**
+ * Replays the workout history day by day to work out the streak. A day with a workout extends it,
+ * an excused day (a scheduled rest day or a logged period day) neither extends nor breaks it, and
+ * a missed day uses up a saved freeze or resets it. Every `STREAK_FREEZE_EVERY` workout days earn
+ * a freeze. Today never breaks the streak, since there's still time to train.
+ * @param workoutDates Dates (YYYY-MM-DD) with at least one completed workout.
+ * @param excusedDays Dates that don't break the streak.
+ * @param todayStr The current date (YYYY-MM-DD).
+ */
+export function calculateStreak(workoutDates: Iterable<string>, excusedDays: Set<string>, todayStr: string): StreakSummary {
+    const trained = new Set(workoutDates);
+    const summary: StreakSummary = { current: 0, longest: 0, freezesAvailable: 0, freezesEarned: 0, frozenDays: [], trainedToday: trained.has(todayStr) };
+    const firstDate = [...trained].sort()[0];
+    if (!firstDate) return summary;
 
-    // If the last workout was more than a day ago, the streak is broken.
-    if (diff > 1) {
-        return 0;
-    }
-    
-    let streak = 1;
-    for (let i = 0; i < workoutDates.length - 1; i++) {
-        const d1 = new Date(workoutDates[i]);
-        const d2 = new Date(workoutDates[i+1]);
-        d1.setHours(0,0,0,0);
-        d2.setHours(0,0,0,0);
-
-        const dayDiff = (d1.getTime() - d2.getTime()) / (1000 * 3600 * 24);
-        
-        if (dayDiff === 1) {
-            streak++;
+    let sinceLastFreeze = 0;
+    for (let day = firstDate; day <= todayStr; day = addDays(day, 1)) {
+        if (trained.has(day)) {
+            summary.current++;
+            summary.longest = Math.max(summary.longest, summary.current);
+            if (++sinceLastFreeze === STREAK_FREEZE_EVERY) {
+                summary.freezesEarned++;
+                summary.freezesAvailable = Math.min(summary.freezesAvailable + 1, MAX_STREAK_FREEZES);
+                sinceLastFreeze = 0;
+            }
+        } else if (excusedDays.has(day) || day === todayStr) {
+            continue;
+        } else if (summary.freezesAvailable > 0) {
+            summary.freezesAvailable--;
+            summary.frozenDays.push(day);
         } else {
-            // A gap of more than one day was found.
-            break;
+            summary.current = 0;
+            summary.frozenDays = [];
+            sinceLastFreeze = 0;
         }
     }
-    
-    return streak;
+    return summary;
 }
 
+/**
+ * Calculates the user's streak, excusing rest days of the active program and logged period days.
+ */
+export function getStreakSummary(completedWorkouts: CompletedWorkout[], todayStr: string = new Date().toISOString().split('T')[0]): StreakSummary {
+    const excusedDays = getLoggedPeriodDays(readStore(STORES.cycleLog));
+    getProgramRestDays(todayStr).forEach(day => excusedDays.add(day));
+    return calculateStreak(completedWorkouts.map(w => w.date), excusedDays, todayStr);
+}
 
 /**
  * Calculates progress for the current week (assuming Monday is the first day).
@@ -88,7 +127,7 @@ export function getWeekProgress(completedWorkouts: CompletedWorkout[]) {
 
     const totalWorkouts = workoutsThisWeek.length;
     const totalMinutes = workoutsThisWeek.reduce((sum, w) => sum + w.duration, 0);
-    const totalCalories = workoutsThisWeek.reduce((sum, w) => sum + w.calories, 0);
+    const totalCalories = workoutsThisWeek.reduce((sum, w) => sum + getLoggedWorkoutCalories(w), 0);
     const totalTimeFormatted = `${Math.floor(totalMinutes / 60)}ч ${totalMinutes % 60}м`;
     
     // Index mapping: 0=Mon, 1=Tue, ..., 6=Sun
@@ -110,37 +149,127 @@ export function getWeekProgress(completedWorkouts: CompletedWorkout[]) {
 }
 
 
+// --- PERIOD PROGRESS ---
+
+export type ProgressPeriod = 'week' | 'month' | 'quarter' | 'all';
+
+export interface ProgressTotals {
+    workouts: number;
+    minutes: number;
+    calories: number;
+}
+
+export interface ProgressBucket extends ProgressTotals {
+    start: string; // YYYY-MM-DD, first day covered by the bucket
+    label: string;
+}
+
+export interface PeriodProgress {
+    period: ProgressPeriod;
+    buckets: ProgressBucket[];
+    totals: ProgressTotals;
+    /** The same stretch of time in the previous period, or null when there's nothing to compare (all time). */
+    previousTotals: ProgressTotals | null;
+}
+
+const WEEKDAY_LABELS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+const MONTH_LABELS = ['янв', 'фев', 'мар', 'апр', 'май', 'июн', 'июл', 'авг', 'сен', 'окт', 'ноя', 'дек'];
+const MONTH_DAYS = 30;
+const QUARTER_WEEKS = 13;
+
+/**
+ * Returns the Monday of the week containing a YYYY-MM-DD date.
+ */
+export function getMonday(dateStr: string): string {
+    const weekday = new Date(dateStr + 'T00:00:00Z').getUTCDay(); // 0=Sun
+    return addDays(dateStr, weekday === 0 ? -6 : 1 - weekday);
+}
+
+function formatDayMonth(dateStr: string): string {
+    const [, month, day] = dateStr.split('-').map(Number);
+    return `${day} ${MONTH_LABELS[month - 1]}`;
+}
+
+function sumTotals(entries: CompletedWorkout[]): ProgressTotals {
+    return {
+        workouts: entries.length,
+        minutes: entries.reduce((sum, w) => sum + w.duration, 0),
+        calories: entries.reduce((sum, w) => sum + getLoggedWorkoutCalories(w), 0)
+    };
+}
+
+function inRange(entries: CompletedWorkout[], start: string, end: string): CompletedWorkout[] {
+    return entries.filter(w => w.date >= start && w.date <= end);
+}
+
 /**
- * Calculates the user's weekly goal completion percentage.
+ * Splits [start, end] into consecutive buckets of `stepDays` days (or calendar months when `stepDays` is 0).
  */
-export function getGoalProgress(weekProgress: ReturnType<typeof getWeekProgress>): number {
-    const goalRaw = localStorage.getItem(state.USER_GOAL_KEY);
-    if (!goalRaw) return 0;
-    
-    let goal;
-    try {
-        goal = JSON.parse(goalRaw);
-    } catch (e) {
-        console.error("Failed to parse user goal from localStorage", e);
-        localStorage.removeItem(state.USER_GOAL_KEY); // Clear corrupted data
-        return 0;
+function buildBuckets(entries: CompletedWorkout[], start: string, end: string, stepDays: number, label: (start: string) => string): ProgressBucket[] {
+    const buckets: ProgressBucket[] = [];
+    let bucketStart = start;
+    while (bucketStart <= end) {
+        let next: string;
+        if (stepDays > 0) {
+            next = addDays(bucketStart, stepDays);
+        } else {
+            const [year, month] = bucketStart.split('-').map(Number);
+            next = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`;
+        }
+        buckets.push({ start: bucketStart, label: label(bucketStart), ...sumTotals(inRange(entries, bucketStart, addDays(next, -1))) });
+        bucketStart = next;
     }
+    return buckets;
+}
 
-    if (!goal.target || goal.target === 0) return 0;
-    
-    let currentProgressValue = 0;
-    switch(goal.type) {
-        case 'workouts':
-            currentProgressValue = weekProgress.totalWorkouts;
+/**
+ * Aggregates completed workouts over a period for the progress chart.
+ * - week: the current Monday-Sunday week, per day, compared with the same days of last week;
+ * - month: the last 30 days, per day, compared with the 30 days before;
+ * - quarter: the last 13 weeks, per week, compared with the 13 weeks before;
+ * - all: every month since the first workout, per month.
+ * @param completedWorkouts All logged workouts.
+ * @param period Which period to aggregate.
+ * @param todayStr Today's date (YYYY-MM-DD).
+ */
+export function getPeriodProgress(completedWorkouts: CompletedWorkout[], period: ProgressPeriod, todayStr: string = new Date().toISOString().split('T')[0]): PeriodProgress {
+    let start: string;
+    let end = todayStr;
+    let buckets: ProgressBucket[];
+    switch (period) {
+        case 'week':
+            start = getMonday(todayStr);
+            end = addDays(start, 6);
+            buckets = buildBuckets(completedWorkouts, start, end, 1, day => WEEKDAY_LABELS[daysBetween(start, day)]);
             break;
-        case 'minutes':
-            currentProgressValue = weekProgress.totalTime;
+        case 'month':
+            start = addDays(todayStr, -(MONTH_DAYS - 1));
+            buckets = buildBuckets(completedWorkouts, start, end, 1, day => String(Number(day.split('-')[2])));
             break;
-        case 'calories':
-            currentProgressValue = weekProgress.totalCalories;
+        case 'quarter':
+            start = addDays(getMonday(todayStr), -(QUARTER_WEEKS - 1) * 7);
+            buckets = buildBuckets(completedWorkouts, start, end, 7, formatDayMonth);
             break;
+        case 'all': {
+            const firstDate = completedWorkouts.reduce((min, w) => w.date < min ? w.date : min, todayStr);
+            start = firstDate.slice(0, 8) + '01';
+            buckets = buildBuckets(completedWorkouts, start, end, 0, month => {
+                const [year, monthNumber] = month.split('-').map(Number);
+                return monthNumber === 1 ? String(year) : MONTH_LABELS[monthNumber - 1];
+            });
+            return { period, buckets, totals: sumTotals(inRange(completedWorkouts, start, end)), previousTotals: null };
+        }
     }
-    
-    const percentage = Math.min(100, Math.round((currentProgressValue / goal.target) * 100));
-    return percentage;
-}
\ No newline at end of file
+
+    // Compare like with like: only as many days of the previous period as have passed in this one.
+    const length = daysBetween(start, end) + 1;
+    const elapsed = Math.min(length, daysBetween(start, todayStr) + 1);
+    const previousStart = addDays(start, -length);
+    return {
+        period,
+        buckets,
+        totals: sumTotals(inRange(completedWorkouts, start, todayStr)),
+        previousTotals: sumTotals(inRange(completedWorkouts, previousStart, addDays(previousStart, elapsed - 1)))
+    };
+}
+
@@ -0,0 +1,321 @@
+// qada.ts - Missed Prayer (Qada) Ledger for AhavatFit
+
+import * as state from './state';
+import { $, showToast } from './ui';
+import { getAllLogs } from './cycle';
+import { PRAYER_NAMES } from './prayertimes';
+import { addDays, daysBetween, getLoggedPeriodDays } from './predictions';
+import { STORES, readStore, updateStore } from './storage';
+
+// --- DATA TYPES & CONSTANTS ---
+
+export interface QadaSummary {
+    outstanding: Record<state.PrayerName, number>; // Make-up prayers still owed, per prayer
+    total: number;
+    missedLogged: number;  // Missed prayers marked in the ledger on non-excused days
+    excusedDays: number;   // Days in the ledger that fell on a logged period
+}
+
+const PRAYERS = Object.keys(PRAYER_NAMES) as state.PrayerName[];
+const DAILY_TARGET_OPTIONS = [1, 2, 3, 5, 10, 15];
+const WEEK_STRIP_DAYS = 7;
+
+let selectedDate: string;
+
+// --- LEDGER LOGIC ---
+
+function getTodayStr(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Calculates the outstanding make-up prayers. Days that fall on a logged period are excused:
+ * prayers missed during menstruation are not owed, so they never count towards the total.
+ */
+export function getQadaSummary(): QadaSummary {
+    const prayerLog = readStore(STORES.prayerLog);
+    const ledger = readStore(STORES.qadaLedger);
+    const periodDays = getLoggedPeriodDays(getAllLogs());
+
+    const missed = Object.fromEntries(PRAYERS.map(p => [p, 0])) as Record<state.PrayerName, number>;
+    let excusedDays = 0;
+    for (const [date, day] of Object.entries(prayerLog)) {
+        if (periodDays.has(date)) {
+            excusedDays++;
+            continue;
+        }
+        PRAYERS.forEach(prayer => { if (day[prayer] === 'missed') missed[prayer]++; });
+    }
+
+    const outstanding = Object.fromEntries(PRAYERS.map(prayer => [
+        prayer,
+        Math.max(0, ledger.priorMissedDays + missed[prayer] - ledger.madeUp[prayer])
+    ])) as Record<state.PrayerName, number>;
+
+    return {
+        outstanding,
+        total: PRAYERS.reduce((sum, p) => sum + outstanding[p], 0),
+        missedLogged: PRAYERS.reduce((sum, p) => sum + missed[p], 0),
+        excusedDays
+    };
+}
+
+/**
+ * Spreads the daily make-up target over the prayers, always picking the one with the most outstanding.
+ * @returns How many make-up prayers of each kind to perform today.
+ */
+export function planTodaysQada(outstanding: Record<state.PrayerName, number>, dailyTarget: number): Partial<Record<state.PrayerName, number>> {
+    const remaining = { ...outstanding };
+    const plan: Partial<Record<state.PrayerName, number>> = {};
+    for (let i = 0; i < dailyTarget; i++) {
+        const next = PRAYERS.reduce((best, p) => remaining[p] > remaining[best] ? p : best, PRAYERS[0]);
+        if (remaining[next] === 0) break;
+        remaining[next]--;
+        plan[next] = (plan[next] || 0) + 1;
+    }
+    return plan;
+}
+
+/**
+ * Marks a prayer for a day. Passing null clears the mark.
+ */
+export function setPrayerStatus(date: string, prayer: state.PrayerName, status: state.PrayerStatus | null) {
+    updateStore(STORES.prayerLog, log => {
+        const day = { ...log[date] };
+        if (status) {
+            day[prayer] = status;
+        } else {
+            delete day[prayer];
+        }
+        if (Object.keys(day).length === 0) {
+            delete log[date];
+        } else {
+            log[date] = day;
+        }
+        return log;
+    });
+}
+
+/**
+ * Records completed make-up prayers (or undoes them with a negative count).
+ */
+export function recordMadeUpPrayers(prayer: state.PrayerName, count: number) {
+    updateStore(STORES.qadaLedger, ledger => {
+        ledger.madeUp[prayer] = Math.max(0, ledger.madeUp[prayer] + count);
+        return ledger;
+    });
+}
+
+// --- UI RENDERING ---
+
+function formatDate(dateStr: string, options: Intl.DateTimeFormatOptions): string {
+    return new Date(dateStr + 'T00:00:00').toLocaleDateString('ru-RU', options);
+}
+
+function renderSummaryCard(summary: QadaSummary, ledger: state.QadaLedger): string {
+    if (summary.total === 0) {
+        return `
+            <div class="card qada-summary-card">
+                <h3>Каза-намазы</h3>
+                <p>Нет пропущенных намазов к восполнению. Альхамдулиллях!</p>
+            </div>`;
+    }
+
+    const daysNeeded = Math.ceil(summary.total / ledger.dailyTarget);
+    const finishDate = formatDate(addDays(getTodayStr(), daysNeeded - 1), { day: 'numeric', month: 'long', year: 'numeric' });
+    const todaysPlan = planTodaysQada(summary.outstanding, ledger.dailyTarget);
+    const todaysPlanText = PRAYERS
+        .filter(p => todaysPlan[p])
+        .map(p => `${PRAYER_NAMES[p]} ×${todaysPlan[p]}`)
+        .join(', ');
+
+    return `
+        <div class="card qada-summary-card">
+            <h3>Каза-намазы</h3>
+            <div class="qada-total">
+                <span class="value">${summary.total}</span>
+                <span class="label">намазов к восполнению</span>
+            </div>
+            <p>По ${ledger.dailyTarget} в день вы восполните всё за ${daysNeeded} дн. — к ${finishDate}.</p>
+            <div class="phase-tip">
+                <i class="fas fa-list-check"></i>
+                <p><strong>План на сегодня:</strong> ${todaysPlanText}. Удобно совершать каза-намаз сразу после обязательного.</p>
+            </div>
+        </div>`;
+}
+
+function renderWeekStrip(prayerLog: Record<string, state.DayPrayerLog>, periodDays: Set<string>): string {
+    const todayStr = getTodayStr();
+    const days: string[] = [];
+    for (let i = WEEK_STRIP_DAYS - 1; i >= 0; i--) days.push(addDays(todayStr, -i));
+
+    return `<div class="qada-week">${days.map(date => {
+        const day = prayerLog[date] || {};
+        const missedCount = PRAYERS.filter(p => day[p] === 'missed').length;
+        const prayedCount = PRAYERS.filter(p => day[p] === 'prayed').length;
+        let status = '';
+        if (periodDays.has(date)) status = '<i class="fas fa-moon" title="Дни менструации"></i>';
+        else if (missedCount > 0) status = `<span class="missed">${missedCount}</span>`;
+        else if (prayedCount === PRAYERS.length) status = '<i class="fas fa-check"></i>';
+        return `
+            <button class="qada-week-day ${date === selectedDate ? 'active' : ''}" data-date="${date}">
+                <span class="weekday">${formatDate(date, { weekday: 'short' })}</span>
+                <span class="day-number">${formatDate(date, { day: 'numeric' })}</span>
+                <span class="status">${status}</span>
+            </button>`;
+    }).join('')}</div>`;
+}
+
+function renderDayCard(prayerLog: Record<string, state.DayPrayerLog>, periodDays: Set<string>): string {
+    const day = prayerLog[selectedDate] || {};
+    const isToday = selectedDate === getTodayStr();
+
+    const body = periodDays.has(selectedDate)
+        ? `<p class="qada-excused"><i class="fas fa-moon"></i> Этот день отмечен в календаре цикла. Во время менструации намаз не совершается и не восполняется.</p>`
+        : PRAYERS.map(prayer => `
+            <div class="settings-item qada-prayer-row">
+                <label>${PRAYER_NAMES[prayer]}</label>
+                <div class="qada-status-buttons">
+                    <button class="chip ${day[prayer] === 'prayed' ? 'active' : ''}" data-prayer="${prayer}" data-status="prayed">Прочитан</button>
+                    <button class="chip ${day[prayer] === 'missed' ? 'active missed' : ''}" data-prayer="${prayer}" data-status="missed">Пропущен</button>
+                </div>
+            </div>`).join('');
+
+    return `
+        <div class="card">
+            <div class="calendar-header">
+                <button class="btn btn-outline" id="qada-prev-day-btn">&lt;</button>
+                <h3>${isToday ? 'Сегодня' : formatDate(selectedDate, { day: 'numeric', month: 'long' })}</h3>
+                <button class="btn btn-outline" id="qada-next-day-btn" ${isToday ? 'disabled' : ''}>&gt;</button>
+            </div>
+            ${renderWeekStrip(prayerLog, periodDays)}
+            ${body}
+        </div>`;
+}
+
+function renderMakeUpCard(summary: QadaSummary, ledger: state.QadaLedger): string {
+    const rows = PRAYERS.map(prayer => `
+        <div class="settings-item">
+            <label>${PRAYER_NAMES[prayer]} <span class="qada-count">${summary.outstanding[prayer]}</span></label>
+            <div class="qada-status-buttons">
+                <button class="btn btn-outline qada-undo-btn" data-prayer="${prayer}" ${ledger.madeUp[prayer] === 0 ? 'disabled' : ''} aria-label="Отменить">−</button>
+                <button class="btn btn-outline qada-made-up-btn" data-prayer="${prayer}" ${summary.outstanding[prayer] === 0 ? 'disabled' : ''}>+1 восполнен</button>
+            </div>
+        </div>`).join('');
+
+    return `
+        <div class="card">
+            <h3>Восполнение</h3>
+            <p class="settings-hint">Отмечайте каждый совершённый каза-намаз.</p>
+            ${rows}
+        </div>`;
+}
+
+function renderSettingsCard(ledger: state.QadaLedger, summary: QadaSummary): string {
+    return `
+        <div class="card">
+            <h3>Настройки плана</h3>
+            <div class="settings-item">
+                <label for="qada-daily-target">Каза-намазов в день</label>
+                <select id="qada-daily-target" class="form-select" style="width: auto;">
+                    ${DAILY_TARGET_OPTIONS.map(n => `<option value="${n}" ${n === ledger.dailyTarget ? 'selected' : ''}>${n}</option>`).join('')}
+                </select>
+            </div>
+            <div class="form-group">
+                <label for="qada-prior-days">Дни пропущенных намазов до начала учёта</label>
+                <input type="number" id="qada-prior-days" class="form-input" min="0" step="1" value="${ledger.priorMissedDays}">
+            </div>
+            <p class="settings-hint">За каждый день к долгу добавляется по одному намазу каждого вида. Дни менструации считать не нужно. Учтено дней цикла: ${summary.excusedDays}.</p>
+        </div>`;
+}
+
+function renderQadaContent() {
+    const content = $('#qada-content');
+    if (!content) return;
+
+    const prayerLog = readStore(STORES.prayerLog);
+    const ledger = readStore(STORES.qadaLedger);
+    const periodDays = getLoggedPeriodDays(getAllLogs());
+    const summary = getQadaSummary();
+
+    content.innerHTML = `
+        ${renderSummaryCard(summary, ledger)}
+        ${renderDayCard(prayerLog, periodDays)}
+        ${summary.total > 0 || PRAYERS.some(p => ledger.madeUp[p] > 0) ? renderMakeUpCard(summary, ledger) : ''}
+        ${renderSettingsCard(ledger, summary)}
+    `;
+}
+
+export function renderQadaPage(setState?: (newState: Partial<state.AppState>) => void) {
+    const container = $('#qada-page .page-content');
+    if (!container) return;
+    state.globalUIState.qadaPageInitialized = true;
+
+    selectedDate = getTodayStr();
+    container.innerHTML = `<div id="qada-content"></div>`;
+    renderQadaContent();
+    setupQadaEventListeners();
+}
+
+// --- EVENT LISTENERS ---
+
+function setupQadaEventListeners() {
+    const content = $('#qada-content');
+    if (!content) return;
+
+    content.addEventListener('click', e => {
+        const target = e.target as HTMLElement;
+
+        const dayButton = target.closest<HTMLElement>('.qada-week-day');
+        if (dayButton?.dataset.date) {
+            selectedDate = dayButton.dataset.date;
+            renderQadaContent();
+            return;
+        }
+        if (target.closest('#qada-prev-day-btn')) {
+            selectedDate = addDays(selectedDate, -1);
+            renderQadaContent();
+            return;
+        }
+        if (target.closest('#qada-next-day-btn')) {
+            if (daysBetween(selectedDate, getTodayStr()) > 0) selectedDate = addDays(selectedDate, 1);
+            renderQadaContent();
+            return;
+        }
+
+        const statusButton = target.closest<HTMLElement>('[data-status]');
+        if (statusButton) {
+            const prayer = statusButton.dataset.prayer as state.PrayerName;
+            const status = statusButton.dataset.status as state.PrayerStatus;
+            const current = readStore(STORES.prayerLog)[selectedDate]?.[prayer];
+            // Tapping the active status again clears it.
+            setPrayerStatus(selectedDate, prayer, current === status ? null : status);
+            state.globalUIState.homePageInitialized = false;
+            renderQadaContent();
+            return;
+        }
+
+        const madeUpButton = target.closest<HTMLElement>('.qada-made-up-btn, .qada-undo-btn');
+        if (madeUpButton?.dataset.prayer) {
+            const prayer = madeUpButton.dataset.prayer as state.PrayerName;
+            const isUndo = madeUpButton.classList.contains('qada-undo-btn');
+            recordMadeUpPrayers(prayer, isUndo ? -1 : 1);
+            if (!isUndo) showToast(`Каза-намаз ${PRAYER_NAMES[prayer]} засчитан. Да примет Аллах!`);
+            state.globalUIState.homePageInitialized = false;
+            renderQadaContent();
+        }
+    });
+
+    content.addEventListener('change', e => {
+        const target = e.target as HTMLInputElement;
+        if (target.id === 'qada-daily-target') {
+            updateStore(STORES.qadaLedger, ledger => ({ ...ledger, dailyTarget: Number(target.value) }));
+            renderQadaContent();
+        } else if (target.id === 'qada-prior-days') {
+            const days = Math.max(0, Math.floor(Number(target.value) || 0));
+            updateStore(STORES.qadaLedger, ledger => ({ ...ledger, priorMissedDays: days }));
+            state.globalUIState.homePageInitialized = false;
+            renderQadaContent();
+        }
+    });
+}
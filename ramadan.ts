@@ -0,0 +1,404 @@
+// ramadan.ts - Ramadan Fasting Log and Missed Fast (Qada) Tracker for AhavatFit
+
+import * as state from './state';
+import { $, showToast } from './ui';
+import { getAllLogs, getCycleData } from './cycle';
+import { DateRange, addDays, daysBetween, forecastCycles, getLoggedPeriodDays } from './predictions';
+import { STORES, readStore, updateStore } from './storage';
+
+// --- DATA TYPES & CONSTANTS ---
+
+export type RamadanDayStatus = 'fasted' | 'missed' | 'excused' | 'upcoming';
+
+export interface RamadanDay {
+    date: string;
+    dayNumber: number;       // 1-30
+    status: RamadanDayStatus;
+    isPeriodDay: boolean;    // Excused automatically because of a logged period
+}
+
+export interface RamadanSummary {
+    hijriYear: number;
+    range: DateRange;
+    days: RamadanDay[];
+    owed: number;            // Missed and excused days
+    madeUp: string[];
+    outstanding: number;
+    deadline: string;        // First day of the next Ramadan
+}
+
+const ISLAMIC_EPOCH_JD = 1948439.5;
+const UNIX_EPOCH_JD = 2440587.5;
+const MS_PER_DAY = 24 * 3600 * 1000;
+const SCHEDULE_PREVIEW_LENGTH = 10;
+
+let selectedHijriYear: number;
+
+// --- HIJRI CALENDAR ---
+
+function jdToDateStr(jd: number): string {
+    return new Date(Math.round((jd - UNIX_EPOCH_JD) * MS_PER_DAY)).toISOString().split('T')[0];
+}
+
+function dateStrToJd(dateStr: string): number {
+    return Date.parse(dateStr + 'T00:00:00Z') / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+/**
+ * Converts a Hijri date with the arithmetic (tabular) Islamic calendar. Usually within a day or two of the sighted calendar.
+ */
+function tabularHijriToDateStr(year: number, month: number, day: number): string {
+    const jd = day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30) + ISLAMIC_EPOCH_JD - 1;
+    return jdToDateStr(jd);
+}
+
+let ummAlQuraFormatter: Intl.DateTimeFormat | null | undefined;
+
+/**
+ * Reads a date in the Umm al-Qura calendar through Intl, or returns null if the browser doesn't support it.
+ */
+function getUmmAlQuraDate(dateStr: string): { year: number; month: number; day: number } | null {
+    if (ummAlQuraFormatter === undefined) {
+        try {
+            const formatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', { timeZone: 'UTC', year: 'numeric', month: 'numeric', day: 'numeric' });
+            ummAlQuraFormatter = formatter.resolvedOptions().calendar === 'islamic-umalqura' ? formatter : null;
+        } catch (e) {
+            ummAlQuraFormatter = null;
+        }
+    }
+    if (!ummAlQuraFormatter) return null;
+
+    const parts = ummAlQuraFormatter.formatToParts(new Date(dateStr + 'T00:00:00Z'));
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '', 10);
+    return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/**
+ * Finds the Gregorian date (YYYY-MM-DD) of a Hijri date, preferring the Umm al-Qura calendar.
+ */
+export function hijriToDateStr(year: number, month: number, day: number): string {
+    const estimate = tabularHijriToDateStr(year, month, day);
+    for (const offset of [0, -1, 1, -2, 2, -3, 3]) {
+        const candidate = addDays(estimate, offset);
+        const hijri = getUmmAlQuraDate(candidate);
+        if (!hijri) break;
+        if (hijri.year === year && hijri.month === month && hijri.day === day) return candidate;
+    }
+    return estimate;
+}
+
+/**
+ * Returns the Hijri year a Gregorian date falls in.
+ */
+export function getHijriYear(dateStr: string): number {
+    return getUmmAlQuraDate(dateStr)?.year
+        ?? Math.floor((30 * (dateStrToJd(dateStr) - ISLAMIC_EPOCH_JD) + 10646) / 10631);
+}
+
+/**
+ * Returns the first and last day of Ramadan for a Hijri year.
+ */
+export function getRamadanRange(hijriYear: number): DateRange {
+    return {
+        start: hijriToDateStr(hijriYear, 9, 1),
+        end: addDays(hijriToDateStr(hijriYear, 10, 1), -1)
+    };
+}
+
+/**
+ * Returns the Hijri year of the current Ramadan, or of the last one if it hasn't started yet this year.
+ */
+export function getLatestRamadanYear(todayStr: string): number {
+    const year = getHijriYear(todayStr);
+    return todayStr >= getRamadanRange(year).start ? year : year - 1;
+}
+
+/**
+ * Days on which fasting is forbidden: Eid al-Fitr and Eid al-Adha with the days of Tashriq.
+ */
+function getForbiddenFastDays(hijriYear: number): Set<string> {
+    const eidAlAdha = hijriToDateStr(hijriYear, 12, 10);
+    return new Set([
+        hijriToDateStr(hijriYear, 10, 1),
+        eidAlAdha, addDays(eidAlAdha, 1), addDays(eidAlAdha, 2), addDays(eidAlAdha, 3)
+    ]);
+}
+
+// --- FAST LEDGER ---
+
+function getTodayStr(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+function getYearLog(hijriYear: number): state.RamadanYearLog {
+    return readStore(STORES.ramadanLog)[hijriYear] || { days: {}, madeUp: [] };
+}
+
+function updateYearLog(hijriYear: number, updateFn: (log: state.RamadanYearLog) => state.RamadanYearLog) {
+    updateStore(STORES.ramadanLog, allYears => ({
+        ...allYears,
+        [hijriYear]: updateFn(allYears[hijriYear] || { days: {}, madeUp: [] })
+    }));
+}
+
+/**
+ * Builds the fasting summary for one Ramadan. Days that coincide with a logged period are
+ * excused automatically; like missed days, they have to be made up before the next Ramadan.
+ * Only make-up fasts kept after that Ramadan ended count towards it.
+ */
+export function getRamadanSummary(hijriYear: number, todayStr: string = getTodayStr()): RamadanSummary {
+    const range = getRamadanRange(hijriYear);
+    const yearLog = getYearLog(hijriYear);
+    const periodDays = getLoggedPeriodDays(getAllLogs());
+
+    const days: RamadanDay[] = [];
+    for (let date = range.start; date <= range.end; date = addDays(date, 1)) {
+        const isPeriodDay = periodDays.has(date);
+        let status: RamadanDayStatus = yearLog.days[date] || 'fasted';
+        if (isPeriodDay) status = 'excused';
+        else if (date > todayStr) status = 'upcoming';
+        days.push({ date, dayNumber: days.length + 1, status, isPeriodDay });
+    }
+
+    const owed = days.filter(d => d.status === 'missed' || d.status === 'excused').length;
+    const madeUp = yearLog.madeUp.filter(date => date > range.end);
+    return {
+        hijriYear,
+        range,
+        days,
+        owed,
+        madeUp,
+        outstanding: Math.max(0, owed - madeUp.length),
+        deadline: getRamadanRange(hijriYear + 1).start
+    };
+}
+
+/**
+ * Counts fasts still to be made up across every Ramadan in the log, every Ramadan with a logged
+ * period day (those days are excused even if the Ramadan page was never opened) and the most recent one.
+ */
+export function getOutstandingFasts(todayStr: string = getTodayStr()): number {
+    const latestYear = getLatestRamadanYear(todayStr);
+    const years = new Set(Object.keys(readStore(STORES.ramadanLog)).map(Number));
+    years.add(latestYear);
+    getLoggedPeriodDays(getAllLogs()).forEach(date => {
+        const year = getHijriYear(date);
+        const range = getRamadanRange(year);
+        if (year <= latestYear && date >= range.start && date <= range.end) years.add(year);
+    });
+    let total = 0;
+    years.forEach(year => { total += getRamadanSummary(year, todayStr).outstanding; });
+    return total;
+}
+
+/**
+ * Suggests dates for the outstanding make-up fasts before the deadline. Prefers the sunnah fasting days
+ * (Monday and Thursday), and skips Eid days and the user's predicted period days.
+ */
+export function suggestMakeUpSchedule(summary: RamadanSummary, todayStr: string = getTodayStr()): string[] {
+    if (summary.outstanding === 0) return [];
+
+    const forecast = forecastCycles(getAllLogs(), getCycleData(), todayStr, 12);
+    const unavailable = new Set([...getForbiddenFastDays(summary.hijriYear), ...summary.madeUp]);
+    forecast?.cycles.forEach(cycle => {
+        for (let date = cycle.periodStart; date <= cycle.periodEnd; date = addDays(date, 1)) unavailable.add(date);
+    });
+
+    const firstDay = [addDays(summary.range.end, 1), addDays(todayStr, 1)].sort()[1];
+    const candidates: string[] = [];
+    for (let date = firstDay; date < summary.deadline; date = addDays(date, 1)) {
+        if (!unavailable.has(date)) candidates.push(date);
+    }
+
+    const isSunnahDay = (date: string) => [1, 4].includes(new Date(date + 'T00:00:00Z').getUTCDay());
+    const preferred = candidates.filter(isSunnahDay);
+    const schedule = preferred.length >= summary.outstanding
+        ? preferred.slice(0, summary.outstanding)
+        : [...preferred, ...candidates.filter(d => !isSunnahDay(d)).slice(0, summary.outstanding - preferred.length)];
+    return schedule.sort();
+}
+
+/**
+ * Checks a date the user wants to record as a make-up fast for one Ramadan.
+ * @returns A message describing the problem, or null if the date can be recorded.
+ */
+function checkMakeUpDate(hijriYear: number, date: string, todayStr: string): string | null {
+    if (date > todayStr) return 'Отметить можно только уже восполненный пост.';
+    if (date <= getRamadanRange(hijriYear).end) return 'Восполнять пост можно только после окончания Рамадана.';
+    if (getForbiddenFastDays(getHijriYear(date)).has(date)) return 'В праздничные дни поститься нельзя.';
+    const recordedFor = Object.entries(readStore(STORES.ramadanLog)).find(([, log]) => log.madeUp.includes(date));
+    if (recordedFor) {
+        return Number(recordedFor[0]) === hijriYear ? 'Этот день уже отмечен.' : `Этот день уже засчитан за Рамадан ${recordedFor[0]}.`;
+    }
+    return null;
+}
+
+/**
+ * Cycles a Ramadan day through fasted → missed → excused.
+ */
+function toggleFastStatus(hijriYear: number, date: string) {
+    updateYearLog(hijriYear, log => {
+        const days = { ...log.days };
+        const current = days[date];
+        if (!current) days[date] = 'missed';
+        else if (current === 'missed') days[date] = 'excused';
+        else delete days[date];
+        return { ...log, days };
+    });
+}
+
+// --- UI RENDERING ---
+
+function formatDate(dateStr: string, options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'long' }): string {
+    return new Date(dateStr + 'T00:00:00').toLocaleDateString('ru-RU', options);
+}
+
+const DAY_STATUS_ICONS: Record<RamadanDayStatus, string> = {
+    fasted: '<i class="fas fa-check"></i>',
+    missed: '<i class="fas fa-xmark"></i>',
+    excused: '<i class="fas fa-moon"></i>',
+    upcoming: ''
+};
+
+function renderSummaryCard(summary: RamadanSummary, latestYear: number): string {
+    const deadlineDays = daysBetween(getTodayStr(), summary.deadline);
+    const deadlineText = summary.outstanding === 0
+        ? (summary.owed > 0 ? 'Все пропущенные посты восполнены. Да примет Аллах!' : 'Пропущенных постов нет.')
+        : `Восполнить до ${formatDate(summary.deadline, { day: 'numeric', month: 'long', year: 'numeric' })}` +
+          (deadlineDays > 0 ? ` — осталось ${deadlineDays} дн.` : ' — срок прошёл, восполните как можно скорее.');
+
+    return `
+        <div class="card qada-summary-card">
+            <div class="calendar-header">
+                <button class="btn btn-outline" id="ramadan-prev-year-btn">&lt;</button>
+                <h3>Рамадан ${summary.hijriYear}</h3>
+                <button class="btn btn-outline" id="ramadan-next-year-btn" ${summary.hijriYear >= latestYear ? 'disabled' : ''}>&gt;</button>
+            </div>
+            <p class="settings-hint">${formatDate(summary.range.start)} – ${formatDate(summary.range.end, { day: 'numeric', month: 'long', year: 'numeric' })}</p>
+            <div class="qada-total">
+                <span class="value">${summary.outstanding}</span>
+                <span class="label">постов к восполнению (пропущено ${summary.owed}, восполнено ${summary.madeUp.length})</span>
+            </div>
+            <p>${deadlineText}</p>
+        </div>`;
+}
+
+function renderDaysCard(summary: RamadanSummary): string {
+    const cells = summary.days.map(day => `
+        <button class="ramadan-day ${day.status}" data-date="${day.date}" ${day.status === 'upcoming' || day.isPeriodDay ? 'disabled' : ''}
+            title="${formatDate(day.date)}">
+            <span class="day-number">${day.dayNumber}</span>
+            <span class="status">${DAY_STATUS_ICONS[day.status]}</span>
+        </button>`).join('');
+
+    return `
+        <div class="card">
+            <h3>Дни поста</h3>
+            <p class="settings-hint">Нажмите на день, чтобы отметить пропуск или уважительную причину (болезнь, поездка). Дни месячных из календаря цикла отмечаются автоматически.</p>
+            <div class="ramadan-days">${cells}</div>
+            <div class="calendar-legend">
+                <span class="legend-item">${DAY_STATUS_ICONS.fasted} Держала пост</span>
+                <span class="legend-item">${DAY_STATUS_ICONS.missed} Пропущен</span>
+                <span class="legend-item">${DAY_STATUS_ICONS.excused} Уважительная причина</span>
+            </div>
+        </div>`;
+}
+
+function renderMakeUpCard(summary: RamadanSummary): string {
+    if (summary.owed === 0) return '';
+    const schedule = suggestMakeUpSchedule(summary);
+    const madeUpList = [...summary.madeUp].sort().map(date => `
+        <div class="settings-item">
+            <label>${formatDate(date, { day: 'numeric', month: 'long', year: 'numeric' })}</label>
+            <button class="btn btn-outline ramadan-remove-made-up-btn" data-date="${date}" aria-label="Удалить">×</button>
+        </div>`).join('');
+
+    return `
+        <div class="card">
+            <h3>Восполнение</h3>
+            <div class="form-group">
+                <label for="ramadan-made-up-date">Дата восполненного поста</label>
+                <input type="date" id="ramadan-made-up-date" class="form-input" value="${getTodayStr()}" min="${addDays(summary.range.end, 1)}" max="${getTodayStr()}">
+            </div>
+            <button id="ramadan-add-made-up-btn" class="btn" ${summary.outstanding === 0 ? 'disabled' : ''}>Отметить пост</button>
+            ${madeUpList}
+        </div>
+        ${schedule.length > 0 ? `
+        <div class="card">
+            <h3>Предлагаемый график</h3>
+            <p class="settings-hint">Понедельники и четверги — дни, в которые пророк ﷺ любил поститься. Праздники и прогнозируемые дни месячных исключены.</p>
+            <p>${schedule.slice(0, SCHEDULE_PREVIEW_LENGTH).map(date => formatDate(date, { weekday: 'short', day: 'numeric', month: 'short' })).join(', ')}${schedule.length > SCHEDULE_PREVIEW_LENGTH ? ` и ещё ${schedule.length - SCHEDULE_PREVIEW_LENGTH}` : ''}</p>
+            ${schedule.length < summary.outstanding ? `<p class="settings-hint">До следующего Рамадана не хватает дней для всех постов — восполните оставшиеся позже.</p>` : ''}
+        </div>` : ''}`;
+}
+
+function renderRamadanContent() {
+    const content = $('#ramadan-content');
+    if (!content) return;
+    const summary = getRamadanSummary(selectedHijriYear);
+    content.innerHTML = `
+        ${renderSummaryCard(summary, getLatestRamadanYear(getTodayStr()))}
+        ${renderDaysCard(summary)}
+        ${renderMakeUpCard(summary)}
+    `;
+}
+
+export function renderRamadanPage(setState?: (newState: Partial<state.AppState>) => void) {
+    const container = $('#ramadan-page .page-content');
+    if (!container) return;
+    state.globalUIState.ramadanPageInitialized = true;
+
+    selectedHijriYear = getLatestRamadanYear(getTodayStr());
+    container.innerHTML = `<div id="ramadan-content"></div>`;
+    renderRamadanContent();
+    setupRamadanEventListeners();
+}
+
+// --- EVENT LISTENERS ---
+
+function setupRamadanEventListeners() {
+    $('#ramadan-content')?.addEventListener('click', e => {
+        const target = e.target as HTMLElement;
+
+        if (target.closest('#ramadan-prev-year-btn')) {
+            selectedHijriYear--;
+            renderRamadanContent();
+            return;
+        }
+        if (target.closest('#ramadan-next-year-btn')) {
+            selectedHijriYear = Math.min(selectedHijriYear + 1, getLatestRamadanYear(getTodayStr()));
+            renderRamadanContent();
+            return;
+        }
+
+        const dayButton = target.closest<HTMLButtonElement>('.ramadan-day');
+        if (dayButton?.dataset.date && !dayButton.disabled) {
+            toggleFastStatus(selectedHijriYear, dayButton.dataset.date);
+            state.globalUIState.homePageInitialized = false;
+            renderRamadanContent();
+            return;
+        }
+
+        if (target.closest('#ramadan-add-made-up-btn')) {
+            const date = $<HTMLInputElement>('#ramadan-made-up-date')?.value;
+            if (!date) return;
+            const problem = checkMakeUpDate(selectedHijriYear, date, getTodayStr());
+            if (problem) {
+                showToast(problem);
+                return;
+            }
+            updateYearLog(selectedHijriYear, log => ({ ...log, madeUp: [...log.madeUp, date] }));
+            showToast('Пост засчитан. Да примет Аллах!');
+            state.globalUIState.homePageInitialized = false;
+            renderRamadanContent();
+            return;
+        }
+
+        const removeButton = target.closest<HTMLElement>('.ramadan-remove-made-up-btn');
+        if (removeButton?.dataset.date) {
+            updateYearLog(selectedHijriYear, log => ({ ...log, madeUp: log.madeUp.filter(d => d !== removeButton.dataset.date) }));
+            state.globalUIState.homePageInitialized = false;
+            renderRamadanContent();
+        }
+    });
+}
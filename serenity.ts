@@ -3,17 +3,10 @@
 import * as state from './state';
 import { $, handleAsyncOperation, formatTime } from './ui';
 import * as api from './api'; // Phase IV: Import the new API layer
+import { STORES, updateStore } from './storage';
+import { generateFavoriteButton, generatePlaylistAddButton } from './favorites';
 
-interface Meditation {
-    id: number;
-    title: string;
-    description: string;
-    duration: number; // in minutes
-    icon: string;
-    audioUrl: string;
-}
-
-let meditations: Meditation[] = [];
+let meditations: state.Meditation[] = [];
 
 export async function renderSerenityPage(setState?: (newState: Partial<state.AppState>) => void) {
     const container = $('#serenity-page .page-content');
@@ -40,14 +33,18 @@ export async function renderSerenityPage(setState?: (newState: Partial<state.App
     state.globalUIState.serenityPageInitialized = true;
 }
 
-async function loadMeditations() {
-    if (meditations.length > 0) return;
+/**
+ * Loads the meditation catalog once and returns it. An empty list means it couldn't be loaded.
+ */
+export async function loadMeditations(): Promise<state.Meditation[]> {
+    if (meditations.length > 0) return meditations;
     
     // Phase IV: Use the API layer to fetch data
     await handleAsyncOperation(async () => {
         const data = await api.fetchMeditations();
         meditations = data;
     });
+    return meditations;
 }
 
 function renderMeditationList() {
@@ -69,13 +66,19 @@ function renderMeditationList() {
     if(firstItem) firstItem.classList.add('active');
 }
 
-function renderAudioPlayer(meditation: Meditation) {
+function renderAudioPlayer(meditation: state.Meditation) {
     const playerContainer = $('#meditation-player-container');
     if (!playerContainer) return;
     
     playerContainer.innerHTML = `
     <div class="card audio-player-card" id="audio-player" data-id="${meditation.id}">
-        <h3>${meditation.title}</h3>
+        <div class="audio-player-header">
+            <h3>${meditation.title}</h3>
+            <div class="item-actions">
+                ${generatePlaylistAddButton('meditation', meditation.id)}
+                ${generateFavoriteButton('meditation', meditation.id)}
+            </div>
+        </div>
         <p class="duration">${meditation.description}</p>
         <audio src="${meditation.audioUrl}" preload="metadata"></audio>
         <div class="audio-player-progress-container">
@@ -111,6 +114,7 @@ function setupPlayerLogic() {
     const togglePlay = () => audio.paused ? audio.play() : audio.pause();
 
     playBtn.addEventListener('click', togglePlay);
+    trackListening(audio, Number(player.dataset.id));
     
     audio.addEventListener('play', () => playIcon.className = 'fas fa-pause');
     audio.addEventListener('pause', () => playIcon.className = 'fas fa-play');
@@ -133,6 +137,35 @@ function setupPlayerLogic() {
 }
 
 
+/**
+ * Logs the minutes actually listened to a meditation whenever playback pauses or ends.
+ * Only time actually listened counts toward meditation goals, so seeking ahead adds nothing.
+ */
+export function trackListening(audio: HTMLMediaElement, meditationId: number) {
+    let listenedSeconds = 0;
+    let lastPosition = 0;
+    const logListenedMinutes = () => {
+        const minutes = Math.floor(listenedSeconds / 60);
+        if (minutes < 1) return;
+        listenedSeconds -= minutes * 60;
+        const session: state.MeditationSession = {
+            meditationId,
+            date: new Date().toISOString().split('T')[0],
+            minutes
+        };
+        updateStore(STORES.meditationLog, log => [...log, session]);
+    };
+
+    // 'pause' also fires when playback reaches the end.
+    audio.addEventListener('pause', logListenedMinutes);
+    audio.addEventListener('seeked', () => lastPosition = audio.currentTime);
+    audio.addEventListener('timeupdate', () => {
+        const delta = audio.currentTime - lastPosition;
+        if (delta > 0 && delta < 2) listenedSeconds += delta;
+        lastPosition = audio.currentTime;
+    });
+}
+
 function setupEventListeners() {
     $('#serenity-page')?.addEventListener('click', (e) => {
         const target = e.target as HTMLElement;
@@ -6,6 +6,25 @@ export interface UserProfile {
     name: string;
     goal: 'lose_weight' | 'gain_muscle' | 'maintain_fitness' | 'improve_endurance';
     level: 'beginner' | 'intermediate' | 'advanced';
+    avatar?: string; // Small square photo as a data URL
+    // Body metrics, used for calorie estimates
+    weight?: number; // kg
+    height?: number; // cm
+    age?: number;
+}
+
+export type WorkoutIntensity = 'low' | 'moderate' | 'high';
+export type WorkoutImpact = 'low' | 'high'; // High impact means jumps and running
+export type WorkoutEquipment = 'mat' | 'dumbbells' | 'resistanceBand' | 'chair';
+export type MuscleGroup = 'fullBody' | 'legs' | 'glutes' | 'core' | 'back' | 'arms' | 'chest';
+
+export interface WorkoutExercise {
+    name: string;
+    sets: number;
+    reps?: number;            // Repetition-based exercise...
+    durationSeconds?: number; // ...or a timed one
+    restSeconds: number;      // Rest after each set
+    notes?: string;
 }
 
 export interface Workout {
@@ -15,8 +34,15 @@ export interface Workout {
     category: string;
     duration: number; // in minutes
     calories: number; // estimated
+    intensity?: WorkoutIntensity; // Defaults to 'moderate'
+    level?: UserProfile['level']; // Who the workout suits best; missing means anyone
+    equipment?: WorkoutEquipment[]; // Missing or empty means no equipment
+    muscleGroups?: MuscleGroup[];
+    impact?: WorkoutImpact; // Defaults to 'low'
+    quiet?: boolean; // No jumping or stomping, fine for an apartment
     videoUrl: string;
     alternativeVideoUrl?: string;
+    exercises?: WorkoutExercise[]; // Enables the guided session player
 }
 
 export interface Recipe {
@@ -47,13 +73,114 @@ export interface CycleLogEntry {
     notes?: string;
 }
 
+export type GoalType = 'workouts' | 'minutes' | 'calories' | 'meditationMinutes' | 'recipesCooked' | 'cycleLogDays' | 'weight';
+export type GoalPeriod = 'day' | 'week' | 'deadline';
+
+export interface UserGoal {
+    id: string;
+    type: GoalType;
+    target: number; // Per day or per week, or the value to reach by the deadline
+    period: GoalPeriod;
+    deadline?: string; // YYYY-MM-DD, for 'deadline' goals
+    startValue?: number; // The measured value when a 'deadline' goal was set
+    createdAt: string; // YYYY-MM-DD
+    archivedAt?: string; // YYYY-MM-DD, once the user has finished with the goal
+}
+
+export interface MeditationSession {
+    meditationId: number;
+    date: string; // YYYY-MM-DD
+    minutes: number;
+}
+
+export interface CookedRecipe {
+    recipeId: number;
+    date: string; // YYYY-MM-DD
+}
+
+export interface Meditation {
+    id: number;
+    title: string;
+    description: string;
+    duration: number; // in minutes
+    icon: string;
+    audioUrl: string;
+}
+
+export type FavoriteKind = 'workout' | 'recipe' | 'meditation';
+
+// Ids of favorited items of each kind, most recently added first.
+export type Favorites = Record<FavoriteKind, number[]>;
+
+export interface PlaylistItem {
+    kind: 'workout' | 'meditation';
+    id: number;
+}
+
+export interface Playlist {
+    id: string;
+    title: string;
+    items: PlaylistItem[]; // Played in this order
+    createdAt: string; // YYYY-MM-DD
+}
+
+export interface PrayerReminderSettings {
+    enabled: boolean;
+    offset: number; // Minutes before the prayer time; 0 = at the prayer time
+}
+
+// Prayer times themselves are calculated from the location settings (see prayertimes.ts).
+export interface PrayerSettings {
+    enabled: boolean; // Master switch for all prayer reminders
+    prayers: Record<PrayerName, PrayerReminderSettings>;
+}
+
+export interface ChatMessage {
+    sender: 'user' | 'ai';
+    text: string;
+}
+
+export type PrayerName = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+export type PrayerStatus = 'prayed' | 'missed';
+
+// One day of the prayer ledger; prayers without a status haven't been marked yet.
+export type DayPrayerLog = Partial<Record<PrayerName, PrayerStatus>>;
+
+export interface QadaLedger {
+    priorMissedDays: number;            // Days of prayers missed before the ledger was started
+    madeUp: Record<PrayerName, number>; // Make-up prayers completed so far
+    dailyTarget: number;                // Make-up prayers the user plans to perform each day
+}
+
+// 'excused' covers menstruation, illness and travel; both statuses must be made up later.
+export type FastStatus = 'missed' | 'excused';
+
+export interface RamadanYearLog {
+    days: Record<string, FastStatus>; // Ramadan days (YYYY-MM-DD) that weren't fasted; unmarked days count as fasted
+    madeUp: string[];                 // Dates of completed make-up fasts
+}
+
+export interface ReminderSettings {
+    workout: { enabled: boolean; time: string };  // Daily reminder at HH:MM
+    hydration: { enabled: boolean; intervalHours: number; start: string; end: string }; // Every N hours between HH:MM and HH:MM
+}
+
+export interface PhaseColors {
+    menstruation: string; // Hex colors, e.g. #C89F9F
+    follicular: string;
+    ovulation: string;
+    luteal: string;
+}
+
 export interface Program {
     id: string;
     title: string;
     duration: number; // in weeks
     description: string;
+    custom?: boolean; // Built by the user rather than loaded from the catalog
     schedule: {
         week: number;
+        focus?: string; // What the week works on, e.g. in programs generated by the AI coach
         days: {
             day: number;
             workoutId: number;
@@ -65,6 +192,26 @@ export interface Program {
 export interface ActiveProgramState {
     programId: string;
     startDate: string; // ISO date string YYYY-MM-DD
+    completedSessions?: Record<string, string>; // Session key ("w1d3") -> date it was done
+    skippedSessions?: string[];
+    shiftDays?: number; // How far sessions not yet done were pushed back after missed days
+    pausedAt?: string; // Set while the program is paused
+    pauses?: ProgramPause[]; // Finished pauses
+    preferredWeekdays?: number[]; // 1 = Monday ... 7 = Sunday
+}
+
+export interface ProgramPause {
+    start: string; // First paused day
+    end: string;   // Day the program resumed
+}
+
+export interface ProgramHistoryEntry {
+    programId: string;
+    title: string;
+    startDate: string;
+    finishedDate: string;
+    completedSessions: number;
+    totalSessions: number;
 }
 
 
@@ -97,16 +244,23 @@ export const globalUIState = {
     aiCoachPageInitialized: false,
     profilePageInitialized: false,
     adminPageInitialized: false,
+    qadaPageInitialized: false,
+    ramadanPageInitialized: false,
     isAIProcessing: false,
     isGoalChatProcessing: false,
     isListening: false,
     isSpeaking: false,
     currentWorkout: null as Workout | null,
-    aiChatHistory: [] as { sender: 'user' | 'ai', text: string }[],
+    aiChatHistory: [] as ChatMessage[],
     speechRecognition: null as any,
     speechSynthesis: null as any,
 };
 
+export type GlobalUIState = typeof globalUIState;
+
+// The flags that mark a page as rendered, reset to re-render it on the next visit.
+export type PageInitializedFlag = Extract<keyof GlobalUIState, `${string}Initialized`>;
+
 // --- LOCAL STORAGE KEYS ---
 
 export const USER_PROFILE_KEY = 'ahavatfit_user_profile';
@@ -114,16 +268,83 @@ export const ONBOARDING_COMPLETED_KEY = 'ahavatfit_onboarding_completed';
 export const CYCLE_LOG_DATA_KEY = 'ahavatfit_cycle_log';
 export const CYCLE_SETTINGS_KEY = 'ahavatfit_cycle_settings';
 export const PRAYER_SETTINGS_KEY = 'ahavatfit_prayer_settings';
+export const PRAYER_CALCULATION_KEY = 'ahavatfit_prayer_calculation';
+export const REMINDER_SETTINGS_KEY = 'ahavatfit_reminder_settings';
 export const NUTRITION_LOG_KEY = 'ahavatfit_nutrition_log';
 export const VIEWED_RECIPES_KEY = 'ahavatfit_viewed_recipes';
 export const COMPLETED_WORKOUTS_KEY = 'ahavatfit_completed_workouts';
 export const USER_GOAL_KEY = 'ahavatfit_user_goal';
+export const MEDITATION_LOG_KEY = 'ahavatfit_meditation_log';
+export const COOKED_RECIPES_KEY = 'ahavatfit_cooked_recipes';
 export const AI_CHAT_HISTORY_KEY = 'ahavatfit_ai_chat_history';
 export const ACHIEVEMENTS_KEY = 'ahavatfit_achievements';
 export const COMMUNITY_REACTIONS_KEY = 'ahavatfit_community_reactions';
 export const ACTIVE_PROGRAM_KEY = 'ahavatfit_active_program';
+export const PROGRAM_HISTORY_KEY = 'ahavatfit_program_history';
+export const CUSTOM_PROGRAMS_KEY = 'ahavatfit_custom_programs';
+export const FAVORITES_KEY = 'ahavatfit_favorites';
+export const PLAYLISTS_KEY = 'ahavatfit_playlists';
+export const PHASE_COLORS_KEY = 'ahavatfit_phase_colors';
+export const PRAYER_LOG_KEY = 'ahavatfit_prayer_log';
+export const QADA_LEDGER_KEY = 'ahavatfit_qada_ledger';
+export const RAMADAN_LOG_KEY = 'ahavatfit_ramadan_log';
+export const SENT_REMINDERS_KEY = 'ahavatfit_sent_reminders';
+export const SYNC_META_KEY = 'ahavatfit_sync_meta';
 
 
 // --- CONSTANTS ---
 
-export const WORKOUT_CATEGORIES = ['Силовая', 'Кардио', 'Растяжка', 'Дыхание'];
\ No newline at end of file
+export const WORKOUT_CATEGORIES = ['Силовая', 'Кардио', 'Растяжка', 'Дыхание'];
+
+// The periods each goal type can be measured over; the last one is the default.
+export const GOAL_TYPE_PERIODS: Record<GoalType, GoalPeriod[]> = {
+    workouts: ['week'],
+    minutes: ['day', 'week'],
+    calories: ['day', 'week'],
+    meditationMinutes: ['day', 'week'],
+    recipesCooked: ['week'],
+    cycleLogDays: ['week'],
+    weight: ['deadline']
+};
+
+// Limits for custom programs, which can arrive in share codes from other people.
+export const MAX_PROGRAM_TITLE_LENGTH = 80;
+export const MAX_PROGRAM_DESCRIPTION_LENGTH = 500;
+export const MAX_PROGRAM_WEEKS = 12;
+export const PROGRAM_DAYS_PER_WEEK = 7;
+
+export const PROFILE_GOALS: Record<UserProfile['goal'], string> = {
+    lose_weight: 'Снизить вес',
+    gain_muscle: 'Укрепить мышцы',
+    maintain_fitness: 'Поддерживать форму',
+    improve_endurance: 'Повысить выносливость'
+};
+
+export const FITNESS_LEVELS: Record<UserProfile['level'], string> = {
+    beginner: 'Начинающая',
+    intermediate: 'Средний уровень',
+    advanced: 'Продвинутая'
+};
+
+export const WORKOUT_INTENSITIES: Record<WorkoutIntensity, string> = {
+    low: 'Лёгкая',
+    moderate: 'Средняя',
+    high: 'Высокая'
+};
+
+export const WORKOUT_EQUIPMENT: Record<WorkoutEquipment, string> = {
+    mat: 'Коврик',
+    dumbbells: 'Гантели',
+    resistanceBand: 'Фитнес-резинка',
+    chair: 'Стул'
+};
+
+export const MUSCLE_GROUPS: Record<MuscleGroup, string> = {
+    fullBody: 'Всё тело',
+    legs: 'Ноги',
+    glutes: 'Ягодицы',
+    core: 'Пресс и кор',
+    back: 'Спина',
+    arms: 'Руки',
+    chest: 'Грудь'
+};
\ No newline at end of file
@@ -0,0 +1,634 @@
+// storage.ts - Typed, Versioned localStorage Repository for AhavatFit
+
+import * as state from './state';
+import type { CompletedWorkout } from './progress';
+import type { CycleData } from './cycle';
+import type { PrayerCalculationSettings } from './prayertimes';
+
+// --- TYPES ---
+
+/**
+ * Describes one localStorage store: its key, the current shape version, how to validate it,
+ * and how to upgrade data written by older versions of the app.
+ */
+export interface StoreSchema<T> {
+    key: string;
+    version: number;
+    defaultValue: () => T;
+    /** Returns the value if it matches the current shape (possibly cleaned up), or null if it is unusable. */
+    validate: (data: unknown) => T | null;
+    /** `migrations[n]` upgrades data from version n to n + 1. Missing steps leave the data unchanged. */
+    migrations?: { [fromVersion: number]: (data: unknown) => unknown };
+}
+
+/**
+ * The on-disk envelope. Values written before versioning existed are bare JSON and are treated as version 0.
+ */
+interface StoredEnvelope {
+    schemaVersion: number;
+    data: unknown;
+}
+
+type StoreWriteListener = (key: string) => void;
+
+const writeListeners: StoreWriteListener[] = [];
+
+// --- VALIDATION HELPERS ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Validates every item of an array, dropping the ones that don't match instead of discarding the whole list.
+ */
+function arrayOf<T>(isItem: (item: unknown) => item is T) {
+    return (data: unknown): T[] | null => {
+        if (!Array.isArray(data)) return null;
+        const valid = data.filter(isItem);
+        if (valid.length < data.length) {
+            console.warn(`Dropped ${data.length - valid.length} malformed entries from storage.`);
+        }
+        return valid;
+    };
+}
+
+/**
+ * Validates every value of a keyed record, dropping entries that don't match.
+ */
+function recordOf<T>(isItem: (item: unknown) => item is T) {
+    return (data: unknown): Record<string, T> | null => {
+        if (!isObject(data)) return null;
+        const result: Record<string, T> = {};
+        for (const [key, value] of Object.entries(data)) {
+            if (isItem(value)) result[key] = value;
+        }
+        return result;
+    };
+}
+
+/**
+ * Accepts null or a value matching the guard. Anything else is reported as invalid.
+ */
+function nullable<T>(isItem: (item: unknown) => item is T) {
+    return (data: unknown): T | null => isItem(data) ? data : null;
+}
+
+// --- ENTRY GUARDS ---
+
+const PRAYER_NAMES: state.PrayerName[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+function isUserProfile(value: unknown): value is state.UserProfile {
+    return isObject(value) && isString(value.name) && isString(value.goal) && isString(value.level)
+        && (value.avatar === undefined || isString(value.avatar))
+        && [value.weight, value.height, value.age].every(metric => metric === undefined || isFiniteNumber(metric));
+}
+
+function isCycleLogEntry(value: unknown): value is state.CycleLogEntry {
+    return isObject(value)
+        && (value.period === undefined || ['start', 'flow', 'end'].includes(value.period))
+        && Array.isArray(value.symptoms) && value.symptoms.every(isString)
+        && isString(value.mood)
+        && (value.notes === undefined || isString(value.notes));
+}
+
+function isCycleData(value: unknown): value is CycleData {
+    return isObject(value) && isFiniteNumber(value.cycleLength) && isFiniteNumber(value.periodLength);
+}
+
+function isPrayerSettings(value: unknown): value is state.PrayerSettings {
+    return isObject(value) && typeof value.enabled === 'boolean' && isObject(value.prayers)
+        && PRAYER_NAMES.every(prayer => isObject(value.prayers[prayer])
+            && typeof value.prayers[prayer].enabled === 'boolean' && isFiniteNumber(value.prayers[prayer].offset));
+}
+
+function defaultPrayerReminders(): Record<state.PrayerName, state.PrayerReminderSettings> {
+    return Object.fromEntries(PRAYER_NAMES.map(prayer => [prayer, { enabled: true, offset: 0 }])) as Record<state.PrayerName, state.PrayerReminderSettings>;
+}
+
+function isHexColor(value: unknown): value is string {
+    return isString(value) && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+function isPhaseColors(value: unknown): value is state.PhaseColors {
+    return isObject(value) && isHexColor(value.menstruation) && isHexColor(value.follicular)
+        && isHexColor(value.ovulation) && isHexColor(value.luteal);
+}
+
+const isTimeOfDay = (value: unknown): value is string => isString(value) && /^\d{2}:\d{2}$/.test(value);
+
+function isReminderSettings(value: unknown): value is state.ReminderSettings {
+    const workout = isObject(value) ? value.workout : null;
+    const hydration = isObject(value) ? value.hydration : null;
+    return isObject(workout) && typeof workout.enabled === 'boolean' && isTimeOfDay(workout.time)
+        && isObject(hydration) && typeof hydration.enabled === 'boolean' && isFiniteNumber(hydration.intervalHours) && hydration.intervalHours > 0
+        && isTimeOfDay(hydration.start) && isTimeOfDay(hydration.end);
+}
+
+function isPrayerCalculationSettings(value: unknown): value is PrayerCalculationSettings {
+    const location = isObject(value) ? value.location : null;
+    return isObject(value)
+        && ['mwl', 'isna', 'egypt', 'makkah', 'russia'].includes(value.method)
+        && ['standard', 'hanafi'].includes(value.asrMethod)
+        && ['none', 'angleBased', 'oneSeventh', 'middleOfNight'].includes(value.highLatitudeRule)
+        && isObject(location) && isString(location.name)
+        && isFiniteNumber(location.latitude) && Math.abs(location.latitude) <= 90
+        && isFiniteNumber(location.longitude) && Math.abs(location.longitude) <= 180;
+}
+
+function isDayPrayerLog(value: unknown): value is state.DayPrayerLog {
+    return isObject(value) && Object.entries(value).every(([prayer, status]) =>
+        PRAYER_NAMES.includes(prayer as state.PrayerName) && (status === 'prayed' || status === 'missed'));
+}
+
+function isQadaLedger(value: unknown): value is state.QadaLedger {
+    return isObject(value) && isFiniteNumber(value.priorMissedDays) && isFiniteNumber(value.dailyTarget)
+        && isObject(value.madeUp) && PRAYER_NAMES.every(prayer => isFiniteNumber(value.madeUp[prayer]));
+}
+
+function isRamadanYearLog(value: unknown): value is state.RamadanYearLog {
+    return isObject(value) && Array.isArray(value.madeUp) && value.madeUp.every(isString)
+        && isObject(value.days) && Object.values(value.days).every(status => status === 'missed' || status === 'excused');
+}
+
+function isMealEntry(value: unknown): value is state.MealEntry {
+    const analysis = isObject(value) ? value.aiAnalysis : null;
+    return isObject(value) && isString(value.date) && isString(value.userText)
+        && isObject(analysis) && isString(analysis.feedback)
+        && isFiniteNumber(analysis.calories) && isFiniteNumber(analysis.protein)
+        && isFiniteNumber(analysis.carbs) && isFiniteNumber(analysis.fat);
+}
+
+function isCompletedWorkout(value: unknown): value is CompletedWorkout {
+    return isObject(value) && isFiniteNumber(value.workoutId) && isString(value.date)
+        && isFiniteNumber(value.duration) && isFiniteNumber(value.calories)
+        && (value.setsCompleted === undefined || isFiniteNumber(value.setsCompleted))
+        && (value.setsPlanned === undefined || isFiniteNumber(value.setsPlanned))
+        && (value.rpe === undefined || isFiniteNumber(value.rpe))
+        && (value.feeling === undefined || isString(value.feeling))
+        && (value.notes === undefined || isString(value.notes));
+}
+
+function isUserGoal(value: unknown): value is state.UserGoal {
+    return isObject(value) && isString(value.id) && isFiniteNumber(value.target)
+        && isString(value.type) && Object.prototype.hasOwnProperty.call(state.GOAL_TYPE_PERIODS, value.type)
+        && state.GOAL_TYPE_PERIODS[value.type as state.GoalType].includes(value.period)
+        && isString(value.createdAt)
+        && (value.deadline === undefined || isString(value.deadline))
+        && (value.startValue === undefined || isFiniteNumber(value.startValue))
+        && (value.archivedAt === undefined || isString(value.archivedAt));
+}
+
+function isMeditationSession(value: unknown): value is state.MeditationSession {
+    return isObject(value) && isFiniteNumber(value.meditationId) && isString(value.date) && isFiniteNumber(value.minutes);
+}
+
+function isCookedRecipe(value: unknown): value is state.CookedRecipe {
+    return isObject(value) && isFiniteNumber(value.recipeId) && isString(value.date);
+}
+
+function isChatMessage(value: unknown): value is state.ChatMessage {
+    return isObject(value) && (value.sender === 'user' || value.sender === 'ai') && isString(value.text);
+}
+
+function isActiveProgram(value: unknown): value is state.ActiveProgramState {
+    return isObject(value) && isString(value.programId) && isString(value.startDate)
+        && (value.completedSessions === undefined || (isObject(value.completedSessions) && Object.values(value.completedSessions).every(isString)))
+        && (value.skippedSessions === undefined || (Array.isArray(value.skippedSessions) && value.skippedSessions.every(isString)))
+        && (value.shiftDays === undefined || isFiniteNumber(value.shiftDays))
+        && (value.pausedAt === undefined || isString(value.pausedAt))
+        && (value.pauses === undefined || (Array.isArray(value.pauses) && value.pauses.every(p => isObject(p) && isString(p.start) && isString(p.end))))
+        && (value.preferredWeekdays === undefined || (Array.isArray(value.preferredWeekdays) && value.preferredWeekdays.every(isFiniteNumber)));
+}
+
+function isProgramHistoryEntry(value: unknown): value is state.ProgramHistoryEntry {
+    return isObject(value) && isString(value.programId) && isString(value.title)
+        && isString(value.startDate) && isString(value.finishedDate)
+        && isFiniteNumber(value.completedSessions) && isFiniteNumber(value.totalSessions);
+}
+
+function isProgram(value: unknown): value is state.Program {
+    return isObject(value) && isString(value.id)
+        && isString(value.title) && value.title.length <= state.MAX_PROGRAM_TITLE_LENGTH
+        && isFiniteNumber(value.duration)
+        && isString(value.description) && value.description.length <= state.MAX_PROGRAM_DESCRIPTION_LENGTH
+        && (value.custom === undefined || typeof value.custom === 'boolean')
+        && Array.isArray(value.schedule) && value.schedule.length > 0 && value.schedule.length <= state.MAX_PROGRAM_WEEKS
+        && value.schedule.every(week => isObject(week) && isFiniteNumber(week.week)
+            && (week.focus === undefined || (isString(week.focus) && week.focus.length <= state.MAX_PROGRAM_TITLE_LENGTH))
+            && Array.isArray(week.days) && week.days.every(day => isObject(day)
+                && Number.isInteger(day.day) && day.day >= 1 && day.day <= state.PROGRAM_DAYS_PER_WEEK
+                && isFiniteNumber(day.workoutId)
+                && (day.title === undefined || isString(day.title))));
+}
+
+function isFavorites(value: unknown): value is state.Favorites {
+    return isObject(value) && ['workout', 'recipe', 'meditation'].every(kind =>
+        Array.isArray(value[kind]) && value[kind].every(isFiniteNumber));
+}
+
+function isPlaylist(value: unknown): value is state.Playlist {
+    return isObject(value) && isString(value.id) && isString(value.title) && isString(value.createdAt)
+        && Array.isArray(value.items) && value.items.every(item => isObject(item)
+            && (item.kind === 'workout' || item.kind === 'meditation') && isFiniteNumber(item.id));
+}
+
+// --- STORE SCHEMAS ---
+
+function defineStore<T>(schema: StoreSchema<T>): StoreSchema<T> {
+    return schema;
+}
+
+export const STORES = {
+    userProfile: defineStore<state.UserProfile | null>({
+        key: state.USER_PROFILE_KEY,
+        version: 1,
+        defaultValue: () => null,
+        validate: nullable(isUserProfile),
+    }),
+    onboardingCompleted: defineStore<boolean>({
+        key: state.ONBOARDING_COMPLETED_KEY,
+        version: 1,
+        defaultValue: () => false,
+        validate: (data: unknown) => typeof data === 'boolean' ? data : null,
+    }),
+    cycleLog: defineStore<Record<string, state.CycleLogEntry>>({
+        key: state.CYCLE_LOG_DATA_KEY,
+        version: 1,
+        defaultValue: () => ({}),
+        validate: recordOf(isCycleLogEntry),
+    }),
+    cycleSettings: defineStore<CycleData>({
+        key: state.CYCLE_SETTINGS_KEY,
+        version: 1,
+        defaultValue: () => ({ cycleLength: 28, periodLength: 5 }),
+        validate: (data: unknown) => isCycleData(data) ? data : null,
+    }),
+    prayerSettings: defineStore<state.PrayerSettings>({
+        key: state.PRAYER_SETTINGS_KEY,
+        version: 2,
+        defaultValue: () => ({ enabled: false, prayers: defaultPrayerReminders() }),
+        validate: (data: unknown) => isPrayerSettings(data) ? data : null,
+        migrations: {
+            // v1 only had the master switch and manually entered HH:MM times, which are now calculated.
+            1: (data: unknown) => ({ enabled: isObject(data) && data.enabled === true, prayers: defaultPrayerReminders() }),
+        },
+    }),
+    reminderSettings: defineStore<state.ReminderSettings>({
+        key: state.REMINDER_SETTINGS_KEY,
+        version: 1,
+        defaultValue: () => ({
+            workout: { enabled: false, time: '18:00' },
+            hydration: { enabled: false, intervalHours: 2, start: '09:00', end: '21:00' }
+        }),
+        validate: (data: unknown) => isReminderSettings(data) ? data : null,
+    }),
+    prayerCalculation: defineStore<PrayerCalculationSettings>({
+        key: state.PRAYER_CALCULATION_KEY,
+        version: 1,
+        defaultValue: () => ({
+            method: 'russia',
+            asrMethod: 'standard',
+            highLatitudeRule: 'angleBased',
+            location: { name: 'Москва', latitude: 55.7558, longitude: 37.6173 }
+        }),
+        validate: (data: unknown) => isPrayerCalculationSettings(data) ? data : null,
+    }),
+    phaseColors: defineStore<state.PhaseColors>({
+        key: state.PHASE_COLORS_KEY,
+        version: 1,
+        defaultValue: () => ({ menstruation: '#C89F9F', follicular: '#E5D6C4', ovulation: '#A6C4B4', luteal: '#8E9DBF' }),
+        validate: (data: unknown) => isPhaseColors(data) ? data : null,
+    }),
+    prayerLog: defineStore<Record<string, state.DayPrayerLog>>({
+        key: state.PRAYER_LOG_KEY,
+        version: 1,
+        defaultValue: () => ({}),
+        validate: recordOf(isDayPrayerLog),
+    }),
+    qadaLedger: defineStore<state.QadaLedger>({
+        key: state.QADA_LEDGER_KEY,
+        version: 1,
+        defaultValue: () => ({
+            priorMissedDays: 0,
+            madeUp: { fajr: 0, dhuhr: 0, asr: 0, maghrib: 0, isha: 0 },
+            dailyTarget: 5
+        }),
+        validate: (data: unknown) => isQadaLedger(data) ? data : null,
+    }),
+    ramadanLog: defineStore<Record<string, state.RamadanYearLog>>({
+        key: state.RAMADAN_LOG_KEY,
+        version: 1,
+        defaultValue: () => ({}),
+        validate: recordOf(isRamadanYearLog),
+    }),
+    nutritionLog: defineStore<state.MealEntry[]>({
+        key: state.NUTRITION_LOG_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isMealEntry),
+    }),
+    viewedRecipes: defineStore<number[]>({
+        key: state.VIEWED_RECIPES_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isFiniteNumber),
+    }),
+    completedWorkouts: defineStore<CompletedWorkout[]>({
+        key: state.COMPLETED_WORKOUTS_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isCompletedWorkout),
+    }),
+    userGoals: defineStore<state.UserGoal[]>({
+        key: state.USER_GOAL_KEY,
+        version: 2,
+        defaultValue: () => [],
+        validate: arrayOf(isUserGoal),
+        migrations: {
+            // v1 held a single weekly {type, target} goal, or null.
+            1: (data: unknown) => isObject(data)
+                ? [{ id: 'goal-1', type: data.type, target: data.target, period: 'week', createdAt: new Date().toISOString().split('T')[0] }]
+                : [],
+        },
+    }),
+    meditationLog: defineStore<state.MeditationSession[]>({
+        key: state.MEDITATION_LOG_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isMeditationSession),
+    }),
+    cookedRecipes: defineStore<state.CookedRecipe[]>({
+        key: state.COOKED_RECIPES_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isCookedRecipe),
+    }),
+    aiChatHistory: defineStore<state.ChatMessage[]>({
+        key: state.AI_CHAT_HISTORY_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isChatMessage),
+    }),
+    achievements: defineStore<Record<string, string>>({
+        key: state.ACHIEVEMENTS_KEY,
+        version: 2,
+        defaultValue: () => ({}),
+        validate: recordOf(isString),
+        migrations: {
+            // v1 was a list of unlocked ids; v2 maps each id to the date it was unlocked.
+            // Dates weren't recorded before, so those are left empty.
+            1: (data: unknown) => Array.isArray(data) ? Object.fromEntries(data.filter(isString).map(id => [id, ''])) : data,
+        },
+    }),
+    communityReactions: defineStore<Record<number, string>>({
+        key: state.COMMUNITY_REACTIONS_KEY,
+        version: 1,
+        defaultValue: () => ({}),
+        validate: recordOf(isString),
+    }),
+    activeProgram: defineStore<state.ActiveProgramState | null>({
+        key: state.ACTIVE_PROGRAM_KEY,
+        version: 1,
+        defaultValue: () => null,
+        validate: nullable(isActiveProgram),
+    }),
+    programHistory: defineStore<state.ProgramHistoryEntry[]>({
+        key: state.PROGRAM_HISTORY_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isProgramHistoryEntry),
+    }),
+    customPrograms: defineStore<state.Program[]>({
+        key: state.CUSTOM_PROGRAMS_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isProgram),
+    }),
+    sentReminders: defineStore<Record<string, number>>({
+        key: state.SENT_REMINDERS_KEY,
+        version: 1,
+        defaultValue: () => ({}),
+        validate: recordOf(isFiniteNumber),
+    }),
+    favorites: defineStore<state.Favorites>({
+        key: state.FAVORITES_KEY,
+        version: 1,
+        defaultValue: () => ({ workout: [], recipe: [], meditation: [] }),
+        validate: (data: unknown) => isFavorites(data) ? data : null,
+    }),
+    playlists: defineStore<state.Playlist[]>({
+        key: state.PLAYLISTS_KEY,
+        version: 1,
+        defaultValue: () => [],
+        validate: arrayOf(isPlaylist),
+    }),
+};
+
+const SCHEMAS_BY_KEY = new Map<string, StoreSchema<any>>(
+    Object.values(STORES).map(schema => [schema.key, schema as StoreSchema<any>])
+);
+
+/**
+ * Looks up the schema registered for a localStorage key.
+ */
+export function getSchemaForKey(key: string): StoreSchema<any> | undefined {
+    return SCHEMAS_BY_KEY.get(key);
+}
+
+// --- PARSING & SERIALIZATION ---
+
+function isEnvelope(value: unknown): value is StoredEnvelope {
+    return isObject(value) && isFiniteNumber(value.schemaVersion) && 'data' in value && Object.keys(value).length === 2;
+}
+
+/**
+ * Parses a raw stored string, runs forward migrations, and validates the result.
+ * @returns The value and whether it needs to be written back (it was migrated), or null if it is unusable.
+ */
+function decode<T>(schema: StoreSchema<T>, raw: string): { value: T; migrated: boolean } | null {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (e) {
+        console.error(`Failed to parse '${schema.key}' from localStorage`, e);
+        return null;
+    }
+
+    let version = 0;
+    let data: unknown = parsed;
+    if (isEnvelope(parsed)) {
+        version = parsed.schemaVersion;
+        data = parsed.data;
+    }
+
+    // Data written by a newer app version can't be downgraded; use it only if it still validates.
+    try {
+        for (let v = version; v < schema.version; v++) {
+            const migrate = schema.migrations?.[v];
+            if (migrate) data = migrate(data);
+        }
+    } catch (e) {
+        console.error(`Failed to migrate '${schema.key}' from version ${version}`, e);
+        return null;
+    }
+
+    // Null is a real value only for stores that default to it (e.g. no active program);
+    // anywhere else it is as unusable as any other value that fails validation.
+    const value = schema.validate(data);
+    if (value === null && (data !== null || schema.defaultValue() !== null)) {
+        console.error(`Stored '${schema.key}' does not match schema version ${schema.version}`);
+        return null;
+    }
+    return { value: value as T, migrated: version < schema.version };
+}
+
+/**
+ * Parses a raw stored value for a schema, falling back to the default when it is unusable.
+ * Used by the sync layer to merge values from other devices.
+ */
+export function parseStoredValue<T>(schema: StoreSchema<T>, raw: string | null): T {
+    if (raw === null) return schema.defaultValue();
+    const decoded = decode(schema, raw);
+    return decoded ? decoded.value : schema.defaultValue();
+}
+
+/**
+ * Decodes a value from another source (e.g. an imported archive) without falling back to the default.
+ * @returns The migrated and validated value wrapped in an object, or null if it is unusable.
+ */
+export function tryParseStoredValue<T>(schema: StoreSchema<T>, raw: string): { value: T } | null {
+    const decoded = decode(schema, raw);
+    return decoded ? { value: decoded.value } : null;
+}
+
+/**
+ * Serializes a value into the versioned envelope for a schema.
+ */
+export function serializeStoredValue<T>(schema: StoreSchema<T>, value: T): string {
+    const envelope: StoredEnvelope = { schemaVersion: schema.version, data: value };
+    return JSON.stringify(envelope);
+}
+
+// --- MERGE HELPERS ---
+
+/**
+ * Merges two keyed records. Keys present in both take the value from `newer`.
+ */
+export function mergeRecords<T>(newer: Record<string, T>, older: Record<string, T>): Record<string, T> {
+    return { ...older, ...newer };
+}
+
+function isDated<T>(item: T): item is T & { date: string } {
+    return isObject(item) && isString(item.date);
+}
+
+/**
+ * Merges two lists of log entries, dropping exact duplicates.
+ */
+export function mergeLists<T>(newer: T[], older: T[]): T[] {
+    const seen = new Set(newer.map(item => JSON.stringify(item)));
+    const merged = [...newer];
+    for (const item of older) {
+        if (!seen.has(JSON.stringify(item))) merged.push(item);
+    }
+    // Logged entries carry a date; keep them in the order the owning module wrote them.
+    const dated = merged.filter(isDated);
+    if (dated.length === merged.length) {
+        const newerDated = newer.filter(isDated);
+        const newestFirst = newerDated.length > 1 && newerDated[0].date > newerDated[newerDated.length - 1].date;
+        dated.sort((a, b) => newestFirst ? b.date.localeCompare(a.date) : a.date.localeCompare(b.date));
+        return dated;
+    }
+    return merged;
+}
+
+/**
+ * Merges two copies of a store of running totals against their common `base`. Every number that
+ * changed on both sides gets both changes added up; any other value takes the side that changed,
+ * preferring `newer` when both did.
+ */
+export function mergeCounters<T>(newer: T, older: T, base: T): T {
+    if (typeof newer === 'number' && typeof older === 'number' && typeof base === 'number') {
+        return (older + newer - base) as T;
+    }
+    if (isObject(newer) && isObject(older) && isObject(base)) {
+        const merged: Record<string, unknown> = { ...older, ...newer };
+        for (const key of Object.keys(merged)) {
+            if (key in newer && key in older && key in base) merged[key] = mergeCounters(newer[key], older[key], base[key]);
+        }
+        return merged as T;
+    }
+    return JSON.stringify(newer) === JSON.stringify(base) ? older : newer;
+}
+
+/**
+ * Merges two lists of unique ids.
+ */
+export function mergeSets<T>(newer: T[], older: T[]): T[] {
+    return Array.from(new Set([...older, ...newer]));
+}
+
+// --- PUBLIC API ---
+
+/**
+ * Reads a store, migrating and validating it. Corrupted data is moved aside to `<key>_corrupted`
+ * (so it can still be recovered by hand) and the default value is returned.
+ * @param schema The store to read.
+ * @returns The stored value, or the schema's default.
+ */
+export function readStore<T>(schema: StoreSchema<T>): T {
+    const raw = localStorage.getItem(schema.key);
+    if (raw === null) return schema.defaultValue();
+
+    const decoded = decode(schema, raw);
+    if (!decoded) {
+        localStorage.setItem(`${schema.key}_corrupted`, raw);
+        localStorage.removeItem(schema.key);
+        return schema.defaultValue();
+    }
+    if (decoded.migrated) {
+        localStorage.setItem(schema.key, serializeStoredValue(schema, decoded.value));
+    }
+    return decoded.value;
+}
+
+/**
+ * Writes a value to a store in the versioned envelope format.
+ * @param schema The store to write.
+ * @param value The new value.
+ */
+export function writeStore<T>(schema: StoreSchema<T>, value: T) {
+    localStorage.setItem(schema.key, serializeStoredValue(schema, value));
+    writeListeners.forEach(listener => listener(schema.key));
+}
+
+/**
+ * Reads a store, applies an update function, and writes the result back.
+ * @param schema The store to update.
+ * @param updateFn Receives the current value and returns the new one.
+ * @returns The new value.
+ */
+export function updateStore<T>(schema: StoreSchema<T>, updateFn: (current: T) => T): T {
+    const updated = updateFn(readStore(schema));
+    writeStore(schema, updated);
+    return updated;
+}
+
+/**
+ * Removes a store entirely.
+ */
+export function removeStore<T>(schema: StoreSchema<T>) {
+    localStorage.removeItem(schema.key);
+    writeListeners.forEach(listener => listener(schema.key));
+}
+
+/**
+ * Registers a listener called with the key of every store written through this module.
+ */
+export function onStoreWrite(listener: StoreWriteListener) {
+    writeListeners.push(listener);
+}
@@ -1,4 +1,4 @@
-const CACHE_NAME = 'ahavatfit-v7'; // Force update to clear stale code
+const CACHE_NAME = 'ahavatfit-v8'; // Force update to clear stale code
 const urlsToCache = [
   '/',
   '/index.html',
@@ -153,4 +153,148 @@ self.addEventListener('notificationclick', event => {
       }
     })
   );
-});
\ No newline at end of file
+});
+
+// --- SCHEDULED REMINDERS ---
+//
+// The app sends its upcoming reminders (prayer, workout, hydration) here. They are kept in IndexedDB
+// so they survive the worker being stopped, and delivered by notification triggers where the browser
+// supports them, otherwise whenever the worker wakes up (app open, periodic sync, background sync).
+// Every delivered reminder id is remembered, so nothing is shown twice across sessions.
+
+const REMINDER_DB_NAME = 'ahavatfit-reminders';
+const LATE_DELIVERY_MS = 30 * 60 * 1000; // Reminders more than 30 minutes late are dropped
+const SENT_RETENTION_MS = 3 * 24 * 3600 * 1000;
+
+function openReminderDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(REMINDER_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('queue', { keyPath: 'id' });
+      request.result.createObjectStore('sent', { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs `work` against the given object stores in one transaction and resolves when it commits.
+ */
+async function withReminderStores(mode, work) {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(['queue', 'sent'], mode);
+    let result;
+    Promise.resolve(work(tx.objectStore('queue'), tx.objectStore('sent'))).then(value => { result = value; }, reject);
+    tx.oncomplete = () => { db.close(); resolve(result); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  });
+}
+
+function getAllFrom(store) {
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function supportsNotificationTriggers() {
+  return typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+}
+
+function reminderOptions(reminder) {
+  return {
+    body: reminder.body,
+    icon: '/images/icon-192x192.png',
+    badge: '/images/icon-192x192.png',
+    vibrate: [100, 50, 100],
+    tag: reminder.id,
+    data: { url: self.location.origin },
+  };
+}
+
+/**
+ * Replaces the queued reminders with a fresh schedule from the app. With notification triggers,
+ * each future reminder is also handed to the OS so it fires even if the worker never wakes up.
+ */
+async function scheduleReminders(reminders, now, useTriggers) {
+  const sent = await withReminderStores('readonly', (queue, sentStore) => getAllFrom(sentStore));
+  const sentIds = new Set(sent.map(entry => entry.id));
+  const triggered = useTriggers && supportsNotificationTriggers();
+
+  // Cancel triggers for reminders that are no longer scheduled (e.g. a prayer switched off).
+  if (supportsNotificationTriggers()) {
+    const pending = await self.registration.getNotifications({ includeTriggered: false });
+    const keep = new Set(reminders.map(reminder => reminder.id));
+    pending.filter(n => n.showTrigger && !keep.has(n.tag)).forEach(n => n.close());
+  }
+
+  await withReminderStores('readwrite', queue => {
+    queue.clear();
+    reminders
+      .filter(reminder => !sentIds.has(reminder.id))
+      .forEach(reminder => queue.put({ ...reminder, triggered }));
+  });
+
+  if (triggered) {
+    for (const reminder of reminders) {
+      if (reminder.at <= now || sentIds.has(reminder.id)) continue;
+      await self.registration.showNotification(reminder.title, {
+        ...reminderOptions(reminder),
+        showTrigger: new TimestampTrigger(reminder.at),
+      });
+    }
+  }
+
+  await deliverDueReminders(now);
+}
+
+/**
+ * Shows every queued reminder that has come due and hasn't been shown yet.
+ * Reminders handed to a notification trigger are only marked as sent, since the OS shows them.
+ */
+async function deliverDueReminders(now) {
+  const due = await withReminderStores('readwrite', async (queue, sent) => {
+    const [queued, sentEntries] = await Promise.all([getAllFrom(queue), getAllFrom(sent)]);
+    const sentIds = new Set(sentEntries.map(entry => entry.id));
+    sentEntries
+      .filter(entry => now - entry.sentAt > SENT_RETENTION_MS)
+      .forEach(entry => sent.delete(entry.id));
+
+    const dueReminders = queued.filter(reminder => reminder.at <= now);
+    dueReminders.forEach(reminder => {
+      queue.delete(reminder.id);
+      sent.put({ id: reminder.id, sentAt: now });
+    });
+    return dueReminders.filter(reminder =>
+      !sentIds.has(reminder.id) && !reminder.triggered && now - reminder.at <= LATE_DELIVERY_MS
+    );
+  });
+
+  await Promise.all(due.map(reminder =>
+    self.registration.showNotification(reminder.title, reminderOptions(reminder))
+  ));
+}
+
+self.addEventListener('message', event => {
+  const message = event.data || {};
+  if (message.type === 'SCHEDULE_REMINDERS') {
+    event.waitUntil(scheduleReminders(message.reminders || [], message.now || Date.now(), message.useTriggers));
+  } else if (message.type === 'CHECK_REMINDERS') {
+    event.waitUntil(deliverDueReminders(message.now || Date.now()));
+  }
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === 'ahavatfit-reminders') {
+    event.waitUntil(deliverDueReminders(Date.now()));
+  }
+});
+
+self.addEventListener('sync', event => {
+  if (event.tag === 'ahavatfit-reminders') {
+    event.waitUntil(deliverDueReminders(Date.now()));
+  }
+});
@@ -0,0 +1,372 @@
+// sync.ts - Cloud Sync of Local User Data to Firestore
+
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/auth';
+import 'firebase/compat/firestore';
+import * as state from './state';
+import { firebaseEmulators } from './firebase';
+import { getSchemaForKey, mergeCounters, mergeLists, mergeRecords, mergeSets, onStoreWrite, parseStoredValue, serializeStoredValue } from './storage';
+
+// --- TYPES & CONSTANTS ---
+
+type MergeStrategy = 'latest' | 'record' | 'list' | 'set' | 'counter';
+
+interface SyncedStore {
+    key: string;   // localStorage key
+    name: string;  // Firestore document id under users/{uid}/stores
+    strategy: MergeStrategy;
+}
+
+interface StoreSyncMeta {
+    hash: string | null;  // Hash of the local value as of the last successful sync
+    syncedAt: number;     // Remote `updatedAt` as of the last successful sync
+    updatedAt: number;    // When the local value was last seen changing
+    base?: string | null; // Raw value as of the last successful sync, kept for 'counter' stores only
+}
+
+interface SyncMeta {
+    uid: string | null;
+    stores: { [key: string]: StoreSyncMeta };
+}
+
+interface RemoteStoreDoc {
+    value: string | null; // Raw localStorage value, so any JSON shape round-trips unchanged
+    updatedAt: number;
+}
+
+/**
+ * Every user-owned localStorage store that is mirrored to the cloud, with the
+ * strategy used to merge it when both devices changed it since the last sync.
+ */
+const SYNCED_STORES: SyncedStore[] = [
+    { key: state.USER_PROFILE_KEY, name: 'profile', strategy: 'latest' },
+    { key: state.ONBOARDING_COMPLETED_KEY, name: 'onboarding', strategy: 'latest' },
+    { key: state.CYCLE_LOG_DATA_KEY, name: 'cycle_log', strategy: 'record' },
+    { key: state.CYCLE_SETTINGS_KEY, name: 'cycle_settings', strategy: 'latest' },
+    { key: state.PRAYER_SETTINGS_KEY, name: 'prayer_settings', strategy: 'latest' },
+    { key: state.REMINDER_SETTINGS_KEY, name: 'reminder_settings', strategy: 'latest' },
+    { key: state.PRAYER_CALCULATION_KEY, name: 'prayer_calculation', strategy: 'latest' },
+    { key: state.PHASE_COLORS_KEY, name: 'phase_colors', strategy: 'latest' },
+    { key: state.PRAYER_LOG_KEY, name: 'prayer_log', strategy: 'record' },
+    { key: state.QADA_LEDGER_KEY, name: 'qada_ledger', strategy: 'counter' },
+    { key: state.RAMADAN_LOG_KEY, name: 'ramadan_log', strategy: 'record' },
+    { key: state.NUTRITION_LOG_KEY, name: 'nutrition_log', strategy: 'list' },
+    { key: state.COMPLETED_WORKOUTS_KEY, name: 'completed_workouts', strategy: 'list' },
+    { key: state.USER_GOAL_KEY, name: 'goal', strategy: 'latest' },
+    { key: state.MEDITATION_LOG_KEY, name: 'meditation_log', strategy: 'list' },
+    { key: state.COOKED_RECIPES_KEY, name: 'cooked_recipes', strategy: 'list' },
+    { key: state.ACHIEVEMENTS_KEY, name: 'achievements', strategy: 'record' },
+    { key: state.VIEWED_RECIPES_KEY, name: 'viewed_recipes', strategy: 'set' },
+    { key: state.ACTIVE_PROGRAM_KEY, name: 'active_program', strategy: 'latest' },
+    { key: state.PROGRAM_HISTORY_KEY, name: 'program_history', strategy: 'list' },
+    { key: state.CUSTOM_PROGRAMS_KEY, name: 'custom_programs', strategy: 'latest' },
+    { key: state.FAVORITES_KEY, name: 'favorites', strategy: 'latest' },
+    { key: state.PLAYLISTS_KEY, name: 'playlists', strategy: 'latest' },
+    { key: state.AI_CHAT_HISTORY_KEY, name: 'ai_chat_history', strategy: 'latest' },
+];
+
+const AUTO_SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+let autoSyncIntervalId: number | null = null;
+let autoSyncHandler: (() => void) | null = null;
+let syncInProgress: Promise<string[]> | null = null;
+let declinedAccountSwitch: string | null = null; // Uid whose sync the user refused to replace this device's data for
+
+// --- EMULATOR SUPPORT ---
+
+/**
+ * Points Auth and Firestore at the local emulators (`npm run emulators`) when the app
+ * is opened with `?emulator` in the URL. Must run right after `initializeApp`.
+ */
+export function connectEmulatorsIfRequested() {
+    if (!new URLSearchParams(window.location.search).has('emulator')) return;
+    const { host, authPort, firestorePort } = firebaseEmulators;
+    firebase.auth().useEmulator(`http://${host}:${authPort}`);
+    firebase.firestore().useEmulator(host, firestorePort);
+}
+
+// --- SYNC METADATA ---
+
+function getSyncMeta(): SyncMeta {
+    try {
+        const raw = localStorage.getItem(state.SYNC_META_KEY);
+        return raw ? JSON.parse(raw) : { uid: null, stores: {} };
+    } catch (e) {
+        console.error("Failed to parse sync metadata from localStorage", e);
+        return { uid: null, stores: {} };
+    }
+}
+
+function saveSyncMeta(meta: SyncMeta) {
+    localStorage.setItem(state.SYNC_META_KEY, JSON.stringify(meta));
+}
+
+/**
+ * A small, fast string hash (djb2) used to detect local changes between syncs.
+ */
+function hashValue(value: string | null): string | null {
+    if (value === null) return null;
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36) + ':' + value.length;
+}
+
+/**
+ * Stamps the local modification time of every store whose value changed since the last sync.
+ * Called before each sync and whenever the page is hidden, so timestamps stay close to the real edit time.
+ */
+function recordLocalChanges(meta: SyncMeta) {
+    const now = Date.now();
+    for (const store of SYNCED_STORES) {
+        const storeMeta = meta.stores[store.key];
+        const currentHash = hashValue(localStorage.getItem(store.key));
+        if (!storeMeta) {
+            meta.stores[store.key] = { hash: null, syncedAt: 0, updatedAt: currentHash === null ? 0 : now };
+        } else if (currentHash !== storeMeta.hash && storeMeta.updatedAt <= storeMeta.syncedAt) {
+            storeMeta.updatedAt = now;
+        }
+    }
+}
+
+/**
+ * Stamps the exact modification time of a store written through the storage module.
+ */
+function markLocalChange(key: string) {
+    const meta = getSyncMeta();
+    const storeMeta = meta.stores[key];
+    if (!meta.uid || !storeMeta) return;
+    storeMeta.updatedAt = Date.now();
+    saveSyncMeta(meta);
+}
+
+onStoreWrite(markLocalChange);
+
+// --- MERGING ---
+
+/**
+ * Merges two raw values of a store that changed on both sides since the last sync.
+ * Entries present on both sides are resolved in favour of the side with the newer timestamp.
+ * Counter stores are merged against `base`, their value at the last sync, so increments made
+ * on both devices add up; without a base the newer copy is kept.
+ */
+function mergeValues(store: SyncedStore, local: string | null, remote: string | null, localIsNewer: boolean, base: string | null): string | null {
+    const newerRaw = localIsNewer ? local : remote;
+    const olderRaw = localIsNewer ? remote : local;
+    if (store.strategy === 'latest' || newerRaw === null || olderRaw === null) {
+        return newerRaw ?? olderRaw;
+    }
+    if (store.strategy === 'counter' && base === null) {
+        return newerRaw;
+    }
+
+    // Both sides are decoded through the store's schema, so a copy written by an older
+    // app version is migrated to the current shape before the two are merged.
+    const schema = getSchemaForKey(store.key);
+    if (!schema) return newerRaw;
+    try {
+        const newer = parseStoredValue(schema, newerRaw);
+        const older = parseStoredValue(schema, olderRaw);
+        switch (store.strategy) {
+            case 'record':
+                return serializeStoredValue(schema, mergeRecords(newer, older));
+            case 'list':
+                return serializeStoredValue(schema, mergeLists(newer, older));
+            case 'set':
+                return serializeStoredValue(schema, mergeSets(newer, older));
+            case 'counter':
+                return serializeStoredValue(schema, mergeCounters(newer, older, parseStoredValue(schema, base!)));
+        }
+    } catch (e) {
+        console.error(`Failed to merge '${store.name}', keeping the newer copy`, e);
+    }
+    return newerRaw;
+}
+
+function writeLocal(key: string, value: string | null) {
+    if (value === null) {
+        localStorage.removeItem(key);
+    } else {
+        localStorage.setItem(key, value);
+    }
+}
+
+// --- SYNC ---
+
+function getStoresCollection(uid: string) {
+    return firebase.firestore().collection('users').doc(uid).collection('stores');
+}
+
+/**
+ * Removes every synced store from localStorage. Used when a different account signs in
+ * on this device, so one user's health data is never merged into another's cloud copy.
+ */
+function clearLocalStores() {
+    SYNCED_STORES.forEach(store => localStorage.removeItem(store.key));
+}
+
+/**
+ * Whether any synced store changed locally since the last successful sync.
+ */
+function hasUnsyncedChanges(meta: SyncMeta): boolean {
+    return SYNCED_STORES.some(store => {
+        const currentHash = hashValue(localStorage.getItem(store.key));
+        const storeMeta = meta.stores[store.key];
+        return storeMeta ? currentHash !== storeMeta.hash : currentHash !== null;
+    });
+}
+
+/**
+ * Clears the previous account's data before another account syncs on this device. Signing out
+ * pushes pending changes first (see `flushBeforeSignOut`), so unsynced data is only left behind
+ * if that push failed; the user must then agree to lose it.
+ * @throws If the user chooses to keep the previous account's data.
+ */
+function switchAccount(meta: SyncMeta, uid: string) {
+    if (meta.uid !== null) {
+        if (hasUnsyncedChanges(meta)) {
+            const confirmed = declinedAccountSwitch !== uid && confirm(
+                'На этом устройстве есть несохранённые в облаке данные другого аккаунта. Удалить их и загрузить данные текущего аккаунта?'
+            );
+            if (!confirmed) {
+                declinedAccountSwitch = uid;
+                throw new Error('Sync cancelled: this device holds unsynced data of another account.');
+            }
+        }
+        clearLocalStores();
+    }
+    declinedAccountSwitch = null;
+}
+
+async function runSync(uid: string): Promise<string[]> {
+    let meta = getSyncMeta();
+    if (meta.uid !== uid) {
+        switchAccount(meta, uid);
+        meta = { uid, stores: {} };
+    }
+    recordLocalChanges(meta);
+
+    const snapshot = await getStoresCollection(uid).get();
+    const remoteDocs = new Map<string, RemoteStoreDoc>();
+    snapshot.forEach((doc: firebase.firestore.QueryDocumentSnapshot) => remoteDocs.set(doc.id, doc.data() as RemoteStoreDoc));
+
+    const batch = firebase.firestore().batch();
+    let hasRemoteWrites = false;
+    const changedLocalKeys: string[] = [];
+    const now = Date.now();
+
+    for (const store of SYNCED_STORES) {
+        const storeMeta = meta.stores[store.key];
+        const local = localStorage.getItem(store.key);
+        const remoteDoc = remoteDocs.get(store.name);
+        const remote = remoteDoc ? remoteDoc.value : null;
+        const remoteUpdatedAt = remoteDoc ? remoteDoc.updatedAt : 0;
+
+        const localChanged = hashValue(local) !== storeMeta.hash;
+        const remoteChanged = remoteUpdatedAt > storeMeta.syncedAt;
+
+        let result: string | null;
+        if (localChanged && remoteChanged) {
+            result = mergeValues(store, local, remote, storeMeta.updatedAt >= remoteUpdatedAt, storeMeta.base ?? null);
+        } else if (remoteChanged) {
+            result = remote;
+        } else {
+            result = local;
+        }
+
+        if (result !== local) {
+            writeLocal(store.key, result);
+            changedLocalKeys.push(store.key);
+        }
+
+        let syncedAt = remoteUpdatedAt;
+        if (result !== remote) {
+            syncedAt = Math.max(now, remoteUpdatedAt + 1);
+            batch.set(getStoresCollection(uid).doc(store.name), { value: result, updatedAt: syncedAt });
+            hasRemoteWrites = true;
+        }
+        meta.stores[store.key] = { hash: hashValue(result), syncedAt, updatedAt: syncedAt };
+        if (store.strategy === 'counter') meta.stores[store.key].base = result;
+    }
+
+    if (hasRemoteWrites) {
+        await batch.commit();
+    }
+    saveSyncMeta(meta);
+    return changedLocalKeys;
+}
+
+/**
+ * Synchronizes all user data stores between localStorage and the user's Firestore document tree.
+ * Concurrent calls share the sync that is already running.
+ * @param uid The Firebase user id whose data should be synced.
+ * @returns A promise resolving with the localStorage keys that were updated from the cloud.
+ */
+export function syncUserData(uid: string): Promise<string[]> {
+    if (!syncInProgress) {
+        syncInProgress = runSync(uid).finally(() => { syncInProgress = null; });
+    }
+    return syncInProgress;
+}
+
+/**
+ * Pushes this device's pending changes before the user signs out, so they are not lost when
+ * another account signs in here later. Failures (e.g. offline) are logged and ignored.
+ * @param uid The Firebase user id that is signing out.
+ */
+export async function flushBeforeSignOut(uid: string) {
+    const meta = getSyncMeta();
+    if (meta.uid !== uid || !navigator.onLine) return;
+    recordLocalChanges(meta);
+    saveSyncMeta(meta);
+    if (!hasUnsyncedChanges(meta)) return;
+    try {
+        await syncUserData(uid);
+    } catch (error) {
+        console.error("Failed to sync before signing out:", error);
+    }
+}
+
+/**
+ * Starts background syncing: periodically, when the page is hidden, and when the device comes back online.
+ * @param uid The Firebase user id whose data should be synced.
+ * @param onRemoteChanges Called with the keys that were updated from the cloud.
+ */
+export function startAutoSync(uid: string, onRemoteChanges: (changedKeys: string[]) => void) {
+    stopAutoSync();
+    const sync = () => {
+        if (!navigator.onLine) return;
+        syncUserData(uid)
+            .then(changedKeys => { if (changedKeys.length > 0) onRemoteChanges(changedKeys); })
+            .catch(error => console.error("Background sync failed:", error));
+    };
+    autoSyncIntervalId = window.setInterval(sync, AUTO_SYNC_INTERVAL);
+    autoSyncHandler = () => {
+        if (document.visibilityState === 'hidden') {
+            const meta = getSyncMeta();
+            if (meta.uid === uid) {
+                recordLocalChanges(meta);
+                saveSyncMeta(meta);
+            }
+        }
+        sync();
+    };
+    document.addEventListener('visibilitychange', autoSyncHandler);
+    window.addEventListener('online', autoSyncHandler);
+}
+
+/**
+ * Stops background syncing, e.g. when the user signs out.
+ */
+export function stopAutoSync() {
+    if (autoSyncIntervalId) {
+        clearInterval(autoSyncIntervalId);
+        autoSyncIntervalId = null;
+    }
+    if (autoSyncHandler) {
+        document.removeEventListener('visibilitychange', autoSyncHandler);
+        window.removeEventListener('online', autoSyncHandler);
+        autoSyncHandler = null;
+    }
+}
@@ -5,6 +5,14 @@
 export const $ = <T extends HTMLElement>(selector:string) => document.querySelector<T>(selector);
 export const $$ = <T extends HTMLElement>(selector:string) => document.querySelectorAll<T>(selector);
 
+/**
+ * Escapes text typed by the user or imported from elsewhere before it goes into an HTML template.
+ * Safe in element content and in quoted attribute values.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
 
 // --- THEME MANAGEMENT ---
 
@@ -158,6 +166,25 @@ export function getFirebaseAuthErrorMessage(error: any): string {
     }
 }
 
+// --- FILE UTILITIES ---
+
+/**
+ * Triggers a browser download of a text file.
+ * @param filename The suggested file name.
+ * @param content The file contents.
+ * @param mimeType The MIME type of the file.
+ */
+export function downloadFile(filename: string, content: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 // --- VIDEO PLAYER UTILITIES ---
 export function formatTime(timeInSeconds: number): string {
     if (isNaN(timeInSeconds)) return '00:00';
@@ -194,6 +221,8 @@ export function renderList<T>(
         const key = node.dataset.id; // Assuming the key is stored in data-id
         if (key) {
             existingNodes.set(key, node);
+        } else {
+            node.remove(); // Placeholders such as a previous empty message
         }
     }
 
@@ -1,8 +1,89 @@
 // workouts.ts - Workouts Page Logic and Video Player for AhavatFit
 
 import * as state from './state';
-import { $, $$, formatTime, renderList, handleAsyncOperation } from './ui';
+import { $, $$, closeModal, formatTime, renderList, handleAsyncOperation, showShareSuccessModal, showToast } from './ui';
 import * as api from './api'; // Phase IV: Import the new API layer
+import { rescheduleReminders } from './notifications';
+import { markProgramSessionDone } from './programs';
+import { STORES, readStore, updateStore } from './storage';
+import { estimateWorkoutCalories } from './calories';
+import { toLocalDateStr } from './predictions';
+import type { WorkoutFeeling } from './progress';
+import { generateFavoriteButton, generatePlaylistAddButton } from './favorites';
+
+// --- CATALOG SEARCH TYPES & CONSTANTS ---
+
+export type DurationRange = 'any' | 'short' | 'medium' | 'long';
+export type WorkoutSort = 'recommended' | 'shortest' | 'longest' | 'gentlest' | 'hardest';
+
+export interface WorkoutFilters {
+    query: string;
+    category: string; // 'all' or one of WORKOUT_CATEGORIES
+    duration: DurationRange;
+    level: state.UserProfile['level'] | 'any';
+    equipment: state.WorkoutEquipment | 'none' | 'any'; // 'none' = no equipment at all
+    quiet: boolean;
+    lowImpact: boolean;
+    sort: WorkoutSort;
+}
+
+const DURATION_RANGES: Record<DurationRange, { label: string; min: number; max: number }> = {
+    any: { label: 'Любая длительность', min: 0, max: Infinity },
+    short: { label: 'До 15 мин', min: 0, max: 15 },
+    medium: { label: '16–30 мин', min: 16, max: 30 },
+    long: { label: 'Дольше 30 мин', min: 31, max: Infinity }
+};
+
+const WORKOUT_SORTS: Record<WorkoutSort, string> = {
+    recommended: 'Сначала подходящие мне',
+    shortest: 'Сначала короткие',
+    longest: 'Сначала длинные',
+    gentlest: 'Сначала лёгкие',
+    hardest: 'Сначала интенсивные'
+};
+
+const INTENSITY_ORDER: Record<state.WorkoutIntensity, number> = { low: 0, moderate: 1, high: 2 };
+
+const DEFAULT_WORKOUT_FILTERS: WorkoutFilters = {
+    query: '',
+    category: 'all',
+    duration: 'any',
+    level: 'any',
+    equipment: 'any',
+    quiet: false,
+    lowImpact: false,
+    sort: 'recommended'
+};
+
+let workoutFilters: WorkoutFilters = { ...DEFAULT_WORKOUT_FILTERS };
+
+// --- SESSION PLAYER TYPES & CONSTANTS ---
+
+type SessionStepKind = 'prepare' | 'work' | 'rest';
+
+interface SessionStep {
+    kind: SessionStepKind;
+    exerciseIndex: number;
+    set: number;            // 1-based
+    seconds: number | null; // null for repetition sets, which end when the user taps "Done"
+}
+
+interface WorkoutSession {
+    workout: state.Workout;
+    steps: SessionStep[];
+    stepIndex: number;
+    remaining: number | null;
+    paused: boolean;
+    elapsedSeconds: number; // Active time only, pauses excluded
+    setsCompleted: number;
+    intervalId: number | null;
+}
+
+const PREPARE_SECONDS = 10;
+const COUNTDOWN_CUE_SECONDS = 3;
+
+let session: WorkoutSession | null = null;
+let audioContext: AudioContext | null = null;
 
 /**
  * Renders the main workouts page, fetching data if necessary.
@@ -32,13 +113,17 @@ export async function renderWorkoutsPage(setState: (newState: Partial<state.AppS
     // --- If successful, render the content ---
     const filtersContainer = $('#workout-filters');
     if (filtersContainer) {
-        filtersContainer.innerHTML = `<button class="chip active" data-category="all">Все</button>` + state.WORKOUT_CATEGORIES.map(cat => `<button class="chip" data-category="${cat}">${cat}</button>`).join('');
+        filtersContainer.innerHTML = ['all', ...state.WORKOUT_CATEGORIES]
+            .map(cat => `<button class="chip ${workoutFilters.category === cat ? 'active' : ''}" data-category="${cat}">${cat === 'all' ? 'Все' : cat}</button>`).join('');
     }
-    renderWorkoutList(state.appState.workouts, playlistContainer);
-    if (state.appState.workouts.length > 0) {
-        renderVideoPlayer(state.appState.workouts[0]);
-        const firstItem = playlistContainer.querySelector('.playlist-item');
-        if (firstItem) firstItem.classList.add('active');
+    setupWorkoutSearch();
+    applyWorkoutFilters();
+    // Open with the workout that best fits the user's goal and level.
+    const recommended = recommendWorkout(readStore(STORES.userProfile), state.appState.workouts);
+    if (recommended) {
+        renderVideoPlayer(recommended);
+        const recommendedItem = playlistContainer.querySelector(`.playlist-item[data-id="${recommended.id}"]`);
+        if (recommendedItem) recommendedItem.classList.add('active');
     }
     state.globalUIState.workoutsInitialized = true;
 }
@@ -52,10 +137,14 @@ export function renderWorkoutList(workoutList: state.Workout[], container: HTMLE
     const renderFn = (w: state.Workout) => `
         <div class="playlist-item" data-id="${w.id}">
             <div class="playlist-thumb"><i class="fas fa-play"></i></div>
-            <div class="playlist-info"><h4>${w.title}</h4><p>${w.category} - ${w.duration} мин</p></div>
+            <div class="playlist-info">
+                <h4>${w.title}</h4>
+                <p>${w.category} - ${w.duration} мин · ${state.WORKOUT_INTENSITIES[w.intensity ?? 'moderate']}</p>
+                <div class="workout-tags">${generateWorkoutTags(w)}</div>
+            </div>
             <i class="fas fa-chevron-right playlist-play-icon"></i>
         </div>`;
-    const emptyHtml = '<p>Тренировки в этой категории не найдены.</p>';
+    const emptyHtml = '<p>Тренировки по этим фильтрам не найдены. Попробуйте изменить поиск или сбросить фильтры.</p>';
     
     renderList(container, workoutList, w => w.id, renderFn, emptyHtml);
 }
@@ -94,9 +183,11 @@ export function renderVideoPlayer(workout: state.Workout) {
         playerContainer.innerHTML = `<div class="video-placeholder"><i class="fas fa-video-slash"></i><p>Формат видео не поддерживается</p></div>`;
     }
     const videoTitleEl = $('#video-title'); if(videoTitleEl) videoTitleEl.textContent = workout.title;
+    const videoActionsEl = $('#video-actions'); if(videoActionsEl) videoActionsEl.innerHTML = generatePlaylistAddButton('workout', workout.id) + generateFavoriteButton('workout', workout.id);
     const videoDescEl = $('#video-description'); if(videoDescEl) videoDescEl.textContent = workout.description;
     const videoDurEl = $('#video-duration'); if(videoDurEl) videoDurEl.innerHTML = `<i class="far fa-clock"></i> ${workout.duration} мин`;
-    const videoCalEl = $('#video-calories'); if(videoCalEl) videoCalEl.innerHTML = `<i class="far fa-fire"></i> ${workout.calories} ккал`;
+    const videoTagsEl = $('#video-tags'); if(videoTagsEl) videoTagsEl.innerHTML = generateWorkoutTags(workout, true);
+    const videoCalEl = $('#video-calories'); if(videoCalEl) videoCalEl.innerHTML = `<i class="far fa-fire"></i> ≈ ${estimateWorkoutCalories(workout, workout.duration)} ккал`;
     
     // Reset the complete button so the new workout can be logged
     const completeBtn = $<HTMLButtonElement>('.complete-workout-btn');
@@ -104,6 +195,571 @@ export function renderVideoPlayer(workout: state.Workout) {
         completeBtn.disabled = false;
         completeBtn.innerHTML = `<i class="far fa-check-circle"></i> Завершить тренировку`;
     }
+
+    const startSessionBtn = $<HTMLButtonElement>('.start-session-btn');
+    if (startSessionBtn) startSessionBtn.style.display = workout.exercises?.length ? '' : 'none';
+    renderExerciseList(workout);
+}
+
+const GOAL_CATEGORIES: Record<state.UserProfile['goal'], string[]> = {
+    lose_weight: ['Кардио', 'Силовая'],
+    gain_muscle: ['Силовая'],
+    maintain_fitness: ['Силовая', 'Растяжка', 'Кардио'],
+    improve_endurance: ['Кардио']
+};
+
+const LEVEL_INTENSITIES: Record<state.UserProfile['level'], state.WorkoutIntensity[]> = {
+    beginner: ['low', 'moderate'],
+    intermediate: ['low', 'moderate', 'high'],
+    advanced: ['moderate', 'high']
+};
+
+/**
+ * Picks the workout that best suits the user's goal and fitness level.
+ * @returns The recommendation, or null if there are no workouts.
+ */
+export function recommendWorkout(profile: state.UserProfile | null, workouts: state.Workout[]): state.Workout | null {
+    if (!profile) return workouts[0] ?? null;
+    const categories = GOAL_CATEGORIES[profile.goal] ?? [];
+    const intensities = LEVEL_INTENSITIES[profile.level] ?? [];
+    const forGoal = workouts.filter(w => categories.includes(w.category));
+    return forGoal.find(w => intensities.includes(w.intensity ?? 'moderate'))
+        ?? forGoal[0]
+        ?? workouts[0]
+        ?? null;
+}
+
+// --- CATALOG SEARCH ---
+
+/**
+ * Scores how well a workout suits the user's goal and level; higher is better.
+ */
+function getSuitability(workout: state.Workout, profile: state.UserProfile | null): number {
+    if (!profile) return 0;
+    return (GOAL_CATEGORIES[profile.goal]?.includes(workout.category) ? 2 : 0)
+        + (LEVEL_INTENSITIES[profile.level]?.includes(workout.intensity ?? 'moderate') ? 1 : 0)
+        + (workout.level === profile.level ? 1 : 0);
+}
+
+/** Everything a search query can match, lowercased: title, description, tags and exercise names. */
+function getSearchText(workout: state.Workout): string {
+    return [
+        workout.title,
+        workout.description,
+        workout.category,
+        workout.level ? state.FITNESS_LEVELS[workout.level] : '',
+        ...(workout.equipment ?? []).map(e => state.WORKOUT_EQUIPMENT[e]),
+        ...(workout.muscleGroups ?? []).map(m => state.MUSCLE_GROUPS[m]),
+        ...(workout.exercises ?? []).map(e => e.name)
+    ].join(' ').toLowerCase();
+}
+
+/**
+ * Applies the search query and facets to the catalog and sorts the matches.
+ * Workouts without a level suit any level; workouts without an impact count as low-impact.
+ * @param profile Used by the "recommended" sort.
+ */
+export function filterWorkouts(workouts: state.Workout[], filters: WorkoutFilters, profile: state.UserProfile | null = null): state.Workout[] {
+    const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const range = DURATION_RANGES[filters.duration];
+    const matches = workouts.filter(w =>
+        (filters.category === 'all' || w.category === filters.category)
+        && w.duration >= range.min && w.duration <= range.max
+        && (filters.level === 'any' || !w.level || w.level === filters.level)
+        && (filters.equipment === 'any' || (filters.equipment === 'none' ? !w.equipment?.length : Boolean(w.equipment?.includes(filters.equipment))))
+        && (!filters.quiet || w.quiet === true)
+        && (!filters.lowImpact || (w.impact ?? 'low') === 'low')
+        && words.every(word => getSearchText(w).includes(word)));
+
+    const intensity = (w: state.Workout) => INTENSITY_ORDER[w.intensity ?? 'moderate'];
+    const compare: Record<WorkoutSort, (a: state.Workout, b: state.Workout) => number> = {
+        recommended: (a, b) => getSuitability(b, profile) - getSuitability(a, profile),
+        shortest: (a, b) => a.duration - b.duration,
+        longest: (a, b) => b.duration - a.duration,
+        gentlest: (a, b) => intensity(a) - intensity(b) || a.duration - b.duration,
+        hardest: (a, b) => intensity(b) - intensity(a) || b.duration - a.duration
+    };
+    return matches.sort(compare[filters.sort]);
+}
+
+/**
+ * Generates the small tags shown under a workout: level, equipment and, in detail, muscles and impact.
+ */
+function generateWorkoutTags(workout: state.Workout, detailed: boolean = false): string {
+    const tags = [
+        workout.level ? `<span class="workout-tag"><i class="fas fa-signal"></i> ${state.FITNESS_LEVELS[workout.level]}</span>` : '',
+        workout.equipment?.length
+            ? workout.equipment.map(e => `<span class="workout-tag"><i class="fas fa-dumbbell"></i> ${state.WORKOUT_EQUIPMENT[e]}</span>`).join('')
+            : '<span class="workout-tag"><i class="fas fa-hand-sparkles"></i> Без инвентаря</span>',
+        workout.quiet ? '<span class="workout-tag"><i class="fas fa-volume-low"></i> Тихо, для квартиры</span>' : ''
+    ];
+    if (detailed) {
+        tags.push(
+            `<span class="workout-tag"><i class="fas fa-gauge"></i> Интенсивность: ${state.WORKOUT_INTENSITIES[workout.intensity ?? 'moderate'].toLowerCase()}</span>`,
+            (workout.impact ?? 'low') === 'low' ? '<span class="workout-tag"><i class="fas fa-feather-alt"></i> Без прыжков</span>' : '<span class="workout-tag"><i class="fas fa-person-running"></i> С прыжками</span>',
+            ...(workout.muscleGroups ?? []).map(m => `<span class="workout-tag muscle">${state.MUSCLE_GROUPS[m]}</span>`)
+        );
+    }
+    return tags.join('');
+}
+
+function generateSelect(facet: keyof WorkoutFilters, options: Record<string, string>, label: string): string {
+    return `
+        <select class="form-select" data-facet="${facet}" aria-label="${label}">
+            ${Object.entries(options).map(([value, text]) => `<option value="${value}" ${workoutFilters[facet] === value ? 'selected' : ''}>${text}</option>`).join('')}
+        </select>`;
+}
+
+function renderWorkoutFacets() {
+    const facets = $('#workout-facets');
+    if (!facets) return;
+    const durations = Object.fromEntries(Object.entries(DURATION_RANGES).map(([key, range]) => [key, range.label]));
+    facets.innerHTML = `
+        ${generateSelect('duration', durations, 'Длительность')}
+        ${generateSelect('level', { any: 'Любой уровень', ...state.FITNESS_LEVELS }, 'Уровень')}
+        ${generateSelect('equipment', { any: 'Любой инвентарь', none: 'Без инвентаря', ...state.WORKOUT_EQUIPMENT }, 'Инвентарь')}
+        ${generateSelect('sort', WORKOUT_SORTS, 'Сортировка')}
+        <div class="chip-filters">
+            <button class="chip ${workoutFilters.quiet ? 'active' : ''}" data-facet-toggle="quiet"><i class="fas fa-volume-low"></i> Тихо, для квартиры</button>
+            <button class="chip ${workoutFilters.lowImpact ? 'active' : ''}" data-facet-toggle="lowImpact"><i class="fas fa-feather-alt"></i> Без прыжков</button>
+        </div>
+        <button class="btn btn-outline" data-facet-reset>Сбросить фильтры</button>
+    `;
+}
+
+/**
+ * Renders the playlist for the current search and filters, with the number of matches.
+ */
+function applyWorkoutFilters() {
+    const playlist = $('#workouts-playlist');
+    if (!playlist) return;
+    const results = filterWorkouts(state.appState.workouts, workoutFilters, readStore(STORES.userProfile));
+    renderWorkoutList(results, playlist);
+
+    const count = $('#workouts-count');
+    if (count) count.textContent = results.length < state.appState.workouts.length ? `${results.length} из ${state.appState.workouts.length}` : '';
+    // The category chips have their own row, so only the facets in the panel count here.
+    const activeFacets = (['duration', 'level', 'equipment', 'quiet', 'lowImpact'] as const)
+        .filter(facet => workoutFilters[facet] !== DEFAULT_WORKOUT_FILTERS[facet]).length;
+    const toggle = $('#workout-facets-toggle');
+    if (toggle) toggle.classList.toggle('has-filters', activeFacets > 0);
+}
+
+/**
+ * Changes some of the search filters and refreshes the playlist.
+ */
+export function updateWorkoutFilters(changes: Partial<WorkoutFilters>) {
+    workoutFilters = { ...workoutFilters, ...changes };
+    applyWorkoutFilters();
+}
+
+function setupWorkoutSearch() {
+    const searchInput = $<HTMLInputElement>('#workout-search-input');
+    searchInput?.addEventListener('input', () => updateWorkoutFilters({ query: searchInput.value }));
+    $('#workout-facets-toggle')?.addEventListener('click', () => {
+        const facets = $('#workout-facets');
+        if (facets) facets.hidden = !facets.hidden;
+    });
+
+    const facets = $('#workout-facets');
+    facets?.addEventListener('change', e => {
+        const select = (e.target as HTMLElement).closest<HTMLSelectElement>('[data-facet]');
+        if (select?.dataset.facet) updateWorkoutFilters({ [select.dataset.facet]: select.value });
+    });
+    facets?.addEventListener('click', e => {
+        const target = e.target as HTMLElement;
+        const toggle = target.closest<HTMLElement>('[data-facet-toggle]');
+        if (toggle) {
+            const facet = toggle.dataset.facetToggle as 'quiet' | 'lowImpact';
+            toggle.classList.toggle('active');
+            updateWorkoutFilters({ [facet]: !workoutFilters[facet] });
+        } else if (target.closest('[data-facet-reset]')) {
+            workoutFilters = { ...DEFAULT_WORKOUT_FILTERS, query: workoutFilters.query, category: workoutFilters.category };
+            renderWorkoutFacets();
+            applyWorkoutFilters();
+        }
+    });
+    renderWorkoutFacets();
+}
+
+function describeExercise(exercise: state.WorkoutExercise): string {
+    const effort = exercise.durationSeconds ? formatTime(exercise.durationSeconds) : `${exercise.reps ?? 0} повт.`;
+    return exercise.sets > 1 ? `${exercise.sets} × ${effort}` : effort;
+}
+
+function renderExerciseList(workout: state.Workout) {
+    const container = $('#workout-exercises');
+    if (!container) return;
+    container.innerHTML = workout.exercises?.length
+        ? `<ol class="exercise-list">${workout.exercises.map(ex => `
+            <li><span>${ex.name}</span><span class="exercise-effort">${describeExercise(ex)}</span></li>`).join('')}
+           </ol>`
+        : '';
+}
+
+interface CompletionDetails {
+    duration: number;
+    rpe?: number;
+    feeling?: WorkoutFeeling;
+    notes?: string;
+    setsCompleted?: number;
+    setsPlanned?: number;
+}
+
+/**
+ * Records a finished workout in the completed-workouts log and runs the follow-up actions
+ * (first-workout achievement, reminder rescheduling, the congratulations modal).
+ * @param workout The workout that was done.
+ * @param details What the user reported in the completion sheet.
+ */
+export function recordCompletedWorkout(workout: state.Workout, details: CompletionDetails) {
+    // The local date, so a workout after midnight counts for the day the user sees (and the reminder matches).
+    const todayStr = toLocalDateStr(new Date());
+    updateStore(STORES.completedWorkouts, completed => [...completed, {
+        workoutId: workout.id,
+        date: todayStr,
+        calories: estimateWorkoutCalories(workout, details.duration, details.rpe),
+        ...details,
+    }]);
+    markProgramSessionDone(workout.id, todayStr);
+    rescheduleReminders(); // Today's workout reminder is no longer needed
+
+    const completeBtn = $<HTMLButtonElement>('.complete-workout-btn');
+    if (completeBtn && state.globalUIState.currentWorkout?.id === workout.id) {
+        completeBtn.disabled = true;
+        completeBtn.innerHTML = `<i class="fas fa-check"></i> Завершено!`;
+    }
+    showShareSuccessModal(workout.title);
+}
+
+// --- COMPLETION SHEET ---
+
+const FEELINGS: Record<WorkoutFeeling, { label: string; icon: string }> = {
+    great: { label: 'Отлично', icon: '🤩' },
+    good: { label: 'Хорошо', icon: '😊' },
+    ok: { label: 'Нормально', icon: '😐' },
+    tired: { label: 'Устала', icon: '😮‍💨' },
+    bad: { label: 'Плохо', icon: '😣' }
+};
+
+const RPE_LABELS = ['Очень легко', 'Легко', 'Умеренно', 'Тяжело', 'Максимально'];
+
+let completionSheet: { workout: state.Workout; sets?: { completed: number; planned: number } } | null = null;
+
+function describeRpe(rpe: number): string {
+    return `${rpe} — ${RPE_LABELS[Math.min(RPE_LABELS.length - 1, Math.floor((rpe - 1) / 2))]}`;
+}
+
+function updateCompletionCalories() {
+    const duration = Number($<HTMLInputElement>('#complete-duration')?.value) || 0;
+    const rpe = Number($<HTMLInputElement>('#complete-rpe')?.value);
+    const caloriesEl = $('#complete-calories');
+    if (completionSheet && caloriesEl) {
+        caloriesEl.textContent = `≈ ${estimateWorkoutCalories(completionSheet.workout, duration, rpe)} ккал`;
+    }
+}
+
+/**
+ * Opens the sheet where the user confirms how long the workout actually took and how it felt.
+ * @param workout The finished workout.
+ * @param prefill Values measured by the session player, if it was used.
+ */
+export function openCompletionSheet(workout: state.Workout, prefill: { duration?: number; setsCompleted?: number; setsPlanned?: number } = {}) {
+    const modal = $('#workout-complete-modal');
+    if (!modal) return;
+    completionSheet = {
+        workout,
+        sets: prefill.setsCompleted !== undefined ? { completed: prefill.setsCompleted, planned: prefill.setsPlanned ?? 0 } : undefined
+    };
+
+    const title = $('#workout-complete-title');
+    if (title) title.textContent = workout.title;
+    ($('#complete-duration') as HTMLInputElement).value = String(prefill.duration ?? workout.duration);
+    ($('#complete-rpe') as HTMLInputElement).value = '5';
+    ($('#complete-rpe-label') as HTMLElement).textContent = describeRpe(5);
+    ($('#complete-notes') as HTMLTextAreaElement).value = '';
+    const chips = $('#feeling-chips');
+    if (chips) {
+        chips.innerHTML = (Object.keys(FEELINGS) as WorkoutFeeling[]).map(feeling => `
+            <button type="button" class="chip" data-feeling="${feeling}">${FEELINGS[feeling].icon} ${FEELINGS[feeling].label}</button>
+        `).join('');
+    }
+    updateCompletionCalories();
+
+    modal.style.display = 'flex';
+    setTimeout(() => modal.classList.add('show'), 10);
+}
+
+function setupCompletionSheet() {
+    const form = $<HTMLFormElement>('#workout-complete-form');
+    form?.addEventListener('input', e => {
+        const target = e.target as HTMLInputElement;
+        if (target.id === 'complete-rpe') ($('#complete-rpe-label') as HTMLElement).textContent = describeRpe(Number(target.value));
+        updateCompletionCalories();
+    });
+    $('#feeling-chips')?.addEventListener('click', e => {
+        const chip = (e.target as HTMLElement).closest<HTMLElement>('.chip');
+        if (!chip) return;
+        const wasActive = chip.classList.contains('active');
+        $$('#feeling-chips .chip').forEach(c => c.classList.remove('active'));
+        chip.classList.toggle('active', !wasActive);
+    });
+    form?.addEventListener('submit', e => {
+        e.preventDefault();
+        if (!completionSheet) return;
+        const duration = Math.round(Number($<HTMLInputElement>('#complete-duration')?.value));
+        if (!duration || duration < 1) {
+            showToast('Укажите, сколько минут длилась тренировка.');
+            return;
+        }
+        const feeling = $('#feeling-chips .chip.active')?.getAttribute('data-feeling') as WorkoutFeeling | null;
+        const notes = $<HTMLTextAreaElement>('#complete-notes')?.value.trim();
+        const { workout, sets } = completionSheet;
+        completionSheet = null;
+
+        closeModal();
+        recordCompletedWorkout(workout, {
+            duration,
+            rpe: Number($<HTMLInputElement>('#complete-rpe')?.value),
+            ...(feeling && { feeling }),
+            ...(notes && { notes }),
+            ...(sets && { setsCompleted: sets.completed, setsPlanned: sets.planned }),
+        });
+    });
+}
+
+// --- GUIDED SESSION PLAYER ---
+
+/**
+ * Expands a workout's exercises into the sequence of steps the player walks through:
+ * a short get-ready countdown, then every set followed by its rest (no rest after the final set).
+ */
+function buildSessionSteps(exercises: state.WorkoutExercise[]): SessionStep[] {
+    const steps: SessionStep[] = [{ kind: 'prepare', exerciseIndex: 0, set: 1, seconds: PREPARE_SECONDS }];
+    exercises.forEach((exercise, exerciseIndex) => {
+        for (let set = 1; set <= exercise.sets; set++) {
+            steps.push({ kind: 'work', exerciseIndex, set, seconds: exercise.durationSeconds ?? null });
+            const isLastStep = exerciseIndex === exercises.length - 1 && set === exercise.sets;
+            if (!isLastStep && exercise.restSeconds > 0) {
+                steps.push({ kind: 'rest', exerciseIndex, set, seconds: exercise.restSeconds });
+            }
+        }
+    });
+    return steps;
+}
+
+/**
+ * Plays a short beep. Browsers only allow audio after a user gesture, which starting the session provides.
+ */
+function playCue(frequency: number, durationMs: number = 150) {
+    try {
+        audioContext ??= new AudioContext();
+        const oscillator = audioContext.createOscillator();
+        const gain = audioContext.createGain();
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.2, audioContext.currentTime);
+        gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + durationMs / 1000);
+        oscillator.connect(gain).connect(audioContext.destination);
+        oscillator.start();
+        oscillator.stop(audioContext.currentTime + durationMs / 1000);
+    } catch (e) {
+        console.warn("Audio cues are not available:", e);
+    }
+}
+
+function getSetsPlanned(workout: state.Workout): number {
+    return (workout.exercises ?? []).reduce((sum, ex) => sum + ex.sets, 0);
+}
+
+/**
+ * Opens the guided session for the current workout.
+ */
+export function startWorkoutSession(workout: state.Workout) {
+    if (!workout.exercises?.length) return;
+    stopSessionTimer();
+    const steps = buildSessionSteps(workout.exercises);
+    session = {
+        workout,
+        steps,
+        stepIndex: 0,
+        remaining: steps[0].seconds,
+        paused: false,
+        elapsedSeconds: 0,
+        setsCompleted: 0,
+        intervalId: null
+    };
+
+    const modal = $('#workout-session-modal');
+    if (modal) {
+        modal.style.display = 'flex';
+        setTimeout(() => modal.classList.add('show'), 10);
+    }
+    playCue(660);
+    session.intervalId = window.setInterval(tickSession, 1000);
+    renderSession();
+}
+
+function stopSessionTimer() {
+    if (session?.intervalId) {
+        clearInterval(session.intervalId);
+        session.intervalId = null;
+    }
+}
+
+function tickSession() {
+    if (!session || session.paused) return;
+    session.elapsedSeconds++;
+    if (session.remaining === null) {
+        renderSession();
+        return;
+    }
+
+    session.remaining--;
+    if (session.remaining <= 0) {
+        advanceSession(true);
+        return;
+    }
+    if (session.remaining <= COUNTDOWN_CUE_SECONDS) playCue(440);
+    renderSession();
+}
+
+/**
+ * Moves to the next step.
+ * @param completed Whether the current step was finished rather than skipped; only finished sets count.
+ */
+function advanceSession(completed: boolean) {
+    if (!session) return;
+    if (completed && session.steps[session.stepIndex].kind === 'work') session.setsCompleted++;
+
+    session.stepIndex++;
+    if (session.stepIndex >= session.steps.length) {
+        finishSession();
+        return;
+    }
+    const step = session.steps[session.stepIndex];
+    session.remaining = step.seconds;
+    playCue(step.kind === 'work' ? 880 : 520, 300);
+    renderSession();
+}
+
+function finishSession() {
+    if (!session) return;
+    stopSessionTimer();
+    playCue(990, 500);
+    renderSessionSummary();
+}
+
+function closeSession() {
+    stopSessionTimer();
+    session = null;
+    const modal = $('#workout-session-modal');
+    if (modal) {
+        modal.classList.remove('show');
+        setTimeout(() => { modal.style.display = 'none'; }, 300);
+    }
+}
+
+function renderSession() {
+    const container = $('#workout-session-content');
+    if (!session || !container) return;
+    const { workout, steps, stepIndex, remaining, paused } = session;
+    const step = steps[stepIndex];
+    const exercises = workout.exercises!;
+    const exercise = exercises[step.exerciseIndex];
+    const nextWork = steps.slice(stepIndex + 1).find(s => s.kind === 'work');
+
+    const stepLabels: Record<SessionStepKind, string> = { prepare: 'Приготовьтесь', work: 'Упражнение', rest: 'Отдых' };
+    const heading = step.kind === 'work' ? exercise.name : stepLabels[step.kind];
+    const timer = remaining !== null
+        ? formatTime(remaining)
+        : `${exercise.reps ?? 0} повт.`;
+    const nextText = nextWork
+        ? `Далее: ${exercises[nextWork.exerciseIndex].name}${exercises[nextWork.exerciseIndex].sets > 1 ? ` (подход ${nextWork.set})` : ''}`
+        : 'Это последнее упражнение';
+    const workSteps = steps.filter(s => s.kind === 'work').length;
+    const doneSteps = steps.slice(0, stepIndex).filter(s => s.kind === 'work').length;
+
+    container.innerHTML = `
+        <div class="session-progress"><div class="session-progress-bar" style="width: ${(doneSteps / workSteps) * 100}%"></div></div>
+        <p class="session-step-label session-${step.kind}">${stepLabels[step.kind]}${step.kind === 'work' && exercise.sets > 1 ? ` · подход ${step.set} из ${exercise.sets}` : ''}</p>
+        <h3>${heading}</h3>
+        <div class="session-timer ${paused ? 'paused' : ''}">${timer}</div>
+        ${step.kind === 'work' && exercise.notes ? `<p class="session-notes">${exercise.notes}</p>` : ''}
+        <p class="session-next">${nextText}</p>
+        <div class="session-controls">
+            <button class="btn btn-outline" data-session-action="pause">
+                <i class="fas ${paused ? 'fa-play' : 'fa-pause'}"></i> ${paused ? 'Продолжить' : 'Пауза'}
+            </button>
+            ${remaining === null
+                ? `<button class="btn" data-session-action="done"><i class="fas fa-check"></i> Готово</button>`
+                : `<button class="btn btn-outline" data-session-action="skip"><i class="fas fa-forward"></i> Пропустить</button>`}
+        </div>
+        <button class="session-link-btn" data-session-action="finish">Закончить тренировку</button>
+    `;
+}
+
+function renderSessionSummary() {
+    const container = $('#workout-session-content');
+    if (!session || !container) return;
+    const minutes = Math.max(1, Math.round(session.elapsedSeconds / 60));
+    container.innerHTML = `
+        <h3>Тренировка завершена</h3>
+        <p>${session.workout.title}</p>
+        <div class="session-summary">
+            <div><strong>${formatTime(session.elapsedSeconds)}</strong><span>время</span></div>
+            <div><strong>${session.setsCompleted} / ${getSetsPlanned(session.workout)}</strong><span>подходов</span></div>
+            <div><strong>${estimateWorkoutCalories(session.workout, minutes)}</strong><span>ккал</span></div>
+        </div>
+        <button class="btn" data-session-action="save"><i class="far fa-check-circle"></i> Сохранить</button>
+        <button class="session-link-btn" data-session-action="discard">Не сохранять</button>
+    `;
+}
+
+/**
+ * Wires up the session player and completion sheet controls. Called once at startup.
+ */
+export function setupWorkoutSession() {
+    setupCompletionSheet();
+
+    $('#workouts-page')?.addEventListener('click', e => {
+        if (!(e.target as HTMLElement).closest('.start-session-btn')) return;
+        const workout = state.globalUIState.currentWorkout;
+        if (workout) startWorkoutSession(workout);
+    });
+
+    $('#workout-session-content')?.addEventListener('click', e => {
+        const action = (e.target as HTMLElement).closest<HTMLElement>('[data-session-action]')?.dataset.sessionAction;
+        if (!action || !session) return;
+        switch (action) {
+            case 'pause':
+                session.paused = !session.paused;
+                renderSession();
+                break;
+            case 'skip':
+                advanceSession(false);
+                break;
+            case 'done':
+                advanceSession(true);
+                break;
+            case 'finish':
+                finishSession();
+                break;
+            case 'save': {
+                const { workout, elapsedSeconds, setsCompleted } = session;
+                closeSession();
+                // Let the closing animation finish before the completion sheet opens.
+                setTimeout(() => openCompletionSheet(workout, {
+                    duration: Math.max(1, Math.round(elapsedSeconds / 60)),
+                    setsCompleted,
+                    setsPlanned: getSetsPlanned(workout)
+                }), 300);
+                break;
+            }
+            case 'discard':
+                closeSession();
+                break;
+        }
+    });
 }
 
 function setupCustomVideoPlayer(wrapper: HTMLElement) {